@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createServerDatabaseClient } from '@data-snack/database';
+import { createRepositories } from '@data-snack/database';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': process.env.NODE_ENV === 'development' 
@@ -19,7 +19,7 @@ export async function OPTIONS() {
 
 export async function GET(request: NextRequest) {
   try {
-    const db = createServerDatabaseClient();
+    const { events } = createRepositories();
     const searchParams = request.nextUrl.searchParams;
     const timeframe = searchParams.get('timeframe') || '1h';
     
@@ -42,54 +42,8 @@ export async function GET(request: NextRequest) {
     }
     
     // Query analytics data
-    const [eventsResult, usersResult, consentResult] = await Promise.all([
-      // Total events in timeframe
-      db
-        .from('events')
-        .select('*', { count: 'exact', head: true })
-        .gte('time', startTime.toISOString()),
-      
-      // Unique users in timeframe  
-      db
-        .from('events')
-        .select('user_id', { count: 'exact', head: true })
-        .gte('time', startTime.toISOString())
-        .not('user_id', 'is', null),
-      
-      // Consent statistics
-      db
-        .from('events')
-        .select('consent_state')
-        .eq('event_type', 'consent_change')
-        .gte('time', startTime.toISOString())
-        .limit(100),
-    ]);
-    
-    // Calculate consent statistics
-    const consentStats = {
-      total: consentResult.data?.length || 0,
-      analytics: 0,
-      marketing: 0,
-      personalization: 0,
-    };
-    
-    consentResult.data?.forEach((event: any) => {
-      if (event.consent_state?.analytics) consentStats.analytics++;
-      if (event.consent_state?.marketing) consentStats.marketing++;
-      if (event.consent_state?.personalization) consentStats.personalization++;
-    });
-    
-    // Get recent events by type
-    const eventsByType = await db
-      .from('events')
-      .select('event_type')
-      .gte('time', startTime.toISOString())
-      .limit(1000);
-    
-    const eventTypeStats = eventsByType.data?.reduce((acc: Record<string, number>, event: any) => {
-      acc[event.event_type] = (acc[event.event_type] || 0) + 1;
-      return acc;
-    }, {}) || {};
+    const summary = await events.summarize(startTime);
+    const consentStats = summary.consent;
     
     // Calculate privacy score (percentage of users with analytics consent)
     const privacyScore = consentStats.total > 0 
@@ -100,10 +54,10 @@ export async function GET(request: NextRequest) {
       timeframe,
       timestamp: new Date().toISOString(),
       stats: {
-        totalEvents: eventsResult.count || 0,
-        uniqueUsers: usersResult.count || 0,
+        totalEvents: summary.totalEvents,
+        uniqueUsers: summary.uniqueUsers,
         privacyScore,
-        dataPoints: (eventsResult.count || 0) * 5, // Estimate 5 data points per event
+        dataPoints: summary.totalEvents * 5, // Estimate 5 data points per event
       },
       consent: {
         total: consentStats.total,
@@ -111,7 +65,7 @@ export async function GET(request: NextRequest) {
         marketing: consentStats.marketing,
         personalization: consentStats.personalization,
       },
-      eventTypes: eventTypeStats,
+      eventTypes: summary.eventTypes,
       health: {
         database: 'connected',
         lastUpdate: new Date().toISOString(),
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConsentLedger } from '@data-snack/tracking';
+import { createRepositories } from '@data-snack/database';
+import { z } from 'zod';
+
+const HistoryQuerySchema = z.object({
+  userId: z.string().uuid().nullable(),
+  sessionId: z.string().min(1),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+const ledger = new ConsentLedger(createRepositories());
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin':
+    process.env.NODE_ENV === 'development' ? '*' : 'https://data-snack.com',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: corsHeaders,
+  });
+}
+
+// Auditable consent log, newest first (GDPR Art. 7 proof of consent). Only
+// the session's records, and the user's among them when both ids match.
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const { userId, sessionId, limit } = HistoryQuerySchema.parse({
+      userId: searchParams.get('userId'),
+      sessionId: searchParams.get('sessionId'),
+      limit: searchParams.get('limit') ?? undefined,
+    });
+
+    const records = await ledger.history({ userId, sessionId }, limit);
+
+    return NextResponse.json(
+      {
+        userId,
+        sessionId,
+        records,
+        count: records.length,
+        generatedAt: new Date().toISOString(),
+      },
+      {
+        headers: {
+          ...corsHeaders,
+          'Cache-Control': 'no-store',
+        },
+      },
+    );
+  } catch (error) {
+    console.error('[API] Consent history error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query',
+          details: error.errors,
+        },
+        {
+          status: 400,
+          headers: corsHeaders,
+        },
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to load consent history' },
+      {
+        status: 500,
+        headers: corsHeaders,
+      },
+    );
+  }
+}
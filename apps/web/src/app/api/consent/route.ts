@@ -1,27 +1,75 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { ServerTracker } from '@data-snack/tracking';
-import { TrackingEvent } from '@data-snack/core';
+import {
+  ConsentLedger,
+  ServerTracker,
+  anonymizeIp,
+  clientIpFromHeaders,
+  geoIpFromEnv,
+  locateClient,
+  privacySignalPolicyFromEnv,
+  readPrivacySignals,
+  trustedProxiesFromEnv,
+} from '@data-snack/tracking';
+import {
+  CONSENT_VERSION,
+  ClientConsentOrigin,
+  TC_STRING_MAX_LENGTH,
+  TcStringError,
+  TcfCodec,
+  TrackingEvent,
+  UserId,
+  applyPrivacySignals,
+} from '@data-snack/core';
+import { createRepositories } from '@data-snack/database';
 import { z } from 'zod';
 
-// Consent request schema
+// Consent request schema, categories and/or an IAB TCF v2.2 TC string
 const ConsentRequestSchema = z.object({
-  userId: z.string().optional(),
+  userId: UserId.optional(),
   sessionId: z.string(),
-  consent: z.object({
-    necessary: z.boolean().default(true),
-    analytics: z.boolean(),
-    marketing: z.boolean(),
-    personalization: z.boolean(),
-  }),
+  consent: z
+    .object({
+      necessary: z.boolean().default(true),
+      analytics: z.boolean(),
+      marketing: z.boolean(),
+      personalization: z.boolean(),
+    })
+    .optional(),
+  tcString: z.string().min(1).max(TC_STRING_MAX_LENGTH).optional(),
+  version: z.number().int().min(1).default(CONSENT_VERSION),
+  // gpc and dnt are only recorded from the request's privacy signal
+  source: ClientConsentOrigin.default('api'),
   timestamp: z.string().datetime().optional(),
-  ipAddress: z.string().optional(),
 });
 
+// TC strings are encoded with our CMP registration and the default purpose mapping
+const tcf = new TcfCodec({
+  cmpId: Number(process.env.TCF_CMP_ID) || 0,
+  cmpVersion: Number(process.env.TCF_CMP_VERSION) || 1,
+  vendorListVersion: Number(process.env.TCF_VENDOR_LIST_VERSION) || 1,
+  publisherCountryCode: process.env.TCF_PUBLISHER_CC || 'DE',
+});
+
+// Supabase, or local memory/file storage (DATA_SNACK_STORAGE)
+const repositories = createRepositories();
+
 const tracker = new ServerTracker({
   enableDatabase: true,
   debug: process.env.NODE_ENV === 'development',
+  repositories,
 });
 
+// GPC / DNT handling (PRIVACY_SIGNALS_DENY, HONOR_GPC, HONOR_DNT)
+const privacySignalPolicy = privacySignalPolicyFromEnv();
+
+// Client address behind our proxies (TRUSTED_PROXIES), located offline
+// (GEOIP_DATABASE) before it's truncated
+const trustedProxies = trustedProxiesFromEnv();
+const geoIp = geoIpFromEnv();
+
+// Consent history (proof of consent)
+const ledger = new ConsentLedger(repositories);
+
 const corsHeaders = {
   'Access-Control-Allow-Origin':
     process.env.NODE_ENV === 'development' ? '*' : 'https://data-snack.com',
@@ -39,12 +87,45 @@ export async function OPTIONS() {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { userId, sessionId, consent, timestamp } = ConsentRequestSchema.parse(body);
+    const { userId, sessionId, version, source, timestamp, ...decision } =
+      ConsentRequestSchema.parse(body);
+
+    if (!decision.consent && !decision.tcString) {
+      return NextResponse.json(
+        { error: 'Either consent or tcString is required' },
+        {
+          status: 400,
+          headers: corsHeaders,
+        },
+      );
+    }
+
+    // Explicit categories win, otherwise they are decoded from the TC string
+    const requested = decision.consent ?? tcf.toConsentState(decision.tcString!).categories;
+
+    // A privacy signal overrides the request and is recorded as the source
+    const { consent, signal, overridden } = applyPrivacySignals(
+      requested,
+      readPrivacySignals(request.headers),
+      privacySignalPolicy,
+    );
+    const tcString = (overridden.length === 0 && decision.tcString) || tcf.encode(consent);
+
+    // The ledger truncates the address, the event only gets its location
+    const clientIp = clientIpFromHeaders(request.headers, { trustedProxies });
+    const location = locateClient(clientIp, request.headers, geoIp);
 
-    // Get client IP
-    const forwarded = request.headers.get('x-forwarded-for');
-    const realIp = request.headers.get('x-real-ip');
-    const clientIp = forwarded?.split(',')[0] || realIp || 'unknown';
+    // Persist the decision before announcing it
+    const record = await ledger.record({
+      userId,
+      sessionId,
+      categories: consent,
+      version,
+      source: signal && overridden.length > 0 ? signal : source,
+      tcString,
+      ipAddress: clientIp,
+      userAgent: request.headers.get('user-agent'),
+    });
 
     // Create consent change event
     let consentEvent = TrackingEvent.create(
@@ -52,18 +133,20 @@ export async function POST(request: NextRequest) {
       'consent_updated',
       {
         consent,
+        tcString,
         timestamp: timestamp || new Date().toISOString(),
-        ipAddress: clientIp,
+        ipAddress: anonymizeIp(clientIp),
         userAgent: request.headers.get('user-agent'),
       },
       {
         userAgent: request.headers.get('user-agent') || 'Unknown',
-        ip: clientIp,
+        country: location?.country,
+        region: location?.region,
       },
     ).withSession(sessionId);
 
     if (userId) {
-      consentEvent = consentEvent.withUser(userId as any);
+      consentEvent = consentEvent.withUser(userId);
     }
 
     // Track the consent change
@@ -74,7 +157,8 @@ export async function POST(request: NextRequest) {
       {
         success: true,
         message: 'Consent preferences updated',
-        timestamp: new Date().toISOString(),
+        record,
+        timestamp: record.recordedAt.toISOString(),
       },
       {
         status: 200,
@@ -84,6 +168,16 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error('[API] Consent error:', error);
 
+    if (error instanceof TcStringError) {
+      return NextResponse.json(
+        { error: `Invalid TC string: ${error.message}` },
+        {
+          status: 400,
+          headers: corsHeaders,
+        },
+      );
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         {
@@ -107,7 +201,7 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Get current consent status (if we store it per user)
+// Get current consent status
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const userId = searchParams.get('userId');
@@ -120,24 +214,41 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  // In a real implementation, you'd fetch from database
-  // For now, return default consent state
-  const defaultConsent = {
-    necessary: true,
-    analytics: false,
-    marketing: false,
-    personalization: false,
-  };
-
-  return NextResponse.json(
-    {
-      consent: defaultConsent,
-      userId: userId || null,
-      sessionId,
-      timestamp: new Date().toISOString(),
-    },
-    {
-      headers: corsHeaders,
-    },
-  );
+  try {
+    const record = await ledger.current({ userId, sessionId });
+
+    // Nothing on record: only necessary processing
+    const consent = record?.categories ?? {
+      necessary: true,
+      analytics: false,
+      marketing: false,
+      personalization: false,
+    };
+
+    return NextResponse.json(
+      {
+        consent,
+        version: record?.version ?? null,
+        tcString: record?.tcString ?? null,
+        source: record?.source ?? null,
+        recorded: Boolean(record),
+        userId: userId || null,
+        sessionId,
+        timestamp: (record?.recordedAt ?? new Date()).toISOString(),
+      },
+      {
+        headers: corsHeaders,
+      },
+    );
+  } catch (error) {
+    console.error('[API] Consent lookup error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to load consent' },
+      {
+        status: 500,
+        headers: corsHeaders,
+      },
+    );
+  }
 }
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { NotFoundError } from '@data-snack/database';
 import { GDPRTracker } from '@data-snack/tracking';
 import { z } from 'zod';
 
@@ -107,6 +108,13 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    if (error instanceof NotFoundError) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+    
     return NextResponse.json(
       { 
         error: 'Failed to process GDPR request',
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { createServerDatabaseClient } from '@data-snack/database';
+import { createServerDatabaseClient, resolveStorageDriver } from '@data-snack/database';
 
 export async function GET() {
   const startTime = Date.now();
@@ -19,10 +19,15 @@ export async function GET() {
   };
   
   try {
-    // Check database connection
-    const db = createServerDatabaseClient();
-    const { error } = await db.from('users').select('id').limit(1);
-    health.checks.database = error ? 'unhealthy' : 'healthy';
+    // Check database connection, local storage has nothing to connect to
+    const driver = resolveStorageDriver();
+    if (driver === 'supabase') {
+      const db = createServerDatabaseClient();
+      const { error } = await db.from('users').select('id').limit(1);
+      health.checks.database = error ? 'unhealthy' : 'healthy';
+    } else {
+      health.checks.database = driver;
+    }
   } catch (error) {
     health.checks.database = 'unhealthy';
   }
@@ -1,22 +1,36 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { ServerTracker } from '@data-snack/tracking';
-import { TrackingEvent } from '@data-snack/core';
-import { z } from 'zod';
+import { NextResponse } from 'next/server';
+import {
+  ConsentLedger,
+  DEFAULT_MAX_BODY_BYTES,
+  IngestionPipeline,
+  IngestionWorker,
+  MemoryIngestionQueue,
+  ServerTracker,
+  createRouteHandler,
+  eventClockConfigFromEnv,
+  geoIpFromEnv,
+  piiScrubbingFromEnv,
+  privacySignalPolicyFromEnv,
+  schemaValidationFromEnv,
+  trustedProxiesFromEnv,
+} from '@data-snack/tracking';
+import { UserAgentEnricher } from '@data-snack/core';
+import { createRepositories } from '@data-snack/database';
 
-// Request validation schema
-const TrackingRequestSchema = z.object({
-  events: z.array(
-    z.object({
-      type: z.string(),
-      name: z.string(),
-      properties: z.record(z.unknown()).default({}),
-      context: z.record(z.unknown()).default({}),
-      sessionId: z.string(),
-      userId: z.string().optional(),
-      timestamp: z.string().datetime().optional(),
-    }),
-  ),
-});
+// Upper bound for the decompressed request body
+const maxBodyBytes = Number(process.env.TRACKING_MAX_BODY_BYTES) || DEFAULT_MAX_BODY_BYTES;
+
+// GPC / DNT handling (PRIVACY_SIGNALS_DENY, HONOR_GPC, HONOR_DNT)
+const privacySignalPolicy = privacySignalPolicyFromEnv();
+
+// Proxies whose X-Forwarded-For hops are believed (TRUSTED_PROXIES)
+const trustedProxies = trustedProxiesFromEnv();
+
+// Supabase, or local memory/file storage (DATA_SNACK_STORAGE)
+const repositories = createRepositories();
+
+// Consent history, also the source for consent enforcement
+const ledger = new ConsentLedger(repositories);
 
 // Initialize server tracker
 const tracker = new ServerTracker({
@@ -24,6 +38,44 @@ const tracker = new ServerTracker({
   enableGTMServer: false, // We handle GTM forwarding separately
   enableAnalytics: true,
   debug: process.env.NODE_ENV === 'development',
+  // Events beyond the consent on record are dropped, or anonymized when configured
+  consentEnforcement: process.env.CONSENT_ENFORCEMENT === 'anonymize' ? 'anonymize' : 'reject',
+  consentSource: ledger,
+  repositories,
+  // Event time window and clock skew handling (EVENT_MAX_PAST_MS, EVENT_OUT_OF_WINDOW, ...)
+  clock: eventClockConfigFromEnv(),
+  // Event property schemas, SCHEMA_VALIDATION=strict quarantines mismatches
+  schemaValidation: schemaValidationFromEnv(),
+  // Personal data in properties and URLs, PII_SCRUBBING=hash keeps it joinable
+  scrubbing: piiScrubbingFromEnv(),
+  // Browser, OS and device from the user agent, which needs analytics consent to be kept
+  enrichers: [new UserAgentEnricher()],
+  trustedProxies,
+});
+
+// Batches are stored before replying. Serverless functions are frozen or
+// recycled once they reply, taking an in-memory queue with them, so
+// INGESTION_QUEUE=memory is only for a long-running `next start`.
+const queue =
+  process.env.INGESTION_QUEUE === 'memory'
+    ? new MemoryIngestionQueue({
+        capacity: Number(process.env.INGESTION_QUEUE_CAPACITY) || undefined,
+      })
+    : null;
+const worker = queue
+  ? new IngestionWorker(queue, tracker, { ledger, debug: process.env.NODE_ENV === 'development' })
+  : null;
+worker?.start();
+
+// Validation and normalization shared with the tracking service. The client
+// address is read behind the trusted proxies and located with GEOIP_DATABASE.
+const pipeline = new IngestionPipeline({
+  tracker,
+  queue,
+  ledger,
+  privacySignalPolicy,
+  trustedProxies,
+  geoIp: geoIpFromEnv(),
 });
 
 // CORS headers
@@ -31,7 +83,7 @@ const corsHeaders = {
   'Access-Control-Allow-Origin':
     process.env.NODE_ENV === 'development' ? '*' : 'https://data-snack.com',
   'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Headers': 'Content-Type, Content-Encoding, Authorization',
   'Access-Control-Max-Age': '86400',
 };
 
@@ -44,80 +96,7 @@ export async function OPTIONS() {
 }
 
 // Main tracking endpoint
-export async function POST(request: NextRequest) {
-  try {
-    // Parse and validate request body
-    const body = await request.json();
-    const { events } = TrackingRequestSchema.parse(body);
-
-    // Get client info from headers
-    const userAgent = request.headers.get('user-agent') || 'Unknown';
-    const forwarded = request.headers.get('x-forwarded-for');
-    const realIp = request.headers.get('x-real-ip');
-    const clientIp = forwarded?.split(',')[0] || realIp || 'unknown';
-
-    // Convert to TrackingEvent instances
-    const trackingEvents = events.map(eventData => {
-      const event = TrackingEvent.create(
-        eventData.type as any,
-        eventData.name,
-        eventData.properties,
-        {
-          ...eventData.context,
-          userAgent,
-          ip: clientIp,
-          timestamp: eventData.timestamp || new Date().toISOString(),
-          // Add server-side context
-          serverTimestamp: new Date().toISOString(),
-          origin: request.headers.get('origin') || 'unknown',
-          referer: request.headers.get('referer') || '',
-        },
-      ).withSession(eventData.sessionId);
-
-      if (eventData.userId) {
-        return event.withUser(eventData.userId as any);
-      }
-
-      return event;
-    });
-
-    // Track events using server tracker
-    await tracker.trackBatch(trackingEvents);
-
-    // Return success response
-    return new NextResponse(null, {
-      status: 204, // No Content
-      headers: {
-        ...corsHeaders,
-        'Cache-Control': 'no-cache, no-store, must-revalidate',
-      },
-    });
-  } catch (error) {
-    console.error('[API] Tracking error:', error);
-
-    // Return appropriate error response
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        {
-          error: 'Invalid request format',
-          details: error.errors,
-        },
-        {
-          status: 400,
-          headers: corsHeaders,
-        },
-      );
-    }
-
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      {
-        status: 500,
-        headers: corsHeaders,
-      },
-    );
-  }
-}
+export const POST = createRouteHandler(pipeline, { maxBodyBytes, headers: corsHeaders });
 
 // Health check endpoint
 export async function GET() {
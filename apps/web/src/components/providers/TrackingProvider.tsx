@@ -22,7 +22,7 @@ export function TrackingProvider({ children }: TrackingProviderProps) {
       config={trackingConfig}
       onInitialized={(sdk) => {
         console.log('🚀 Data Snack SDK initialized:', sdk);
-        sdk.track('app_initialized', {
+        sdk.track('custom:app_initialized', {
           timestamp: Date.now(),
           userAgent: navigator.userAgent,
           screen: `${screen.width}x${screen.height}`,
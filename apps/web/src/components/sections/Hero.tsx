@@ -8,7 +8,7 @@ export function Hero() {
   const { track } = useDataSnack();
 
   const handleGetStarted = () => {
-    track('hero_cta_click', {
+    track('custom:hero_cta_click', {
       action: 'get_started',
       timestamp: Date.now(),
     });
@@ -44,7 +44,7 @@ export function Hero() {
             size="lg"
             className="btn-ghost text-lg px-8 py-4"
             onClick={() => {
-              track('hero_learn_more_click', {
+              track('custom:hero_learn_more_click', {
                 action: 'learn_more',
                 timestamp: Date.now(),
               });
@@ -1,5 +1,6 @@
 import { TrackingEvent, EventType, EventProperties, EventContext } from '../../domain/entities/TrackingEvent';
 import { ConsentCategory } from '../../domain/entities/User';
+import { EventRegistry, GrantedConsent, eventRegistry } from '../../domain/services/EventRegistry';
 
 export interface EventStore {
   store(event: TrackingEvent): Promise<void>;
@@ -8,15 +9,16 @@ export interface EventStore {
 }
 
 export interface ConsentManager {
-  checkConsent(userId: string | null | undefined): Promise<ConsentState>;
+  checkConsent(userId: string | null | undefined): Promise<ConsentStatus>;
   updateConsent(userId: string, categories: ConsentCategory[]): Promise<void>;
 }
 
 export interface EventEnricher {
-  enrich(event: TrackingEvent): Promise<TrackingEvent>;
+  // Consent the event was checked against, when known
+  enrich(event: TrackingEvent, consent?: GrantedConsent): Promise<TrackingEvent>;
 }
 
-interface ConsentState {
+export interface ConsentStatus {
   hasAnalytics: boolean;
   hasMarketing: boolean;
   hasPersonalization: boolean;
@@ -27,6 +29,7 @@ export class TrackingService {
     private readonly eventStore: EventStore,
     private readonly consentManager: ConsentManager,
     private readonly enricher: EventEnricher,
+    private readonly registry: EventRegistry = eventRegistry,
   ) {}
 
   async track(
@@ -42,18 +45,27 @@ export class TrackingService {
     // Check consent
     const consent = await this.consentManager.checkConsent(userId);
 
-    // Handle based on consent level
+    // Drop events whose consent category wasn't granted
+    const granted: GrantedConsent = {
+      necessary: true,
+      analytics: consent.hasAnalytics,
+      marketing: consent.hasMarketing,
+      personalization: consent.hasPersonalization,
+    };
+    const allowed = this.registry.isAllowed(type, granted);
+    if (!allowed) {
+      return;
+    }
+
+    // Without analytics consent, keep only an anonymous copy
     if (!consent.hasAnalytics) {
-      // Only track anonymous, necessary events
-      if (type === 'page_view' || type === 'consent_change') {
-        const anonymized = event.anonymize();
-        await this.eventStore.store(anonymized);
-      }
+      const anonymized = event.anonymize();
+      await this.eventStore.store(anonymized);
       return;
     }
 
     // Full tracking with consent
-    let enrichedEvent = await this.enricher.enrich(event);
+    let enrichedEvent = await this.enricher.enrich(event, granted);
     
     if (userId) {
       enrichedEvent = enrichedEvent.withUser(userId as any);
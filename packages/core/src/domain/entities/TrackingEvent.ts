@@ -1,10 +1,12 @@
 import { z } from 'zod';
+import { parseUserAgent } from '../services/UserAgent';
 import { UserId } from './User';
 
-// Event Types
-export const EventType = z.enum([
+// Event types the platform itself emits
+export const CoreEventType = z.enum([
   'page_view',
   'snack_start',
+  'snack_step',
   'snack_complete',
   'snack_abandon',
   'click',
@@ -12,12 +14,63 @@ export const EventType = z.enum([
   'hover',
   'form_submit',
   'share',
+  'identify',
   'consent_change',
   'achievement_unlock',
   'data_export',
   'data_deletion',
+  'api_call',
+
+  // Behavioral profiling
+  'click_dna',
+  'keyboard_dna',
+  'scroll_behavior',
+  'privacy_leak',
 ]);
-export type EventType = z.infer<typeof EventType>;
+export type CoreEventType = z.infer<typeof CoreEventType>;
+
+// Product events live in their own namespace, e.g. custom:hero_cta_click
+export type CustomEventType = `custom:${string}`;
+
+const CUSTOM_EVENT_PATTERN = /^custom:[\w.-]{1,64}$/;
+
+export const CustomEventType = z.custom<CustomEventType>(
+  value => typeof value === 'string' && CUSTOM_EVENT_PATTERN.test(value),
+  { message: 'Custom event types are custom:<name>, a name of up to 64 letters, digits, _ . or -' },
+);
+
+// Event Types
+export const EventType = z.union([CoreEventType, CustomEventType]);
+export type EventType = CoreEventType | CustomEventType;
+
+export const isEventType = (value: unknown): value is EventType =>
+  EventType.safeParse(value).success;
+
+// Types from clients that predate the custom: namespace are taken for
+// custom events, with their name cleaned up to fit it
+export function toEventType(value: string): EventType {
+  if (isEventType(value)) return value;
+
+  const name = value
+    .replace(/^custom:/, '')
+    .trim()
+    .replace(/[^\w.-]+/g, '_')
+    .slice(0, 64);
+  return `custom:${name || 'unknown'}`;
+}
+
+// User-Agent Client Hints as sent in the Sec-CH-UA* headers
+export const ClientHints = z.object({
+  brands: z.string().optional(), // Sec-CH-UA
+  fullVersionList: z.string().optional(), // Sec-CH-UA-Full-Version-List
+  mobile: z.string().optional(), // Sec-CH-UA-Mobile
+  platform: z.string().optional(), // Sec-CH-UA-Platform
+  platformVersion: z.string().optional(), // Sec-CH-UA-Platform-Version
+});
+export type ClientHints = z.infer<typeof ClientHints>;
+
+export const DeviceType = z.enum(['desktop', 'mobile', 'tablet', 'bot']);
+export type DeviceType = z.infer<typeof DeviceType>;
 
 // Event Context
 export const EventContext = z.object({
@@ -29,12 +82,36 @@ export const EventContext = z.object({
   timezone: z.string().optional(),
   language: z.string().optional(),
   platform: z.string().optional(),
+  clientHints: ClientHints.optional(),
+
+  // Parsed from the user agent and Client Hints
+  browser: z.string().optional(),
+  browserVersion: z.string().optional(),
+  os: z.string().optional(),
+  osVersion: z.string().optional(),
+  deviceType: DeviceType.optional(),
+  isBot: z.boolean().optional(),
   
   // Custom context
   snackId: z.string().optional(),
   snackVersion: z.string().optional(),
   experimentId: z.string().optional(),
   experimentVariant: z.string().optional(),
+
+  // Version of the event's property schema it was written for
+  schemaVersion: z.number().int().positive().optional(),
+
+  // Set on ingestion
+  clockSkewMs: z.number().optional(),
+  clientTimestamp: z.string().optional(),
+  timestampFlag: z.enum(['timestamp_too_old', 'timestamp_in_future']).optional(),
+  // Derived from the client's address, which isn't stored. ipSubnet is the
+  // address truncated to /24 (IPv4) or /48 (IPv6).
+  country: z.string().optional(),
+  region: z.string().optional(),
+  ipSubnet: z.string().optional(),
+  // The honoured privacy signal (GPC or DNT) an event was anonymized for
+  privacySignal: z.enum(['gpc', 'dnt']).optional(),
 });
 export type EventContext = z.infer<typeof EventContext>;
 
@@ -42,6 +119,19 @@ export type EventContext = z.infer<typeof EventContext>;
 export const EventProperties = z.record(z.unknown());
 export type EventProperties = z.infer<typeof EventProperties>;
 
+// Serialized form (as sent over the wire and persisted by the SDK)
+export interface TrackingEventJSON {
+  id: string;
+  userId: UserId | null;
+  sessionId: string;
+  type: EventType;
+  name: string;
+  properties: EventProperties;
+  context: EventContext;
+  timestamp: string;
+  serverTimestamp?: string;
+}
+
 // Tracking Event Entity
 export class TrackingEvent {
   constructor(
@@ -62,6 +152,9 @@ export class TrackingEvent {
     properties: EventProperties = {},
     context: Partial<EventContext> = {},
   ): TrackingEvent {
+    // Throws for a type outside the taxonomy, see toEventType for input from clients
+    EventType.parse(type);
+
     const fullContext: EventContext = {
       userAgent: context.userAgent || (typeof navigator !== 'undefined' ? navigator.userAgent : 'Unknown'),
       url: context.url,
@@ -71,10 +164,22 @@ export class TrackingEvent {
       timezone: context.timezone || (typeof Intl !== 'undefined' ? Intl.DateTimeFormat().resolvedOptions().timeZone : undefined),
       language: context.language || (typeof navigator !== 'undefined' ? navigator.language : undefined),
       platform: context.platform,
+      clientHints: context.clientHints,
+      browser: context.browser,
+      browserVersion: context.browserVersion,
+      os: context.os,
+      osVersion: context.osVersion,
+      deviceType: context.deviceType,
+      isBot: context.isBot,
       snackId: context.snackId,
       snackVersion: context.snackVersion,
       experimentId: context.experimentId,
       experimentVariant: context.experimentVariant,
+      schemaVersion: context.schemaVersion,
+      country: context.country,
+      region: context.region,
+      ipSubnet: context.ipSubnet,
+      privacySignal: context.privacySignal,
     };
 
     return new TrackingEvent(
@@ -89,6 +194,64 @@ export class TrackingEvent {
     );
   }
 
+  static fromJSON(json: TrackingEventJSON): TrackingEvent {
+    return new TrackingEvent(
+      json.id,
+      json.userId,
+      json.sessionId,
+      json.type,
+      json.name,
+      json.properties,
+      json.context,
+      new Date(json.timestamp),
+      json.serverTimestamp ? new Date(json.serverTimestamp) : undefined,
+    );
+  }
+
+  // Keeps the id the client generated, so a retried event is recognized
+  withId(id: string): TrackingEvent {
+    return new TrackingEvent(
+      id,
+      this.userId,
+      this.sessionId,
+      this.type,
+      this.name,
+      this.properties,
+      this.context,
+      this.timestamp,
+      this.serverTimestamp,
+    );
+  }
+
+  // Event time as the client recorded it, or corrected for its clock skew
+  withTimestamp(timestamp: Date): TrackingEvent {
+    return new TrackingEvent(
+      this.id,
+      this.userId,
+      this.sessionId,
+      this.type,
+      this.name,
+      this.properties,
+      this.context,
+      timestamp,
+      this.serverTimestamp,
+    );
+  }
+
+  withContext(context: Partial<EventContext>): TrackingEvent {
+    return new TrackingEvent(
+      this.id,
+      this.userId,
+      this.sessionId,
+      this.type,
+      this.name,
+      this.properties,
+      { ...this.context, ...context },
+      this.timestamp,
+      this.serverTimestamp,
+    );
+  }
+
   withUser(userId: UserId): TrackingEvent {
     return new TrackingEvent(
       this.id,
@@ -139,11 +302,17 @@ export class TrackingEvent {
     delete anonymizedProperties.phone;
 
     // Anonymize context
-    const anonymizedContext = { ...this.context };
-    if (anonymizedContext.userAgent) {
-      // Keep only browser and OS info
-      anonymizedContext.userAgent = anonymizedContext.userAgent.split(' ')[0];
-    }
+    // Keep only browser and OS info, parsed unless an enricher did already
+    const anonymizedContext: EventContext = {
+      ...this.context,
+      ...(this.context.browser === undefined &&
+        parseUserAgent(this.context.userAgent, this.context.clientHints)),
+    };
+    delete anonymizedContext.userAgent;
+    delete anonymizedContext.clientHints;
+    // The country is as far as location goes
+    delete anonymizedContext.region;
+    delete anonymizedContext.ipSubnet;
 
     return new TrackingEvent(
       this.id,
@@ -158,7 +327,7 @@ export class TrackingEvent {
     );
   }
 
-  toJSON() {
+  toJSON(): TrackingEventJSON {
     return {
       id: this.id,
       userId: this.userId,
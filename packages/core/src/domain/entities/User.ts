@@ -19,6 +19,34 @@ export const ConsentState = z.object({
 });
 export type ConsentState = z.infer<typeof ConsentState>;
 
+// Where a consent decision was made, 'gpc' and 'dnt' when a browser privacy signal overrode it
+export const ConsentOrigin = z.enum(['banner', 'sdk', 'api', 'import', 'gpc', 'dnt']);
+export type ConsentOrigin = z.infer<typeof ConsentOrigin>;
+
+// The origins a client may claim. 'gpc' and 'dnt' come from the request's own
+// privacy signal headers, 'import' from our own migrations.
+export const ClientConsentOrigin = ConsentOrigin.extract(['banner', 'sdk', 'api']);
+export type ClientConsentOrigin = z.infer<typeof ClientConsentOrigin>;
+
+// One entry in the consent history, kept as proof of consent (GDPR Art. 7)
+export const ConsentRecord = z.object({
+  id: z.string().uuid(),
+  userId: z.string().uuid().nullable(),
+  sessionId: z.string(),
+  version: z.number().min(1),
+  categories: z.record(ConsentCategory, z.boolean()),
+  source: ConsentOrigin,
+  tcString: z.string().nullable(), // IAB TCF v2.2
+  ipAddress: z.string().nullable(), // anonymized
+  userAgent: z.string().nullable(),
+  recordedAt: z.date(),
+});
+export type ConsentRecord = z.infer<typeof ConsentRecord>;
+
+// Bump when the consent text or categories change, stored consent with an
+// older version is discarded and the user is asked again
+export const CONSENT_VERSION = 1;
+
 // User Profile
 export const PersonalityType = z.enum([
   'rapid-clicker',
@@ -56,7 +84,7 @@ export class User {
       crypto.randomUUID() as UserId,
       fingerprint as Fingerprint,
       {
-        version: 1,
+        version: CONSENT_VERSION,
         categories: {
           necessary: true,
           analytics: false,
@@ -117,6 +145,19 @@ export class User {
     );
   }
 
+  // Replace the consent wholesale, e.g. with a decision recorded elsewhere
+  withConsent(consent: ConsentState): User {
+    return new User(
+      this.id,
+      this.fingerprint,
+      consent,
+      this.profile,
+      this.createdAt,
+      new Date(),
+      this.deletionRequestedAt,
+    );
+  }
+
   addXp(amount: number): User {
     const newXp = this.profile.totalXp + amount;
     const newLevel = Math.floor(newXp / 1000) + 1;
@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { CoreEventType } from '../entities/TrackingEvent';
+import { ConsentCategory } from '../entities/User';
+
+// How long events are kept
+export const RetentionClass = z.enum(['operational', 'standard', 'behavioral', 'legal']);
+export type RetentionClass = z.infer<typeof RetentionClass>;
+
+export const RETENTION_DAYS: Record<RetentionClass, number> = {
+  operational: 30,
+  standard: 90,
+  behavioral: 30,
+  legal: 3 * 365, // proof of consent and GDPR requests
+};
+
+// Kinds of personal data an event may carry
+export const PiiFlag = z.enum(['identifier', 'biometric', 'fingerprint', 'contact']);
+export type PiiFlag = z.infer<typeof PiiFlag>;
+
+export const EventPolicy = z.object({
+  category: ConsentCategory,
+  retention: RetentionClass,
+  pii: z.array(PiiFlag).default([]),
+});
+export type EventPolicy = z.infer<typeof EventPolicy>;
+
+export type GrantedConsent = Partial<Record<ConsentCategory, boolean>>;
+
+const DEFAULT_POLICY: EventPolicy = { category: 'analytics', retention: 'standard', pii: [] };
+
+// Every core event type has its policy, custom events are registered by the app
+const BUILT_IN_POLICIES: Record<CoreEventType, EventPolicy> = {
+  // Necessary
+  page_view: { category: 'necessary', retention: 'standard', pii: [] },
+  consent_change: { category: 'necessary', retention: 'legal', pii: [] },
+  data_export: { category: 'necessary', retention: 'legal', pii: ['identifier'] },
+  data_deletion: { category: 'necessary', retention: 'legal', pii: ['identifier'] },
+  api_call: { category: 'necessary', retention: 'operational', pii: [] },
+
+  // Analytics
+  snack_start: { category: 'analytics', retention: 'standard', pii: [] },
+  snack_step: { category: 'analytics', retention: 'standard', pii: [] },
+  snack_complete: { category: 'analytics', retention: 'standard', pii: [] },
+  snack_abandon: { category: 'analytics', retention: 'standard', pii: [] },
+  achievement_unlock: { category: 'analytics', retention: 'standard', pii: [] },
+  click: { category: 'analytics', retention: 'standard', pii: [] },
+  scroll: { category: 'analytics', retention: 'standard', pii: [] },
+  hover: { category: 'analytics', retention: 'standard', pii: [] },
+  form_submit: { category: 'analytics', retention: 'standard', pii: [] },
+  identify: { category: 'analytics', retention: 'standard', pii: ['identifier'] },
+
+  // Marketing
+  share: { category: 'marketing', retention: 'standard', pii: [] },
+
+  // Personalization (behavioral profiling)
+  click_dna: { category: 'personalization', retention: 'behavioral', pii: ['biometric'] },
+  keyboard_dna: { category: 'personalization', retention: 'behavioral', pii: ['biometric'] },
+  scroll_behavior: { category: 'personalization', retention: 'behavioral', pii: ['biometric'] },
+  privacy_leak: { category: 'personalization', retention: 'behavioral', pii: ['fingerprint'] },
+};
+
+// Single source of truth for which consent category an event needs,
+// shared by the SDK, TrackingService, ServerTracker and the API routes
+export class EventRegistry {
+  private policies: Map<string, EventPolicy>;
+
+  constructor(policies: Record<string, EventPolicy> = BUILT_IN_POLICIES) {
+    this.policies = new Map(Object.entries(policies));
+  }
+
+  register(eventType: string, policy: EventPolicy): this {
+    this.policies.set(eventType, EventPolicy.parse(policy));
+    return this;
+  }
+
+  // Unknown events fall back to analytics consent
+  getPolicy(eventType: string): EventPolicy {
+    return this.policies.get(eventType) ?? DEFAULT_POLICY;
+  }
+
+  getCategory(eventType: string): ConsentCategory {
+    return this.getPolicy(eventType).category;
+  }
+
+  getRetentionDays(eventType: string): number {
+    return RETENTION_DAYS[this.getPolicy(eventType).retention];
+  }
+
+  isAllowed(eventType: string, consent: GrantedConsent): boolean {
+    const category = this.getCategory(eventType);
+    return category === 'necessary' || consent[category] === true;
+  }
+}
+
+export const eventRegistry = new EventRegistry();
@@ -0,0 +1,190 @@
+import { z } from 'zod';
+import { CoreEventType, EventContext, EventProperties, EventType } from '../entities/TrackingEvent';
+
+// Built-in event properties. Only what the producers have in common is
+// required, extra properties pass through.
+const SnackProperties = z
+  .object({
+    snackId: z.string().min(1),
+    duration: z.number().nonnegative().nullable().optional(),
+  })
+  .passthrough();
+
+export const BUILT_IN_EVENT_SCHEMAS = {
+  scroll: z.object({ depth: z.number().nonnegative() }).passthrough(),
+  identify: z
+    .object({ userId: z.string().min(1), traits: z.record(z.unknown()).optional() })
+    .passthrough(),
+
+  snack_start: SnackProperties,
+  snack_step: SnackProperties.extend({ stepName: z.string().min(1) }),
+  snack_complete: SnackProperties,
+  snack_abandon: SnackProperties.extend({ reason: z.string().optional() }),
+
+  click_dna: z
+    .object({
+      pattern: z
+        .array(
+          z.object({
+            x: z.number(),
+            y: z.number(),
+            timestamp: z.number(),
+            pressure: z.number().min(0).max(1).optional(),
+            element: z.string().optional(),
+          }),
+        )
+        .min(1),
+      patternLength: z.number().int().nonnegative().optional(),
+      duration: z.number().nonnegative().optional(),
+    })
+    .passthrough(),
+  keyboard_dna: z
+    .object({
+      pattern: z
+        .array(
+          z.object({
+            key: z.string(),
+            timestamp: z.number(),
+            duration: z.number().nonnegative(),
+          }),
+        )
+        .min(1),
+    })
+    .passthrough(),
+  scroll_behavior: z
+    .object({
+      behavior: z.array(
+        z.object({
+          scrollY: z.number(),
+          timestamp: z.number(),
+          velocity: z.number().optional(),
+          direction: z.enum(['up', 'down']).optional(),
+        }),
+      ),
+      totalScrolled: z.number().optional(),
+      duration: z.number().optional(),
+    })
+    .passthrough(),
+  privacy_leak: z
+    .object({
+      leaks: z.array(
+        z.object({
+          type: z.string(),
+          value: z.string(),
+          uniqueness: z.number(),
+          description: z.string(),
+        }),
+      ),
+      leakCount: z.number().int().nonnegative().optional(),
+    })
+    .passthrough(),
+} satisfies Partial<Record<CoreEventType, z.ZodTypeAny>>;
+
+export type SchemaEventType = keyof typeof BUILT_IN_EVENT_SCHEMAS;
+
+// Properties a built-in event is tracked with, for typed track() calls
+export type SchemaEventProperties<T extends SchemaEventType> = z.input<
+  (typeof BUILT_IN_EVENT_SCHEMAS)[T]
+>;
+
+// Arguments after the type of a track() call: events with a built-in schema
+// require its properties, any other event takes whatever properties it likes
+export type TrackArgs<T extends EventType> = T extends SchemaEventType
+  ? [properties: SchemaEventProperties<T>, context?: Partial<EventContext>]
+  : [properties?: EventProperties, context?: Partial<EventContext>];
+
+export interface EventSchema {
+  // Starts at 1, an event names the version it was written for in its
+  // context (schemaVersion)
+  version: number;
+  properties: z.ZodTypeAny;
+}
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+  code: string;
+}
+
+export type SchemaValidation =
+  | { valid: true; version?: number }
+  | { valid: false; version: number; issues: SchemaIssue[] };
+
+// What validation needs from an event, a TrackingEvent or its JSON
+export interface SchemaSubject {
+  type: string;
+  name: string;
+  properties: Record<string, unknown>;
+  context?: { schemaVersion?: number };
+}
+
+// Versioned property schemas, keyed by event type or by type and name.
+// Shared by the SDK, for typing and the version it stamps on events, and by
+// ingestion, which checks events against the version they name.
+export class EventSchemaRegistry {
+  // Oldest version first
+  private schemas = new Map<string, EventSchema[]>();
+
+  constructor(schemas: Record<string, z.ZodTypeAny> = BUILT_IN_EVENT_SCHEMAS) {
+    Object.entries(schemas).forEach(([eventType, properties]) =>
+      this.register(eventType, properties),
+    );
+  }
+
+  // A new version of the event's schema, older versions stay valid for
+  // clients that still send them. Pass a name to cover only that event.
+  register(
+    eventType: string,
+    properties: z.ZodTypeAny,
+    options: { name?: string; version?: number } = {},
+  ): this {
+    const key = schemaKey(eventType, options.name);
+    const versions = this.schemas.get(key) ?? [];
+    const latest = versions[versions.length - 1]?.version ?? 0;
+    const version = options.version ?? latest + 1;
+
+    if (!Number.isInteger(version) || version <= latest) {
+      throw new Error(`Schema version for ${key} must be an integer above ${latest}`);
+    }
+    this.schemas.set(key, [...versions, { version, properties }]);
+    return this;
+  }
+
+  // The name's own schema wins over the type's. Without a version, or with
+  // one that isn't registered, the latest.
+  get(eventType: string, name?: string, version?: number): EventSchema | undefined {
+    const versions =
+      (name !== undefined && this.schemas.get(schemaKey(eventType, name))) ||
+      this.schemas.get(eventType);
+    if (!versions) return undefined;
+
+    return (
+      (version !== undefined && versions.find(schema => schema.version === version)) ||
+      versions[versions.length - 1]
+    );
+  }
+
+  // Events without a schema are valid as they are
+  validate(event: SchemaSubject): SchemaValidation {
+    const schema = this.get(event.type, event.name, event.context?.schemaVersion);
+    if (!schema) return { valid: true };
+
+    const parsed = schema.properties.safeParse(event.properties);
+    if (parsed.success) return { valid: true, version: schema.version };
+
+    return {
+      valid: false,
+      version: schema.version,
+      issues: parsed.error.issues.map(issue => ({
+        path: issue.path.join('.'),
+        message: issue.message,
+        code: issue.code,
+      })),
+    };
+  }
+}
+
+const schemaKey = (eventType: string, name?: string) =>
+  name === undefined ? eventType : `${eventType}#${name}`;
+
+export const eventSchemas = new EventSchemaRegistry();
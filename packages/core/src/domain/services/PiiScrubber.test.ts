@@ -0,0 +1,112 @@
+import { createHash } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { TrackingEvent } from '../entities/TrackingEvent';
+import { PiiScrubber } from './PiiScrubber';
+
+const event = (properties: Record<string, unknown>, url?: string) =>
+  TrackingEvent.create('click', 'click', properties, { url });
+
+const scrubbed = (scrubber: PiiScrubber, text: string) =>
+  scrubber.scrub(event({ text })).event.properties.text;
+
+describe('PiiScrubber', () => {
+  describe('hash mode', () => {
+    // The value is trimmed and lowercased, then appended to the salt
+    const hashOf = (salt: string, value: string) =>
+      scrubber(salt).scrub(event({ email: value })).event.properties.email;
+    const scrubber = (salt: string) => new PiiScrubber({ mode: 'hash', salt });
+
+    it('needs a salt', () => {
+      expect(() => new PiiScrubber({ mode: 'hash' })).toThrow('salt');
+      expect(() => new PiiScrubber({ mode: 'hash', salt: '' })).toThrow('salt');
+    });
+
+    it('matches the SHA-256 test vectors', () => {
+      expect(hashOf('ab', 'c')).toBe('[hash:ba7816bf8f01cfea]');
+      expect(hashOf('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnop', 'q')).toBe(
+        '[hash:248d6a61d20638b8]',
+      );
+    });
+
+    it('matches node:crypto across block boundaries and for non-ASCII input', () => {
+      const salt = 's';
+      for (const value of [
+        '',
+        'x'.repeat(54),
+        'x'.repeat(55),
+        'x'.repeat(56),
+        'x'.repeat(63),
+        'x'.repeat(64),
+        'x'.repeat(119),
+        'x'.repeat(200),
+        'jürgen.müller@example.de',
+        '電話 📞',
+      ]) {
+        const expected = createHash('sha256')
+          .update(salt + value.trim().toLowerCase())
+          .digest('hex');
+        expect(hashOf(salt, value)).toBe(`[hash:${expected.slice(0, 16)}]`);
+      }
+    });
+
+    it('keeps equal values joinable and differs by salt', () => {
+      expect(hashOf('salt', 'Jane@Example.com ')).toBe(hashOf('salt', 'jane@example.com'));
+      expect(hashOf('salt', 'jane@example.com')).not.toBe(hashOf('pepper', 'jane@example.com'));
+    });
+  });
+
+  describe('detectors', () => {
+    const scrubber = new PiiScrubber();
+
+    it('redacts personal data in text', () => {
+      expect(scrubbed(scrubber, 'Mail jane.doe+news@example.co.uk now')).toBe('Mail [email] now');
+      expect(scrubbed(scrubber, 'IBAN DE89 3704 0044 0532 0130 00')).toBe('IBAN [iban]');
+      expect(scrubbed(scrubber, 'Call +49 30 1234567')).toBe('Call [phone]');
+      expect(scrubbed(scrubber, 'Call (555) 123-4567')).toBe('Call [phone]');
+      expect(scrubbed(scrubber, 'from 203.0.113.7')).toBe('from [ip]');
+      expect(scrubbed(scrubber, 'from 2001:db8::1')).toBe('from [ip]');
+      expect(scrubbed(scrubber, 'from fe80:0:0:0:0:0:0:1')).toBe('from [ip]');
+    });
+
+    it.each([
+      ['CSS pseudo-elements', 'a::before, .card::after'],
+      ['C++ scopes', 'std::vector'],
+      ['times', 'at 12:30:45'],
+      ['dates', 'on 2026-10-19'],
+      ['an IBAN with a wrong check digit', 'DE00 3704 0044 0532 0130 00'],
+      ['short numbers', 'room 0123 45'],
+      ['order numbers', 'order ORD-123456789'],
+      ['amounts', 'total 1.234.567,89 EUR'],
+      ['out-of-range quads', 'version 300.1.2.3'],
+    ])('leaves %s alone', (_, text) => {
+      expect(scrubbed(scrubber, text)).toBe(text);
+    });
+
+    it('leaves allowed fields alone and drops denied ones', () => {
+      const { event: result, report } = new PiiScrubber({ allowFields: ['ticket_id'] }).scrub(
+        event({ ticketId: '+49 30 1234567', user: { first_name: 'Jane', plan: 'pro' } }),
+      );
+      expect(result.properties).toEqual({ ticketId: '+49 30 1234567', user: { plan: 'pro' } });
+      expect(report).toEqual([
+        { path: 'properties.user.first_name', kind: 'field', action: 'removed' },
+      ]);
+    });
+
+    it('keeps ordinary names and drops full names', () => {
+      const { event: result } = scrubber.scrub(
+        event({ name: 'newsletter-signup', form: { name: 'checkout' }, full_name: 'Jane Doe' }),
+      );
+      expect(result.properties).toEqual({
+        name: 'newsletter-signup',
+        form: { name: 'checkout' },
+      });
+    });
+
+    it('scrubs query parameters of URLs in the context', () => {
+      const { event: result } = scrubber.scrub(
+        event({}, 'https://data-snack.com/signup?email=jane%40example.com&ref=ad'),
+      );
+      expect(result.context.url).toBe('https://data-snack.com/signup?email=%5Bredacted%5D&ref=ad');
+    });
+  });
+});
@@ -0,0 +1,297 @@
+import { TrackingEvent } from '../entities/TrackingEvent';
+
+// Kinds of personal data found by pattern, wherever they appear in a string
+export type PiiKind = 'email' | 'iban' | 'phone' | 'ip';
+
+// 'redact' replaces what was found with a placeholder and drops denied
+// fields, 'hash' replaces both with a salted SHA-256 token so equal values
+// stay joinable
+export type ScrubMode = 'redact' | 'hash';
+
+export interface PiiScrubberConfig {
+  mode?: ScrubMode;
+  // Mixed into every hash, required in hash mode. Keep it secret on the
+  // server, without it an email or phone number is found again by hashing
+  // candidates.
+  salt?: string;
+  // Property and query parameter names that are always personal data, at any
+  // depth. Matched ignoring case, '_' and '-'.
+  denyFields?: string[];
+  // Names whose values are left as they are, e.g. ids that look like phone numbers
+  allowFields?: string[];
+  // Default all of them
+  detectors?: PiiKind[];
+}
+
+export interface ScrubFinding {
+  // e.g. properties.traits.email or context.url?email
+  path: string;
+  kind: PiiKind | 'field';
+  action: 'removed' | 'redacted' | 'hashed';
+}
+
+export interface ScrubResult {
+  event: TrackingEvent;
+  // What was scrubbed where, never the values themselves
+  report: ScrubFinding[];
+}
+
+// Not a bare name: forms, products and custom events are named too
+export const DEFAULT_DENY_FIELDS = [
+  'email',
+  'phone',
+  'fullName',
+  'firstName',
+  'lastName',
+  'address',
+  'password',
+  'iban',
+];
+
+const DETECTORS: Record<PiiKind, RegExp> = {
+  email: /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi,
+  iban: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+  // International (+ or 00) and national (trunk 0) numbers, and (555) 123-4567.
+  // Not when continuing a longer run of digit groups, e.g. an account number.
+  phone:
+    /(?:(?<![\w+]|\d[ ./-])(?:\+|00)[1-9]\d{0,2}|(?<![\w.]|\d[ ./-])\(?0\d{1,4}\)?|\(\d{3}\))(?:[ ./-]?\d{2,5}){2,4}(?![\w.])/g,
+  // IPv6 has to end where the address does, so a::before in CSS is left alone
+  ip: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b|(?<![\w:])(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}(?![\w:])|(?<![\w:])(?:[0-9a-f]{1,4}:){1,6}:(?:[0-9a-f]{1,4}(?::[0-9a-f]{1,4}){0,5})?(?![\w:])/gi,
+};
+
+// Context fields that carry a URL whose query string may hold personal data
+const URL_CONTEXT_FIELDS = ['url', 'referrer'] as const;
+
+const normalizeField = (name: string) => name.toLowerCase().replace(/[_-]/g, '');
+
+// Finds and removes personal data in event properties and in the query
+// strings of URLs, in the SDK before sending and on ingestion before storage
+export class PiiScrubber {
+  private readonly mode: ScrubMode;
+  private readonly salt: string;
+  private readonly deny: Set<string>;
+  private readonly allow: Set<string>;
+  private readonly detectors: Array<[PiiKind, RegExp]>;
+
+  constructor({
+    mode = 'redact',
+    salt = '',
+    denyFields = DEFAULT_DENY_FIELDS,
+    allowFields = [],
+    detectors = Object.keys(DETECTORS) as PiiKind[],
+  }: PiiScrubberConfig = {}) {
+    if (mode === 'hash' && !salt) throw new Error('PiiScrubber: hash mode needs a salt');
+    this.mode = mode;
+    this.salt = salt;
+    this.deny = new Set(denyFields.map(normalizeField));
+    this.allow = new Set(allowFields.map(normalizeField));
+    this.detectors = detectors.map(kind => [kind, DETECTORS[kind]]);
+  }
+
+  scrub(event: TrackingEvent): ScrubResult {
+    const report: ScrubFinding[] = [];
+    const properties = this.scrubObject(event.properties, 'properties', report);
+
+    const context = { ...event.context };
+    URL_CONTEXT_FIELDS.forEach(field => {
+      const value = context[field];
+      if (value) context[field] = this.scrubString(value, `context.${field}`, report);
+    });
+
+    if (report.length === 0) return { event, report };
+    return {
+      event: new TrackingEvent(
+        event.id,
+        event.userId,
+        event.sessionId,
+        event.type,
+        event.name,
+        properties,
+        context,
+        event.timestamp,
+        event.serverTimestamp,
+      ),
+      report,
+    };
+  }
+
+  private scrubObject(
+    value: Record<string, unknown>,
+    path: string,
+    report: ScrubFinding[],
+  ): Record<string, unknown> {
+    const scrubbed: Record<string, unknown> = {};
+
+    Object.entries(value).forEach(([key, field]) => {
+      const fieldPath = `${path}.${key}`;
+      const name = normalizeField(key);
+      if (this.allow.has(name)) {
+        scrubbed[key] = field;
+      } else if (this.deny.has(name)) {
+        if (this.mode === 'hash' && isPrimitive(field)) {
+          scrubbed[key] = this.hash('hash', String(field));
+          report.push({ path: fieldPath, kind: 'field', action: 'hashed' });
+        } else if (field !== undefined && field !== null) {
+          report.push({ path: fieldPath, kind: 'field', action: 'removed' });
+        }
+      } else {
+        scrubbed[key] = this.scrubValue(field, fieldPath, report);
+      }
+    });
+    return scrubbed;
+  }
+
+  private scrubValue(value: unknown, path: string, report: ScrubFinding[]): unknown {
+    if (typeof value === 'string') return this.scrubString(value, path, report);
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.scrubValue(item, `${path}[${index}]`, report));
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return this.scrubObject(value as Record<string, unknown>, path, report);
+    }
+    return value;
+  }
+
+  // URLs get their query parameters checked one by one, denied names included
+  private scrubString(value: string, path: string, report: ScrubFinding[]): string {
+    const url = parseUrl(value);
+    if (!url) return this.scrubText(value, path, report);
+
+    let changed = false;
+    [...url.searchParams.entries()].forEach(([name, parameter]) => {
+      const parameterPath = `${path}?${name}`;
+      const normalized = normalizeField(name);
+      if (this.allow.has(normalized)) return;
+
+      let scrubbed: string;
+      if (this.deny.has(normalized)) {
+        scrubbed = this.mode === 'hash' ? this.hash('hash', parameter) : '[redacted]';
+        report.push({
+          path: parameterPath,
+          kind: 'field',
+          action: this.mode === 'hash' ? 'hashed' : 'redacted',
+        });
+      } else {
+        scrubbed = this.scrubText(parameter, parameterPath, report);
+      }
+
+      if (scrubbed !== parameter) {
+        url.searchParams.set(name, scrubbed);
+        changed = true;
+      }
+    });
+    return changed ? url.toString() : value;
+  }
+
+  private scrubText(value: string, path: string, report: ScrubFinding[]): string {
+    return this.detectors.reduce((text, [kind, pattern]) => {
+      return text.replace(pattern, match => {
+        if (kind === 'iban' && !isValidIban(match)) return match;
+        if (kind === 'phone' && !isPhoneLength(match)) return match;
+
+        report.push({ path, kind, action: this.mode === 'hash' ? 'hashed' : 'redacted' });
+        return this.mode === 'hash' ? this.hash(kind, match) : `[${kind}]`;
+      });
+    }, value);
+  }
+
+  private hash(label: string, value: string): string {
+    return `[${label}:${sha256Hex(this.salt + value.trim().toLowerCase()).slice(0, 16)}]`;
+  }
+}
+
+const isPrimitive = (value: unknown): value is string | number | boolean =>
+  typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+
+// Absolute http(s) URLs with a query string, anything else is plain text
+function parseUrl(value: string): URL | null {
+  if (!/^https?:\/\/\S+\?\S/i.test(value)) return null;
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+}
+
+// ISO 13616 check digits, so reference numbers of the same shape are left alone
+function isValidIban(value: string): boolean {
+  const iban = value.replace(/ /g, '');
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  const digits = rearranged.replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+
+  let remainder = 0;
+  for (const digit of digits) remainder = (remainder * 10 + Number(digit)) % 97;
+  return remainder === 1;
+}
+
+// E.164 allows up to 15 digits, fewer than 7 is more likely a date or an amount
+function isPhoneLength(value: string): boolean {
+  const digits = value.replace(/\D/g, '').length;
+  return digits >= 7 && digits <= 15;
+}
+
+// Synchronous SHA-256, the SDK has to scrub without awaiting WebCrypto
+const K = Uint32Array.from(
+  '428a2f98 71374491 b5c0fbcf e9b5dba5 3956c25b 59f111f1 923f82a4 ab1c5ed5 d807aa98 12835b01 243185be 550c7dc3 72be5d74 80deb1fe 9bdc06a7 c19bf174 e49b69c1 efbe4786 0fc19dc6 240ca1cc 2de92c6f 4a7484aa 5cb0a9dc 76f988da 983e5152 a831c66d b00327c8 bf597fc7 c6e00bf3 d5a79147 06ca6351 14292967 27b70a85 2e1b2138 4d2c6dfc 53380d13 650a7354 766a0abb 81c2c92e 92722c85 a2bfe8a1 a81a664b c24b8b70 c76c51a3 d192e819 d6990624 f40e3585 106aa070 19a4c116 1e376c08 2748774c 34b0bcb5 391c0cb3 4ed8aa4a 5b9cca4f 682e6ff3 748f82ee 78a5636f 84c87814 8cc70208 90befffa a4506ceb bef9a3f7 c67178f2'
+    .split(' ')
+    .map(word => parseInt(word, 16)),
+);
+
+function sha256Hex(message: string): string {
+  const bytes = new TextEncoder().encode(message);
+  const length = Math.ceil((bytes.length + 9) / 64) * 64;
+  const padded = new Uint8Array(length);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(length - 8, Math.floor((bytes.length * 8) / 2 ** 32));
+  view.setUint32(length - 4, (bytes.length * 8) >>> 0);
+
+  const hash = Uint32Array.from([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+  for (let offset = 0; offset < length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const a = w[i - 15] as number;
+      const b = w[i - 2] as number;
+      const s0 = rotr(a, 7) ^ rotr(a, 18) ^ (a >>> 3);
+      const s1 = rotr(b, 17) ^ rotr(b, 19) ^ (b >>> 10);
+      w[i] = ((w[i - 16] as number) + s0 + (w[i - 7] as number) + s1) >>> 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash as unknown as number[];
+    for (let i = 0; i < 64; i++) {
+      const t1 =
+        ((h as number) +
+          (rotr(e as number, 6) ^ rotr(e as number, 11) ^ rotr(e as number, 25)) +
+          (((e as number) & (f as number)) ^ (~(e as number) & (g as number))) +
+          (K[i] as number) +
+          (w[i] as number)) >>>
+        0;
+      const t2 =
+        ((rotr(a as number, 2) ^ rotr(a as number, 13) ^ rotr(a as number, 22)) +
+          (((a as number) & (b as number)) ^
+            ((a as number) & (c as number)) ^
+            ((b as number) & (c as number)))) >>>
+        0;
+      h = g;
+      g = f;
+      f = e;
+      e = ((d as number) + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+
+    [a, b, c, d, e, f, g, h].forEach((value, i) => {
+      hash[i] = ((hash[i] as number) + (value as number)) >>> 0;
+    });
+  }
+
+  return Array.from(hash, word => word.toString(16).padStart(8, '0')).join('');
+}
@@ -0,0 +1,52 @@
+import { ConsentCategory } from '../entities/User';
+import type { GrantedConsent } from './EventRegistry';
+
+// Browser opt-out signals: Global Privacy Control and Do Not Track
+export type PrivacySignal = 'gpc' | 'dnt';
+
+export interface PrivacySignals {
+  gpc: boolean;
+  dnt: boolean;
+}
+
+export interface PrivacySignalPolicy {
+  honorGpc: boolean;
+  honorDnt: boolean;
+  // Categories denied while an honored signal is present
+  deny: Exclude<ConsentCategory, 'necessary'>[];
+}
+
+export const DEFAULT_PRIVACY_SIGNAL_POLICY: PrivacySignalPolicy = {
+  honorGpc: true,
+  honorDnt: false, // DNT is deprecated and has no legal weight on its own
+  deny: ['marketing'],
+};
+
+// The signal the policy acts on, GPC takes precedence over DNT
+export function honoredPrivacySignal(
+  signals: PrivacySignals,
+  policy: PrivacySignalPolicy = DEFAULT_PRIVACY_SIGNAL_POLICY,
+): PrivacySignal | null {
+  if (signals.gpc && policy.honorGpc) return 'gpc';
+  if (signals.dnt && policy.honorDnt) return 'dnt';
+  return null;
+}
+
+// Deny the policy's categories when an honored signal is present. `overridden`
+// lists the categories that were granted and are now denied.
+export function applyPrivacySignals<T extends GrantedConsent>(
+  consent: T,
+  signals: PrivacySignals,
+  policy: PrivacySignalPolicy = DEFAULT_PRIVACY_SIGNAL_POLICY,
+): { consent: T; signal: PrivacySignal | null; overridden: ConsentCategory[] } {
+  const signal = honoredPrivacySignal(signals, policy);
+  if (!signal) return { consent, signal, overridden: [] };
+
+  const overridden = policy.deny.filter(category => consent[category] === true);
+  const narrowed = { ...consent };
+  policy.deny.forEach(category => {
+    (narrowed as GrantedConsent)[category] = false;
+  });
+
+  return { consent: narrowed, signal, overridden };
+}
@@ -0,0 +1,128 @@
+import type { ClientHints, DeviceType } from '../entities/TrackingEvent';
+
+// What the user agent tells, fields stay unset when it doesn't
+export interface UserAgentInfo {
+  browser?: string;
+  browserVersion?: string;
+  os?: string;
+  osVersion?: string;
+  deviceType?: DeviceType;
+  isBot: boolean;
+}
+
+const BOT_PATTERN =
+  /bot\b|crawl|spider|slurp|mediapartners|facebookexternalhit|headless|lighthouse|pingdom|curl\/|wget\/|python-requests|axios\/|node-fetch|go-http-client|java\//i;
+
+// First match wins, so browsers built on Chrome or Safari come first
+const BROWSERS: Array<[name: string, pattern: RegExp]> = [
+  ['Edge', /Edg(?:e|A|iOS)?\/([\d.]+)/],
+  ['Opera', /(?:OPR|OPiOS)\/([\d.]+)/],
+  ['Samsung Internet', /SamsungBrowser\/([\d.]+)/],
+  ['Firefox', /(?:Firefox|FxiOS)\/([\d.]+)/],
+  ['Chrome', /(?:Chrome|CriOS)\/([\d.]+)/],
+  ['Safari', /Version\/([\d.]+).*Safari\//],
+  ['Internet Explorer', /(?:MSIE |Trident\/.*rv:)([\d.]+)/],
+];
+
+const OPERATING_SYSTEMS: Array<[name: string, pattern: RegExp]> = [
+  ['Windows', /Windows NT ([\d.]+)/],
+  ['iOS', /(?:iPhone|iPad|iPod).*? OS ([\d_]+)/],
+  ['Android', /Android ([\d.]+)/],
+  ['Chrome OS', /CrOS \S+ ([\d.]+)/],
+  ['macOS', /Mac OS X ([\d_.]+)/],
+  ['Linux', /Linux()/],
+];
+
+// Windows NT versions by the name they were sold under. 10.0 is Windows 11
+// too, only Client Hints tell them apart.
+const WINDOWS_VERSIONS: Record<string, string> = {
+  '10.0': '10',
+  '6.3': '8.1',
+  '6.2': '8',
+  '6.1': '7',
+  '6.0': 'Vista',
+  '5.1': 'XP',
+};
+
+// Client Hints brands by the names the user agent parsing uses
+const BRAND_NAMES: Record<string, string> = {
+  'Google Chrome': 'Chrome',
+  'Microsoft Edge': 'Edge',
+  Opera: 'Opera',
+  'Samsung Internet': 'Samsung Internet',
+  Brave: 'Brave',
+  Chromium: 'Chromium',
+};
+
+// Client Hints win over the user agent string, which browsers have frozen
+// and reduced
+export function parseUserAgent(userAgent?: string, hints?: ClientHints): UserAgentInfo {
+  const ua = userAgent && userAgent !== 'Unknown' ? userAgent : '';
+  const isBot = BOT_PATTERN.test(ua);
+  const info: UserAgentInfo = { isBot };
+
+  const browser = BROWSERS.find(([, pattern]) => pattern.test(ua));
+  if (browser) {
+    info.browser = browser[0];
+    info.browserVersion = browser[1].exec(ua)?.[1];
+  }
+
+  const os = OPERATING_SYSTEMS.find(([, pattern]) => pattern.test(ua));
+  if (os) {
+    const version = os[1].exec(ua)?.[1]?.replace(/_/g, '.') || undefined;
+    info.os = os[0];
+    info.osVersion = os[0] === 'Windows' && version ? WINDOWS_VERSIONS[version] : version;
+  }
+
+  if (ua) info.deviceType = deviceTypeOf(ua, isBot);
+
+  return hints ? applyClientHints(info, hints) : info;
+}
+
+function deviceTypeOf(ua: string, isBot: boolean): DeviceType {
+  if (isBot) return 'bot';
+  if (/iPad|Tablet|PlayBook|Silk|Android(?!.*Mobi)/i.test(ua)) return 'tablet';
+  if (/Mobi|iPhone|iPod|Windows Phone/i.test(ua)) return 'mobile';
+  return 'desktop';
+}
+
+function applyClientHints(info: UserAgentInfo, hints: ClientHints): UserAgentInfo {
+  const hinted = { ...info };
+
+  // The full version list has the same brands with complete versions
+  const brands = parseBrands(hints.fullVersionList ?? hints.brands);
+  const brand = brands.find(({ name }) => name !== 'Chromium') ?? brands[0];
+  if (brand) {
+    hinted.browser = BRAND_NAMES[brand.name] ?? brand.name;
+    hinted.browserVersion = brand.version;
+  }
+
+  const platform = unquote(hints.platform);
+  if (platform && platform !== 'Unknown') {
+    const version = unquote(hints.platformVersion);
+    hinted.os = platform;
+    hinted.osVersion =
+      platform === 'Windows' ? (windowsVersion(version) ?? info.osVersion) : version || undefined;
+  }
+
+  if (hints.mobile === '?1' && !info.isBot) hinted.deviceType = 'mobile';
+  else if (hints.mobile === '?0' && hinted.deviceType === 'mobile') hinted.deviceType = 'desktop';
+  return hinted;
+}
+
+// "Chromium";v="124", "Google Chrome";v="124", "Not-A.Brand";v="99". The
+// made-up brand browsers add to keep parsers honest is left out.
+function parseBrands(header?: string): Array<{ name: string; version: string }> {
+  if (!header) return [];
+  return [...header.matchAll(/"([^"]+)"\s*;\s*v="([^"]+)"/g)]
+    .map(([, name = '', version = '']) => ({ name, version }))
+    .filter(({ name }) => !/not.?a.?brand/i.test(name));
+}
+
+// Windows 11 reports platform version 13 and up, Windows 10 anything below
+function windowsVersion(platformVersion?: string): string | undefined {
+  if (!platformVersion) return undefined;
+  return Number(platformVersion.split('.')[0]) >= 13 ? '11' : '10';
+}
+
+const unquote = (value?: string) => value?.trim().replace(/^"|"$/g, '');
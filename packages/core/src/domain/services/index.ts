@@ -1,2 +1,5 @@
-// Domain Services will be added here
-export {};
\ No newline at end of file
+export * from './EventRegistry';
+export * from './EventSchemaRegistry';
+export * from './PiiScrubber';
+export * from './PrivacySignals';
+export * from './UserAgent';
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { TC_STRING_MAX_LENGTH, TcStringError, TcfCodec } from './TcString';
+
+const BASE64_URL = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+// A core segment from [value, bit length] fields
+function segment(fields: Array<[number, number]>): string {
+  let bits = fields.map(([value, length]) => value.toString(2).padStart(length, '0')).join('');
+  while (bits.length % 6 !== 0) bits += '0';
+  return (bits.match(/.{6}/g) ?? []).map(chunk => BASE64_URL[parseInt(chunk, 2)]).join('');
+}
+
+// Everything in front of the vendor consents: version 2, purposes 1-11 consented
+const HEADER: Array<[number, number]> = [
+  [2, 6],
+  [0, 36],
+  [0, 36],
+  [0, 12],
+  [1, 12],
+  [1, 6],
+  [4, 6],
+  [13, 6],
+  [1, 12],
+  [4, 6],
+  [1, 1],
+  [0, 1],
+  [0, 12],
+  [0b11111111111 << 13, 24],
+  [0, 24],
+  [0, 1],
+  [3, 6],
+  [4, 6],
+];
+
+// Vendor consents as ranges, then an empty legitimate interest section
+const withRanges = (maxVendorId: number, ranges: Array<[number, number]>) =>
+  segment([
+    ...HEADER,
+    [maxVendorId, 16],
+    [1, 1],
+    [ranges.length, 12],
+    ...ranges.flatMap(
+      ([start, end]): Array<[number, number]> => [
+        [1, 1],
+        [start, 16],
+        [end, 16],
+      ],
+    ),
+    [0, 16],
+    [0, 1],
+  ]);
+
+describe('TcfCodec', () => {
+  const codec = new TcfCodec({
+    cmpId: 42,
+    mapping: {
+      purposes: { analytics: [1, 8, 9, 10], marketing: [1, 2, 3, 4, 7], personalization: [1, 5] },
+      vendors: { analytics: [755], marketing: [2, 3, 4, 5, 6, 7, 8, 9] },
+    },
+  });
+
+  it('decodes what it encodes', () => {
+    const updatedAt = new Date('2026-10-19T15:30:00Z');
+    const data = codec.decode(codec.encode({ analytics: true, marketing: false }, updatedAt));
+
+    expect(data.version).toBe(2);
+    expect(data.cmpId).toBe(42);
+    expect(data.lastUpdated).toEqual(new Date('2026-10-19T00:00:00Z'));
+    expect(data.purposeConsents).toEqual([1, 8, 9, 10]);
+    expect(data.vendorConsents).toEqual([755]);
+    expect(data.publisherCountryCode).toBe('DE');
+  });
+
+  it('round-trips range encoded vendors', () => {
+    const data = codec.decode(codec.encode({ analytics: true, marketing: true }));
+    expect(data.vendorConsents).toEqual([2, 3, 4, 5, 6, 7, 8, 9, 755]);
+  });
+
+  it('maps purposes back to categories', () => {
+    const tcString = codec.encode({ analytics: true, personalization: true });
+    expect(codec.toConsentState(tcString).categories).toEqual({
+      necessary: true,
+      analytics: true,
+      marketing: false,
+      personalization: true,
+    });
+  });
+
+  it('decodes hand-built range sections', () => {
+    expect(
+      codec.decode(
+        withRanges(10, [
+          [2, 4],
+          [7, 7],
+        ]),
+      ).vendorConsents,
+    ).toEqual([2, 3, 4, 7]);
+  });
+
+  it.each([
+    ['starts after it ends', withRanges(100, [[50, 10]])],
+    ['ends past the max vendor id', withRanges(100, [[1, 65535]])],
+    ['starts at 0', withRanges(100, [[0, 5]])],
+    [
+      'adds up to more ids than the max vendor id',
+      withRanges(
+        65535,
+        Array.from({ length: 50 }, (): [number, number] => [1, 65535]),
+      ),
+    ],
+  ])('rejects a vendor range that %s', (_, tcString) => {
+    expect(() => codec.decode(tcString)).toThrow(TcStringError);
+  });
+
+  it("doesn't read vendor sections for the consent state", () => {
+    const tcString = withRanges(
+      65535,
+      Array.from({ length: 50 }, (): [number, number] => [1, 65535]),
+    );
+    expect(codec.toConsentState(tcString).categories.analytics).toBe(true);
+  });
+
+  it('rejects malformed strings', () => {
+    expect(() => codec.decode('')).toThrow(TcStringError);
+    expect(() => codec.decode('C*')).toThrow(TcStringError);
+    expect(() => codec.decode('CPXx')).toThrow('truncated');
+    expect(() => codec.decode('B'.repeat(40))).toThrow('Unsupported TC string version');
+    expect(() => codec.decode('C'.repeat(TC_STRING_MAX_LENGTH + 1))).toThrow('longer than');
+  });
+});
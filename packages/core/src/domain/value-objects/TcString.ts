@@ -0,0 +1,347 @@
+import { CONSENT_VERSION, ConsentCategory, ConsentState } from '../entities/User';
+
+// IAB TCF v2.2 Transparency & Consent string, core segment plus the
+// disclosed vendors segment. See the IAB "TC String" specification.
+
+export type TcfCategory = Exclude<ConsentCategory, 'necessary'>;
+
+// Which TCF purposes (1-11) and vendor ids each of our categories stands for
+export interface TcfMapping {
+  purposes: Record<TcfCategory, number[]>;
+  vendors?: Partial<Record<TcfCategory, number[]>>;
+}
+
+export interface TcfOptions {
+  cmpId?: number; // IAB-assigned CMP id
+  cmpVersion?: number;
+  consentScreen?: number;
+  consentLanguage?: string; // ISO 639-1, two letters
+  vendorListVersion?: number;
+  publisherCountryCode?: string; // ISO 3166-1 alpha-2
+  mapping?: TcfMapping;
+}
+
+export interface TcData {
+  version: number;
+  created: Date;
+  lastUpdated: Date;
+  cmpId: number;
+  cmpVersion: number;
+  consentScreen: number;
+  consentLanguage: string;
+  vendorListVersion: number;
+  tcfPolicyVersion: number;
+  isServiceSpecific: boolean;
+  useNonStandardTexts: boolean;
+  specialFeatureOptIns: number[];
+  purposeConsents: number[];
+  purposeLegitimateInterests: number[];
+  purposeOneTreatment: boolean;
+  publisherCountryCode: string;
+  vendorConsents: number[];
+  vendorLegitimateInterests: number[];
+}
+
+export class TcStringError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TcStringError';
+  }
+}
+
+export const TCF_POLICY_VERSION = 4; // TCF v2.2
+
+// Longest TC string we decode. Range-encoded vendor lists keep real strings
+// well below this.
+export const TC_STRING_MAX_LENGTH = 8192;
+
+export const DEFAULT_TCF_MAPPING: TcfMapping = {
+  purposes: {
+    // Store/access information, measure content, audience insights, improve services
+    analytics: [1, 8, 9, 10],
+    // Basic and personalised advertising, ad measurement
+    marketing: [1, 2, 3, 4, 7],
+    // Personalised content profile and selection
+    personalization: [1, 5, 6, 11],
+  },
+  vendors: {},
+};
+
+const TCF_CATEGORIES: TcfCategory[] = ['analytics', 'marketing', 'personalization'];
+
+export class TcfCodec {
+  private options: Required<TcfOptions>;
+
+  constructor(options: TcfOptions = {}) {
+    this.options = {
+      cmpId: 0,
+      cmpVersion: 1,
+      consentScreen: 1,
+      consentLanguage: 'EN',
+      vendorListVersion: 1,
+      publisherCountryCode: 'DE',
+      mapping: DEFAULT_TCF_MAPPING,
+      ...options,
+    };
+  }
+
+  encode(
+    categories: Partial<Record<ConsentCategory, boolean>>,
+    updatedAt: Date = new Date(),
+  ): string {
+    const { mapping } = this.options;
+    const granted = TCF_CATEGORIES.filter(category => categories[category] === true);
+
+    const purposes = new Set(granted.flatMap(category => mapping.purposes[category]));
+
+    // A vendor gets consent when every category it is mapped to is granted
+    const disclosed = new Set(
+      TCF_CATEGORIES.flatMap(category => mapping.vendors?.[category] ?? []),
+    );
+    const vendors = [...disclosed].filter(vendorId =>
+      TCF_CATEGORIES.every(
+        category =>
+          !mapping.vendors?.[category]?.includes(vendorId) || categories[category] === true,
+      ),
+    );
+
+    // Timestamps are rounded to the day to limit fingerprinting
+    const day = new Date(updatedAt);
+    day.setUTCHours(0, 0, 0, 0);
+    const deciseconds = Math.round(day.getTime() / 100);
+
+    const core = new BitWriter();
+    core.int(2, 6);
+    core.int(deciseconds, 36);
+    core.int(deciseconds, 36);
+    core.int(this.options.cmpId, 12);
+    core.int(this.options.cmpVersion, 12);
+    core.int(this.options.consentScreen, 6);
+    core.letters(this.options.consentLanguage);
+    core.int(this.options.vendorListVersion, 12);
+    core.int(TCF_POLICY_VERSION, 6);
+    core.bool(true); // IsServiceSpecific, global consent was removed in v2.2
+    core.bool(false); // UseNonStandardTexts
+    core.bitfield([], 12); // SpecialFeatureOptIns
+    core.bitfield([...purposes], 24);
+    core.bitfield([], 24); // PurposesLITransparency, we only rely on consent
+    core.bool(false); // PurposeOneTreatment
+    core.letters(this.options.publisherCountryCode);
+    core.vendors(vendors);
+    core.vendors([]); // Vendor legitimate interests
+    core.int(0, 12); // NumPubRestrictions
+
+    const disclosedVendors = new BitWriter();
+    disclosedVendors.int(1, 3);
+    disclosedVendors.vendors([...disclosed]);
+
+    return `${core.toBase64Url()}.${disclosedVendors.toBase64Url()}`;
+  }
+
+  // Without vendors the vendor sections aren't read and come back empty,
+  // enough for the purposes toCategories looks at
+  decode(tcString: string, { vendors = true }: { vendors?: boolean } = {}): TcData {
+    if (tcString.length > TC_STRING_MAX_LENGTH) {
+      throw new TcStringError(`TC string is longer than ${TC_STRING_MAX_LENGTH} characters`);
+    }
+    const [segment] = tcString.trim().split('.');
+    if (!segment) throw new TcStringError('Empty TC string');
+
+    const core = new BitReader(segment);
+    const version = core.int(6);
+    if (version !== 2) {
+      throw new TcStringError(`Unsupported TC string version: ${version}`);
+    }
+
+    return {
+      version,
+      created: new Date(core.int(36) * 100),
+      lastUpdated: new Date(core.int(36) * 100),
+      cmpId: core.int(12),
+      cmpVersion: core.int(12),
+      consentScreen: core.int(6),
+      consentLanguage: core.letters(),
+      vendorListVersion: core.int(12),
+      tcfPolicyVersion: core.int(6),
+      isServiceSpecific: core.bool(),
+      useNonStandardTexts: core.bool(),
+      specialFeatureOptIns: core.bitfield(12),
+      purposeConsents: core.bitfield(24),
+      purposeLegitimateInterests: core.bitfield(24),
+      purposeOneTreatment: core.bool(),
+      publisherCountryCode: core.letters(),
+      vendorConsents: vendors ? core.vendors() : [],
+      vendorLegitimateInterests: vendors ? core.vendors() : [],
+    };
+  }
+
+  // A category counts as granted when all of its purposes have consent.
+  // Vendors shared between categories can't be attributed, so they are ignored here.
+  toCategories(data: TcData): Record<ConsentCategory, boolean> {
+    const { mapping } = this.options;
+    const categories = { necessary: true } as Record<ConsentCategory, boolean>;
+
+    TCF_CATEGORIES.forEach(category => {
+      const purposes = mapping.purposes[category];
+      categories[category] =
+        purposes.length > 0 && purposes.every(purpose => data.purposeConsents.includes(purpose));
+    });
+
+    return categories;
+  }
+
+  toConsentState(tcString: string, version: number = CONSENT_VERSION): ConsentState {
+    const data = this.decode(tcString, { vendors: false });
+    return {
+      version,
+      categories: this.toCategories(data),
+      grantedAt: data.lastUpdated,
+    };
+  }
+}
+
+const BASE64_URL = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+class BitWriter {
+  private bits: number[] = [];
+
+  int(value: number, length: number): void {
+    if (!Number.isInteger(value) || value < 0 || value >= 2 ** length) {
+      throw new TcStringError(`Value ${value} does not fit in ${length} bits`);
+    }
+    for (let i = length - 1; i >= 0; i--) {
+      this.bits.push(Math.floor(value / 2 ** i) % 2);
+    }
+  }
+
+  bool(value: boolean): void {
+    this.bits.push(value ? 1 : 0);
+  }
+
+  // Two letters, A = 0
+  letters(value: string): void {
+    const upper = value.toUpperCase();
+    if (!/^[A-Z]{2}$/.test(upper)) {
+      throw new TcStringError(`Expected a two-letter code, got "${value}"`);
+    }
+    this.int(upper.charCodeAt(0) - 65, 6);
+    this.int(upper.charCodeAt(1) - 65, 6);
+  }
+
+  // Bit n-1 is set for every id n
+  bitfield(ids: number[], length: number): void {
+    for (let id = 1; id <= length; id++) {
+      this.bool(ids.includes(id));
+    }
+  }
+
+  // Vendor section, bitfield or range encoding, whichever is shorter
+  vendors(ids: number[]): void {
+    const sorted = [...new Set(ids)].sort((a, b) => a - b);
+    const maxVendorId = sorted[sorted.length - 1] ?? 0;
+
+    const ranges: Array<[number, number]> = [];
+    sorted.forEach(id => {
+      const last = ranges[ranges.length - 1];
+      if (last && last[1] === id - 1) last[1] = id;
+      else ranges.push([id, id]);
+    });
+    const rangeBits = 12 + ranges.reduce((sum, [start, end]) => sum + (start === end ? 17 : 33), 0);
+
+    this.int(maxVendorId, 16);
+    if (rangeBits < maxVendorId) {
+      this.bool(true);
+      this.int(ranges.length, 12);
+      ranges.forEach(([start, end]) => {
+        this.bool(start !== end);
+        this.int(start, 16);
+        if (start !== end) this.int(end, 16);
+      });
+    } else {
+      this.bool(false);
+      this.bitfield(sorted, maxVendorId);
+    }
+  }
+
+  toBase64Url(): string {
+    const bits = [...this.bits];
+    // Pad to whole bytes, then to whole base64 characters
+    while (bits.length % 8 !== 0) bits.push(0);
+    while (bits.length % 6 !== 0) bits.push(0);
+
+    let encoded = '';
+    for (let i = 0; i < bits.length; i += 6) {
+      const index = bits.slice(i, i + 6).reduce((value, bit) => value * 2 + bit, 0);
+      encoded += BASE64_URL[index];
+    }
+    return encoded;
+  }
+}
+
+class BitReader {
+  private bits: number[] = [];
+  private offset = 0;
+
+  constructor(segment: string) {
+    for (const char of segment) {
+      const index = BASE64_URL.indexOf(char);
+      if (index === -1) throw new TcStringError(`Invalid TC string character: "${char}"`);
+      for (let i = 5; i >= 0; i--) {
+        this.bits.push(Math.floor(index / 2 ** i) % 2);
+      }
+    }
+  }
+
+  int(length: number): number {
+    if (this.offset + length > this.bits.length) {
+      throw new TcStringError('TC string is truncated');
+    }
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+      value = value * 2 + (this.bits[this.offset++] ?? 0);
+    }
+    return value;
+  }
+
+  bool(): boolean {
+    return this.int(1) === 1;
+  }
+
+  letters(): string {
+    return String.fromCharCode(this.int(6) + 65, this.int(6) + 65);
+  }
+
+  bitfield(length: number): number[] {
+    const ids: number[] = [];
+    for (let id = 1; id <= length; id++) {
+      if (this.bool()) ids.push(id);
+    }
+    return ids;
+  }
+
+  // Ranges must lie within 1..maxVendorId and can't add up to more ids than
+  // that, so a crafted string can't expand into millions of them
+  vendors(): number[] {
+    const maxVendorId = this.int(16);
+    if (!this.bool()) return this.bitfield(maxVendorId);
+
+    const ids: number[] = [];
+    const entries = this.int(12);
+    if (entries > maxVendorId) {
+      throw new TcStringError(`${entries} vendor entries for max vendor id ${maxVendorId}`);
+    }
+    for (let i = 0; i < entries; i++) {
+      const isRange = this.bool();
+      const start = this.int(16);
+      const end = isRange ? this.int(16) : start;
+      if (start < 1 || start > end || end > maxVendorId) {
+        throw new TcStringError(`Invalid vendor range ${start}-${end} (max ${maxVendorId})`);
+      }
+      if (ids.length + end - start + 1 > maxVendorId) {
+        throw new TcStringError(`Vendor ranges add up to more than ${maxVendorId} ids`);
+      }
+      for (let id = start; id <= end; id++) ids.push(id);
+    }
+    return ids;
+  }
+}
@@ -1,2 +1 @@
-// Value Objects will be added here
-export {};
\ No newline at end of file
+export * from './TcString';
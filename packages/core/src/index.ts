@@ -5,6 +5,7 @@ export * from './domain/services';
 export * from './application/services';
 export * from './application/use-cases';
 export * from './infrastructure/repositories';
+export * from './infrastructure/enrichers';
 
 // Re-export types
 export type * from './types';
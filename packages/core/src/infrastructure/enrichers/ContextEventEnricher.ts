@@ -0,0 +1,28 @@
+import { EventEnricher } from '../../application/services/TrackingService';
+import { EventContext, TrackingEvent } from '../../domain/entities/TrackingEvent';
+
+// Fills context fields the event leaves empty from fixed defaults, such as
+// the platform or an experiment assignment
+export class ContextEventEnricher implements EventEnricher {
+  constructor(private readonly defaults: Partial<EventContext> = {}) {}
+
+  async enrich(event: TrackingEvent): Promise<TrackingEvent> {
+    const context: EventContext = { ...this.defaults };
+    (Object.keys(event.context) as Array<keyof EventContext>).forEach(key => {
+      const value = event.context[key];
+      if (value !== undefined) (context as Record<string, unknown>)[key] = value;
+    });
+
+    return new TrackingEvent(
+      event.id,
+      event.userId,
+      event.sessionId,
+      event.type,
+      event.name,
+      event.properties,
+      context,
+      event.timestamp,
+      event.serverTimestamp,
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { EventEnricher } from '../../application/services/TrackingService';
+import { TrackingEvent } from '../../domain/entities/TrackingEvent';
+import { GrantedConsent } from '../../domain/services/EventRegistry';
+import { parseUserAgent } from '../../domain/services/UserAgent';
+
+// Parses the user agent and Client Hints into browser, OS, device type and
+// bot flag. Without analytics consent the raw strings are dropped, the parsed
+// fields are all that's kept.
+export class UserAgentEnricher implements EventEnricher {
+  async enrich(event: TrackingEvent, consent?: GrantedConsent): Promise<TrackingEvent> {
+    const { userAgent, clientHints } = event.context;
+    if (!userAgent && !clientHints) return event;
+
+    const enriched = event.withContext(parseUserAgent(userAgent, clientHints));
+    if (consent?.analytics) return enriched;
+
+    return enriched.withContext({ userAgent: undefined, clientHints: undefined });
+  }
+}
@@ -0,0 +1,2 @@
+export * from './ContextEventEnricher';
+export * from './UserAgentEnricher';
@@ -0,0 +1,27 @@
+import { ConsentManager, ConsentStatus } from '../../application/services/TrackingService';
+import { ConsentCategory } from '../../domain/entities/User';
+
+// Granted categories per user. Anonymous visitors and unknown users have
+// only necessary consent.
+export class InMemoryConsentManager implements ConsentManager {
+  private granted = new Map<string, Set<ConsentCategory>>();
+
+  async checkConsent(userId: string | null | undefined): Promise<ConsentStatus> {
+    const categories = (userId && this.granted.get(userId)) || new Set<ConsentCategory>();
+
+    return {
+      hasAnalytics: categories.has('analytics'),
+      hasMarketing: categories.has('marketing'),
+      hasPersonalization: categories.has('personalization'),
+    };
+  }
+
+  // Replaces the user's consent with the given categories
+  async updateConsent(userId: string, categories: ConsentCategory[]): Promise<void> {
+    this.granted.set(userId, new Set(categories));
+  }
+
+  clear(): void {
+    this.granted.clear();
+  }
+}
@@ -0,0 +1,45 @@
+import { EventStore } from '../../application/services/TrackingService';
+import { TrackingEvent } from '../../domain/entities/TrackingEvent';
+
+export type EventListener = (event: TrackingEvent) => void | Promise<void>;
+
+// Keeps the most recent events in memory and hands published events to
+// subscribers, for local development and tests
+export class InMemoryEventStore implements EventStore {
+  private events: TrackingEvent[] = [];
+  private listeners = new Set<EventListener>();
+
+  constructor(private readonly maxEvents: number = 10_000) {}
+
+  async store(event: TrackingEvent): Promise<void> {
+    this.events.push(event);
+    if (this.events.length > this.maxEvents) {
+      this.events.splice(0, this.events.length - this.maxEvents);
+    }
+  }
+
+  async publish(event: TrackingEvent): Promise<void> {
+    await Promise.all([...this.listeners].map(listener => listener(event)));
+  }
+
+  async getEvents(sessionId: string): Promise<TrackingEvent[]> {
+    return this.events
+      .filter(event => event.sessionId === sessionId)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  getAll(): TrackingEvent[] {
+    return [...this.events];
+  }
+
+  subscribe(listener: EventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  clear(): void {
+    this.events = [];
+  }
+}
@@ -1,2 +1,2 @@
-// Repositories will be added here
-export {};
\ No newline at end of file
+export * from './InMemoryEventStore';
+export * from './InMemoryConsentManager';
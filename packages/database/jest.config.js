@@ -0,0 +1,11 @@
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { module: 'commonjs', isolatedModules: true } }],
+  },
+  // Workspace packages from source, so tests don't depend on a stale build
+  moduleNameMapper: {
+    '^@data-snack/core$': '<rootDir>/../core/src/index.ts',
+  },
+};
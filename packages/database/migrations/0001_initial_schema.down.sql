@@ -0,0 +1,9 @@
+-- Extensions are left installed, other schemas may depend on them
+DROP TRIGGER IF EXISTS trigger_update_user_last_seen ON events;
+DROP FUNCTION IF EXISTS update_user_last_seen();
+
+DROP TABLE IF EXISTS user_achievements;
+DROP TABLE IF EXISTS achievements;
+DROP TABLE IF EXISTS snack_sessions;
+DROP TABLE IF EXISTS events;
+DROP TABLE IF EXISTS users;
@@ -0,0 +1,21 @@
+-- Consent history (append-only, proof of consent under GDPR Art. 7)
+CREATE TABLE consent_records (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  session_id TEXT NOT NULL,
+  
+  -- Decision
+  version INTEGER NOT NULL,
+  categories JSONB NOT NULL,
+  source TEXT NOT NULL,
+  tc_string TEXT, -- IAB TCF v2.2
+  
+  -- Evidence (IP is stored anonymized)
+  ip_address TEXT,
+  user_agent TEXT,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Indexes for consent history
+CREATE INDEX idx_consent_records_user ON consent_records (user_id, recorded_at DESC);
+CREATE INDEX idx_consent_records_session ON consent_records (session_id, recorded_at DESC);
@@ -0,0 +1,3 @@
+DROP FUNCTION IF EXISTS refresh_analytics_views();
+DROP MATERIALIZED VIEW IF EXISTS daily_snack_stats;
+DROP MATERIALIZED VIEW IF EXISTS hourly_stats;
@@ -0,0 +1,44 @@
+-- Real-time analytics views
+CREATE MATERIALIZED VIEW hourly_stats AS
+SELECT 
+  time_bucket('1 hour', time) as hour,
+  event_type,
+  COUNT(*) as event_count,
+  COUNT(DISTINCT user_id) as unique_users,
+  COUNT(DISTINCT session_id) as sessions,
+  COUNT(*) FILTER (WHERE is_anonymous = TRUE) as anonymous_events
+FROM events
+WHERE time > NOW() - INTERVAL '7 days'
+GROUP BY 1, 2
+ORDER BY 1 DESC, 2;
+
+-- Create unique index for concurrent refresh
+CREATE UNIQUE INDEX idx_hourly_stats_unique ON hourly_stats (hour, event_type);
+
+-- Daily snack stats
+CREATE MATERIALIZED VIEW daily_snack_stats AS
+SELECT 
+  DATE(started_at) as date,
+  snack_id,
+  COUNT(*) as sessions_started,
+  COUNT(*) FILTER (WHERE completed_at IS NOT NULL) as sessions_completed,
+  COUNT(*) FILTER (WHERE abandoned_at IS NOT NULL) as sessions_abandoned,
+  AVG(duration_ms) FILTER (WHERE duration_ms IS NOT NULL) as avg_duration_ms,
+  AVG(xp_awarded) as avg_xp_awarded,
+  COUNT(*) FILTER (WHERE shared_at IS NOT NULL) as sessions_shared
+FROM snack_sessions
+WHERE started_at > NOW() - INTERVAL '30 days'
+GROUP BY 1, 2
+ORDER BY 1 DESC, 2;
+
+-- Create unique index for concurrent refresh
+CREATE UNIQUE INDEX idx_daily_snack_stats_unique ON daily_snack_stats (date, snack_id);
+
+-- Function to refresh materialized views
+CREATE OR REPLACE FUNCTION refresh_analytics_views()
+RETURNS VOID AS $$
+BEGIN
+  REFRESH MATERIALIZED VIEW CONCURRENTLY hourly_stats;
+  REFRESH MATERIALIZED VIEW CONCURRENTLY daily_snack_stats;
+END;
+$$ LANGUAGE plpgsql;
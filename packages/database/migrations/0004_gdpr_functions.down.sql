@@ -0,0 +1,2 @@
+DROP FUNCTION IF EXISTS calculate_level(INTEGER);
+DROP FUNCTION IF EXISTS anonymize_user_data(UUID);
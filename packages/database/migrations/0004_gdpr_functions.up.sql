@@ -0,0 +1,37 @@
+-- Function to anonymize user data
+CREATE OR REPLACE FUNCTION anonymize_user_data(user_uuid UUID)
+RETURNS VOID AS $$
+BEGIN
+  -- Anonymize user record
+  UPDATE users 
+  SET 
+    fingerprint_hash = 'anonymized-' || user_uuid::text,
+    consent_ip_address = NULL,
+    anonymized_at = NOW()
+  WHERE id = user_uuid;
+  
+  -- Anonymize events
+  UPDATE events 
+  SET 
+    user_id = NULL,
+    ip_address = NULL,
+    user_agent = SPLIT_PART(user_agent, ' ', 1), -- Keep only browser name
+    is_anonymous = TRUE
+  WHERE user_id = user_uuid;
+  
+  -- Keep snack sessions but remove personal data
+  UPDATE snack_sessions
+  SET 
+    raw_data = raw_data - 'personal_info',
+    processed_data = processed_data - 'personal_info'
+  WHERE user_id = user_uuid;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to calculate XP level
+CREATE OR REPLACE FUNCTION calculate_level(xp INTEGER)
+RETURNS INTEGER AS $$
+BEGIN
+  RETURN FLOOR(xp / 1000.0) + 1;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
@@ -0,0 +1,11 @@
+DROP POLICY IF EXISTS consent_records_own_data ON consent_records;
+DROP POLICY IF EXISTS user_achievements_own_data ON user_achievements;
+DROP POLICY IF EXISTS snack_sessions_own_data ON snack_sessions;
+DROP POLICY IF EXISTS events_own_data ON events;
+DROP POLICY IF EXISTS users_own_data ON users;
+
+ALTER TABLE consent_records DISABLE ROW LEVEL SECURITY;
+ALTER TABLE user_achievements DISABLE ROW LEVEL SECURITY;
+ALTER TABLE snack_sessions DISABLE ROW LEVEL SECURITY;
+ALTER TABLE events DISABLE ROW LEVEL SECURITY;
+ALTER TABLE users DISABLE ROW LEVEL SECURITY;
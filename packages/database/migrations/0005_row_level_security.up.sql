@@ -0,0 +1,42 @@
+-- Row Level Security (RLS) policies
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE snack_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_achievements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE consent_records ENABLE ROW LEVEL SECURITY;
+
+-- The policies need Supabase's auth.uid(), plain Postgres only gets RLS
+-- enabled (the table owner used by the Postgres driver bypasses it)
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_namespace WHERE nspname = 'auth') THEN
+    RETURN;
+  END IF;
+
+  -- Policy: Users can only see their own data
+  CREATE POLICY users_own_data ON users
+    FOR ALL USING (auth.uid() = id);
+
+  -- Policy: Events are accessible based on user consent
+  CREATE POLICY events_own_data ON events
+    FOR ALL USING (
+      auth.uid() = user_id
+      OR is_anonymous = TRUE
+    );
+
+  -- Policy: Snack sessions are accessible by owner
+  CREATE POLICY snack_sessions_own_data ON snack_sessions
+    FOR ALL USING (
+      auth.uid() = user_id
+      OR (is_public = TRUE AND share_token IS NOT NULL)
+    );
+
+  -- Policy: User achievements are accessible by owner
+  CREATE POLICY user_achievements_own_data ON user_achievements
+    FOR ALL USING (auth.uid() = user_id);
+
+  -- Policy: Consent history is readable by its owner, never updated
+  CREATE POLICY consent_records_own_data ON consent_records
+    FOR SELECT USING (auth.uid() = user_id);
+END
+$$;
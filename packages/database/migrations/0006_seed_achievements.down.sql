@@ -0,0 +1,9 @@
+-- Unlocks reference the achievements, so they go first
+DELETE FROM user_achievements WHERE achievement_id IN (
+  'first-snack', 'privacy-aware', 'click-master', 'scroll-guru', 'consent-hero',
+  'social-sharer', 'high-value', 'level-up', 'completionist', 'unique-fingerprint'
+);
+DELETE FROM achievements WHERE id IN (
+  'first-snack', 'privacy-aware', 'click-master', 'scroll-guru', 'consent-hero',
+  'social-sharer', 'high-value', 'level-up', 'completionist', 'unique-fingerprint'
+);
@@ -0,0 +1,12 @@
+-- Insert default achievements
+INSERT INTO achievements (id, name, description, category, xp_reward, icon) VALUES
+('first-snack', 'First Bite', 'Complete your first Data Snack', 'beginner', 100, '🍪'),
+('privacy-aware', 'Privacy Ninja', 'Complete the Privacy Leak Detector', 'privacy', 250, '🥷'),
+('click-master', 'Click Master', 'Analyze your clicking patterns', 'behavioral', 200, '🖱️'),
+('scroll-guru', 'Scroll Sage', 'Master the art of scrolling', 'behavioral', 200, '📜'),
+('consent-hero', 'Transparency Hero', 'Grant full analytics consent', 'privacy', 150, '🛡️'),
+('social-sharer', 'Data Evangelist', 'Share 5 snack results', 'social', 300, '📢'),
+('high-value', 'Digital Gold', 'Reach €10,000+ market value', 'achievement', 500, '💰'),
+('level-up', 'Level Master', 'Reach Level 5', 'progression', 1000, '⭐'),
+('completionist', 'Snack Collector', 'Complete all available snacks', 'completion', 750, '🏆'),
+('unique-fingerprint', 'Digital Ghost', 'Achieve 95%+ uniqueness score', 'privacy', 400, '👻');
@@ -0,0 +1,14 @@
+-- Ids of stored events. The events hypertable can only enforce uniqueness
+-- together with time, this makes the id alone unique so an event retried by
+-- the SDK is stored once.
+CREATE TABLE event_ids (
+  id UUID PRIMARY KEY,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO event_ids (id)
+SELECT DISTINCT id FROM events
+ON CONFLICT DO NOTHING;
+
+-- Only the service role writes here
+ALTER TABLE event_ids ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,20 @@
+-- Events that failed property schema validation at ingestion. They are kept
+-- here instead of the events hypertable, for inspection and replay once the
+-- producer or the schema is fixed.
+CREATE TABLE quarantined_events (
+  id UUID PRIMARY KEY, -- the event's own id, a retried batch is quarantined once
+  session_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  event_name TEXT NOT NULL,
+  schema_version INTEGER NOT NULL,
+
+  -- The event as it would have been stored, after consent anonymization
+  payload JSONB NOT NULL,
+  issues JSONB NOT NULL,
+  quarantined_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_quarantined_events_type ON quarantined_events (event_type, quarantined_at DESC);
+
+-- Only the service role reads and writes here
+ALTER TABLE quarantined_events ENABLE ROW LEVEL SECURITY;
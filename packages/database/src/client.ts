@@ -1,16 +1,21 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import {
+  AnalysisResult,
+  ConsentRecord,
+  EventType,
+  GrantedConsent,
+  SnackSession,
+  TrackingEvent,
+  User,
+} from '@data-snack/core';
+import type { RepositoryError } from './errors';
 import { 
   Database,
-  DatabaseUser,
-  DatabaseEvent,
-  DatabaseSnackSession,
   DatabaseAchievement,
+  DatabaseQuarantinedEvent,
   DatabaseUserAchievement,
-  InsertUser,
-  InsertEvent,
-  InsertSnackSession,
-  UpdateUser,
-  UpdateSnackSession
+  InsertConsentRecord,
+  InsertQuarantinedEvent,
 } from './types';
 
 export type SupabaseDatabase = Database;
@@ -76,34 +81,109 @@ export function createClientDatabaseClient(): DatabaseClient {
   return createDatabaseClient(supabaseUrl, supabaseAnonKey);
 }
 
-// Repository pattern interfaces
+// Repository pattern interfaces, working with the core entities.
+// Implementations throw RepositoryError subclasses (see ./errors).
 export interface UserRepository {
-  findByFingerprint(fingerprint: string): Promise<DatabaseUser | null>;
-  create(user: InsertUser): Promise<DatabaseUser>;
-  update(id: string, updates: UpdateUser): Promise<DatabaseUser>;
+  findById(id: string): Promise<User | null>;
+  findByFingerprint(fingerprint: string): Promise<User | null>;
+  create(user: User): Promise<User>;
+  update(user: User): Promise<User>;
   delete(id: string): Promise<void>;
   anonymize(id: string): Promise<void>;
 }
 
+// A user, or an anonymous session when there is no user
+export interface SubjectQuery {
+  userId?: string | null;
+  sessionId?: string;
+}
+
+export interface EventSummary {
+  totalEvents: number;
+  uniqueUsers: number;
+  eventTypes: Record<string, number>;
+  consent: {
+    total: number;
+    analytics: number;
+    marketing: number;
+    personalization: number;
+  };
+}
+
+export interface NewEvent {
+  event: TrackingEvent;
+  consentState?: GrantedConsent | null;
+}
+
+export interface BulkInsertFailure {
+  id: string;
+  error: RepositoryError;
+}
+
+// What happened to each event id of a bulk insert
+export interface BulkInsertResult {
+  inserted: string[];
+  // Already stored, e.g. by an earlier attempt at the same batch
+  duplicates: string[];
+  failed: BulkInsertFailure[];
+}
+
 export interface EventRepository {
-  create(event: InsertEvent): Promise<DatabaseEvent>;
-  findByUser(userId: string, limit?: number): Promise<DatabaseEvent[]>;
-  findBySession(sessionId: string): Promise<DatabaseEvent[]>;
+  create(event: TrackingEvent, consentState?: GrantedConsent | null): Promise<TrackingEvent>;
+  // Idempotent bulk insert keyed on the event id, a row that violates a
+  // constraint fails on its own. Throws when the batch can't be stored at all.
+  createMany(events: NewEvent[]): Promise<BulkInsertResult>;
+  findByUser(userId: string, limit?: number): Promise<TrackingEvent[]>;
+  findBySession(sessionId: string): Promise<TrackingEvent[]>;
+  // Most recent event of a type for a user, or for a session when there is no user
+  findLatest(type: EventType, query: SubjectQuery): Promise<TrackingEvent | null>;
+  summarize(since: Date): Promise<EventSummary>;
   anonymize(userId: string): Promise<void>;
 }
 
 export interface SnackSessionRepository {
-  create(session: InsertSnackSession): Promise<DatabaseSnackSession>;
-  findById(id: string): Promise<DatabaseSnackSession | null>;
-  findByUser(userId: string): Promise<DatabaseSnackSession[]>;
-  findByShareToken(token: string): Promise<DatabaseSnackSession | null>;
-  update(id: string, updates: UpdateSnackSession): Promise<DatabaseSnackSession>;
-  complete(id: string, results: any): Promise<DatabaseSnackSession>;
+  create(session: SnackSession): Promise<SnackSession>;
+  findById(id: string): Promise<SnackSession | null>;
+  findByUser(userId: string): Promise<SnackSession[]>;
+  findByShareToken(token: string): Promise<SnackSession | null>;
+  update(session: SnackSession): Promise<SnackSession>;
+  complete(id: string, analysis: AnalysisResult, xpEarned?: number): Promise<SnackSession>;
 }
 
 export interface AchievementRepository {
   findAll(): Promise<DatabaseAchievement[]>;
   findById(id: string): Promise<DatabaseAchievement | null>;
   findByUser(userId: string): Promise<DatabaseUserAchievement[]>;
-  unlock(userId: string, achievementId: string, context?: any): Promise<DatabaseUserAchievement>;
+  unlock(
+    userId: string,
+    achievementId: string,
+    context?: Record<string, unknown>,
+  ): Promise<DatabaseUserAchievement>;
+}
+
+// Append-only consent history
+export interface ConsentRecordRepository {
+  create(record: InsertConsentRecord): Promise<ConsentRecord>;
+  // Newest first. The session's records, the given user's or those without a
+  // user, so neither id alone reveals anyone's history.
+  findBySubject(subject: SubjectQuery, limit?: number): Promise<ConsentRecord[]>;
+}
+
+// Events held back by property schema validation
+export interface QuarantineRepository {
+  // Idempotent on the event id, a retried batch is quarantined once
+  createMany(events: InsertQuarantinedEvent[]): Promise<void>;
+  // Newest first, optionally of one event type
+  findRecent(limit?: number, eventType?: string): Promise<DatabaseQuarantinedEvent[]>;
+}
+
+export interface Repositories {
+  users: UserRepository;
+  events: EventRepository;
+  snackSessions: SnackSessionRepository;
+  achievements: AchievementRepository;
+  consentRecords: ConsentRecordRepository;
+  quarantine: QuarantineRepository;
+  // Releases pooled connections, where there are any
+  close?(): Promise<void>;
 }
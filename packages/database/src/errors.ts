@@ -0,0 +1,112 @@
+// Typed repository errors, so callers don't have to interpret PostgREST codes
+
+export type RepositoryErrorCode =
+  | 'not_found'
+  | 'conflict'
+  | 'constraint_violation'
+  | 'invalid_data'
+  | 'unavailable'
+  | 'unknown';
+
+export class RepositoryError extends Error {
+  constructor(
+    message: string,
+    public readonly code: RepositoryErrorCode = 'unknown',
+    public readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = 'RepositoryError';
+  }
+}
+
+export class NotFoundError extends RepositoryError {
+  constructor(entity: string, id: string) {
+    super(`${entity} not found: ${id}`, 'not_found');
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends RepositoryError {
+  constructor(message: string, cause?: unknown) {
+    super(message, 'conflict', cause);
+    this.name = 'ConflictError';
+  }
+}
+
+export class ConstraintViolationError extends RepositoryError {
+  constructor(message: string, cause?: unknown) {
+    super(message, 'constraint_violation', cause);
+    this.name = 'ConstraintViolationError';
+  }
+}
+
+// A stored row that doesn't map to a valid entity
+export class InvalidDataError extends RepositoryError {
+  constructor(message: string, cause?: unknown) {
+    super(message, 'invalid_data', cause);
+    this.name = 'InvalidDataError';
+  }
+}
+
+export class DatabaseUnavailableError extends RepositoryError {
+  constructor(message: string, cause?: unknown) {
+    super(message, 'unavailable', cause);
+    this.name = 'DatabaseUnavailableError';
+  }
+}
+
+interface PostgrestLikeError {
+  message: string;
+  code?: string;
+  details?: string | null;
+  hint?: string | null;
+}
+
+// Translate a PostgREST / Postgres (pg) error into a RepositoryError
+export function toRepositoryError(error: PostgrestLikeError, operation: string): RepositoryError {
+  const message = `${operation} failed: ${error.message}`;
+
+  switch (error.code) {
+    case '23505': // unique_violation
+      return new ConflictError(message, error);
+    case '23502': // not_null_violation
+    case '23503': // foreign_key_violation
+    case '23514': // check_violation
+    case '22P02': // invalid_text_representation (e.g. malformed uuid)
+      return new ConstraintViolationError(message, error);
+    case '08000':
+    case '08003':
+    case '08006':
+    case '57P01':
+    case '57P03': // cannot_connect_now
+    case '53300': // too_many_connections
+    case 'ECONNREFUSED': // pg socket errors
+    case 'ECONNRESET':
+    case 'ETIMEDOUT':
+    case 'PGRST000':
+    case 'PGRST001':
+      return new DatabaseUnavailableError(message, error);
+    default:
+      // data_exception class, e.g. invalid datetime or a NUL byte in JSON
+      if (error.code?.startsWith('22')) {
+        return new ConstraintViolationError(message, error);
+      }
+      // fetch failures surface without a code
+      if (!error.code && /fetch|network|ECONNREFUSED/i.test(error.message)) {
+        return new DatabaseUnavailableError(message, error);
+      }
+      return new RepositoryError(message, 'unknown', error);
+  }
+}
+
+// A migration that can't be loaded, applied or reverted, or an applied one
+// whose file changed since
+export class MigrationError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
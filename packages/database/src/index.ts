@@ -4,6 +4,14 @@ export * from './types';
 // Supabase client and utilities
 export * from './client';
 
+// Repository implementations, row mapping and errors
+export * from './repositories';
+export * from './mappers';
+export * from './errors';
+
+// Versioned SQL migrations (the CLI lives in ./migrations/cli)
+export * from './migrations';
+
 // Re-export commonly used types
 export type {
   DatabaseUser,
@@ -11,9 +19,13 @@ export type {
   DatabaseSnackSession,
   DatabaseAchievement,
   DatabaseUserAchievement,
+  DatabaseConsentRecord,
+  DatabaseQuarantinedEvent,
   InsertUser,
   InsertEvent,
   InsertSnackSession,
+  InsertConsentRecord,
+  InsertQuarantinedEvent,
   UpdateUser,
   UpdateEvent,
   UpdateSnackSession,
@@ -25,4 +37,12 @@ export type {
   EventRepository,
   SnackSessionRepository,
   AchievementRepository,
+  ConsentRecordRepository,
+  QuarantineRepository,
+  Repositories,
+  SubjectQuery,
+  EventSummary,
+  NewEvent,
+  BulkInsertResult,
+  BulkInsertFailure,
 } from './client';
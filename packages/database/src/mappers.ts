@@ -0,0 +1,228 @@
+import {
+  AnalysisResult,
+  ConsentRecord,
+  EventContext,
+  Fingerprint,
+  GrantedConsent,
+  PersonalityType,
+  SnackSession,
+  SnackType,
+  TrackingEvent,
+  User,
+  UserId,
+  toEventType,
+} from '@data-snack/core';
+import { InvalidDataError } from './errors';
+import {
+  DatabaseConsentRecord,
+  DatabaseEvent,
+  DatabaseSnackSession,
+  DatabaseUser,
+  InsertEvent,
+  InsertSnackSession,
+  InsertUser,
+  UpdateSnackSession,
+  UpdateUser,
+} from './types';
+
+// Mapping between table rows and core entities
+
+export function toUser(row: DatabaseUser): User {
+  const personalityType = PersonalityType.safeParse(row.personality_type);
+
+  return new User(
+    row.id as UserId,
+    row.fingerprint_hash as Fingerprint,
+    {
+      version: row.consent_version,
+      categories: row.consent_categories,
+      grantedAt: row.consent_granted_at ? new Date(row.consent_granted_at) : undefined,
+      ipAddress: row.consent_ip_address ?? undefined,
+    },
+    {
+      personalityType: personalityType.success ? personalityType.data : undefined,
+      totalXp: row.total_xp,
+      level: row.level,
+      achievements: row.achievements,
+      marketValue: row.market_value ?? undefined,
+    },
+    new Date(row.created_at),
+    new Date(row.last_seen_at),
+    row.deletion_requested_at ? new Date(row.deletion_requested_at) : undefined,
+  );
+}
+
+export function fromUser(user: User): InsertUser {
+  const { categories } = user.consent;
+
+  return {
+    id: user.id,
+    fingerprint_hash: user.fingerprint,
+    created_at: user.createdAt.toISOString(),
+    last_seen_at: user.lastSeenAt.toISOString(),
+    consent_version: user.consent.version,
+    consent_categories: {
+      necessary: true,
+      analytics: categories.analytics === true,
+      marketing: categories.marketing === true,
+      personalization: categories.personalization === true,
+    },
+    consent_granted_at: user.consent.grantedAt?.toISOString() ?? null,
+    consent_ip_address: user.consent.ipAddress ?? null,
+    data_retention_days: 90,
+    deletion_requested_at: user.deletionRequestedAt?.toISOString() ?? null,
+    anonymized_at: null,
+    data_export_requested_at: null,
+    last_export_at: null,
+    personality_type: user.profile.personalityType ?? null,
+    total_xp: user.profile.totalXp,
+    level: user.profile.level,
+    achievements: user.profile.achievements,
+    market_value: user.profile.marketValue ?? null,
+  };
+}
+
+// Only the columns the entity owns, GDPR bookkeeping is left alone
+export function toUserUpdate(user: User): UpdateUser {
+  const row = fromUser(user);
+  return {
+    fingerprint_hash: row.fingerprint_hash,
+    last_seen_at: row.last_seen_at,
+    consent_version: row.consent_version,
+    consent_categories: row.consent_categories,
+    consent_granted_at: row.consent_granted_at,
+    consent_ip_address: row.consent_ip_address,
+    deletion_requested_at: row.deletion_requested_at,
+    personality_type: row.personality_type,
+    total_xp: row.total_xp,
+    level: row.level,
+    achievements: row.achievements,
+    market_value: row.market_value,
+  };
+}
+
+export function toTrackingEvent(row: DatabaseEvent): TrackingEvent {
+  return new TrackingEvent(
+    row.id,
+    row.user_id as UserId | null,
+    row.session_id,
+    // Rows stored before the custom: namespace read as custom events
+    toEventType(row.event_type),
+    row.event_name,
+    row.properties,
+    row.context as EventContext,
+    new Date(row.time),
+    row.server_timestamp ? new Date(row.server_timestamp) : undefined,
+  );
+}
+
+export function fromTrackingEvent(
+  event: TrackingEvent,
+  consentState: GrantedConsent | null = null,
+): InsertEvent {
+  return {
+    id: event.id,
+    time: event.timestamp.toISOString(),
+    user_id: event.userId,
+    session_id: event.sessionId,
+    event_type: event.type,
+    event_name: event.name,
+    properties: event.properties,
+    context: event.context,
+    server_timestamp: (event.serverTimestamp ?? new Date()).toISOString(),
+    ip_address: null,
+    user_agent: null,
+    is_anonymous: !event.userId,
+    consent_state: (consentState as Record<string, boolean> | null) ?? null,
+  };
+}
+
+export function toSnackSession(row: DatabaseSnackSession): SnackSession {
+  const snackType = SnackType.safeParse(row.snack_id);
+  if (!snackType.success) {
+    throw new InvalidDataError(`Unknown snack type "${row.snack_id}" in session ${row.id}`);
+  }
+  const analysis = AnalysisResult.safeParse(row.personality_analysis);
+
+  return new SnackSession(
+    row.id,
+    row.user_id as UserId,
+    snackType.data,
+    row.snack_version,
+    new Date(row.started_at),
+    row.completed_at ? new Date(row.completed_at) : null,
+    row.raw_data,
+    analysis.success ? analysis.data : null,
+    row.xp_awarded,
+    row.achievements_unlocked,
+    row.share_token,
+    row.shared_at ? new Date(row.shared_at) : null,
+    row.share_count,
+  );
+}
+
+export function fromSnackSession(session: SnackSession): InsertSnackSession {
+  const { analysis } = session;
+
+  return {
+    id: session.id,
+    user_id: session.userId as string,
+    snack_id: session.snackType,
+    snack_version: session.version,
+    started_at: session.startedAt.toISOString(),
+    completed_at: session.completedAt?.toISOString() ?? null,
+    abandoned_at: null,
+    duration_ms: session.duration,
+    raw_data: session.dataCollected,
+    processed_data: {},
+    personality_analysis: analysis as Record<string, unknown> | null,
+    personality_type: analysis?.personalityType ?? null,
+    market_value: analysis?.marketValue ?? null,
+    uniqueness_score: analysis?.scores.uniqueness ?? null,
+    confidence_score: analysis?.scores.confidence ?? null,
+    xp_awarded: session.xpEarned,
+    achievements_unlocked: session.achievementsUnlocked,
+    share_token: session.shareToken,
+    shared_at: session.sharedAt?.toISOString() ?? null,
+    share_count: session.shareCount,
+    is_public: false,
+  };
+}
+
+export function toSnackSessionUpdate(session: SnackSession): UpdateSnackSession {
+  const row = fromSnackSession(session);
+  return {
+    completed_at: row.completed_at,
+    duration_ms: row.duration_ms,
+    raw_data: row.raw_data,
+    personality_analysis: row.personality_analysis,
+    personality_type: row.personality_type,
+    market_value: row.market_value,
+    uniqueness_score: row.uniqueness_score,
+    confidence_score: row.confidence_score,
+    xp_awarded: row.xp_awarded,
+    achievements_unlocked: row.achievements_unlocked,
+    share_token: row.share_token,
+    shared_at: row.shared_at,
+    share_count: row.share_count,
+  };
+}
+
+export function toConsentRecord(row: DatabaseConsentRecord): ConsentRecord {
+  const record = ConsentRecord.safeParse({
+    id: row.id,
+    userId: row.user_id,
+    sessionId: row.session_id,
+    version: row.version,
+    categories: row.categories,
+    source: row.source,
+    tcString: row.tc_string,
+    ipAddress: row.ip_address,
+    userAgent: row.user_agent,
+    recordedAt: new Date(row.recorded_at),
+  });
+  if (!record.success) {
+    throw new InvalidDataError(`Invalid consent record ${row.id}`, record.error);
+  }
+  return record.data;
+}
@@ -0,0 +1,297 @@
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { PoolClient } from 'pg';
+import { MigrationError, toRepositoryError } from '../errors';
+import { PostgresDatabase } from '../repositories/PostgresDatabase';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string | null;
+  checksum: string;
+  transactional: boolean;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: string | null;
+  checksumMatches: boolean;
+}
+
+export interface MigrationRunnerOptions {
+  directory: string; // holds NNNN_name.up.sql and NNNN_name.down.sql pairs
+  table?: string;
+}
+
+const FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.(up|down)\.sql$/;
+
+// Migrations that can't run inside a transaction (e.g. CREATE INDEX
+// CONCURRENTLY) start with this line
+const NO_TRANSACTION = '-- migrate:no-transaction';
+
+export function migrationChecksum(sql: string): string {
+  return createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+// Reads the migration files, ordered by version
+export function loadMigrations(directory: string): Migration[] {
+  if (!existsSync(directory)) {
+    throw new MigrationError(`Migrations directory not found: ${directory}`);
+  }
+
+  const migrations = new Map<number, Migration>();
+  const downs = new Map<number, string>();
+
+  for (const file of readdirSync(directory).sort()) {
+    const match = FILE_PATTERN.exec(file);
+    if (!match) continue;
+
+    const [, version, name, direction] = match as unknown as [string, string, string, string];
+    const sql = readFileSync(join(directory, file), 'utf8');
+
+    if (direction === 'down') {
+      downs.set(Number(version), sql);
+      continue;
+    }
+
+    const existing = migrations.get(Number(version));
+    if (existing) {
+      throw new MigrationError(
+        `Duplicate migration version ${version}: ${existing.name} and ${name}`,
+      );
+    }
+    migrations.set(Number(version), {
+      version: Number(version),
+      name,
+      up: sql,
+      down: null,
+      checksum: migrationChecksum(sql),
+      transactional: !sql.trimStart().startsWith(NO_TRANSACTION),
+    });
+  }
+
+  for (const [version, sql] of downs) {
+    const migration = migrations.get(version);
+    if (!migration) throw new MigrationError(`Down migration ${version} has no up migration`);
+    migration.down = sql;
+  }
+
+  return [...migrations.values()].sort((a, b) => a.version - b.version);
+}
+
+// Adds an empty up/down pair after the latest version, returns the file names
+export function createMigration(directory: string, name: string): string[] {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '');
+  if (!slug) throw new MigrationError(`Invalid migration name: ${name}`);
+
+  const latest = existsSync(directory) ? (loadMigrations(directory).pop()?.version ?? 0) : 0;
+  const prefix = `${String(latest + 1).padStart(4, '0')}_${slug}`;
+  const files = [`${prefix}.up.sql`, `${prefix}.down.sql`];
+
+  files.forEach(file => writeFileSync(join(directory, file), ''));
+  return files;
+}
+
+const label = (migration: { version: number; name: string }) =>
+  `${String(migration.version).padStart(4, '0')}_${migration.name}`;
+
+// Applies and reverts migrations, recording each one with the checksum of
+// its up file. An advisory lock keeps concurrent runs (e.g. several
+// deploys starting at once) from applying the same migration twice.
+export class MigrationRunner {
+  private readonly table: string;
+
+  constructor(
+    private readonly db: PostgresDatabase,
+    private readonly options: MigrationRunnerOptions,
+  ) {
+    this.table = options.table ?? 'schema_migrations';
+  }
+
+  async status(): Promise<MigrationStatus[]> {
+    const migrations = loadMigrations(this.options.directory);
+    const applied = await this.withLock(client => this.applied(client));
+
+    return migrations.map(migration => {
+      const record = applied.get(migration.version);
+      return {
+        version: migration.version,
+        name: migration.name,
+        appliedAt: record?.applied_at ?? null,
+        checksumMatches: !record || record.checksum === migration.checksum,
+      };
+    });
+  }
+
+  // Problems with applied migrations: changed files and missing files
+  async verify(): Promise<string[]> {
+    const migrations = loadMigrations(this.options.directory);
+    const applied = await this.withLock(client => this.applied(client));
+    return this.problems(migrations, applied);
+  }
+
+  // Applies pending migrations up to and including target, returns them
+  async up(target?: number): Promise<Migration[]> {
+    const migrations = loadMigrations(this.options.directory);
+
+    return this.withLock(async client => {
+      const applied = await this.applied(client);
+      this.assertVerified(migrations, applied);
+
+      const pending = migrations.filter(
+        migration =>
+          !applied.has(migration.version) && (target === undefined || migration.version <= target),
+      );
+
+      for (const migration of pending) {
+        await this.run(client, migration, migration.up, () =>
+          client.query(`INSERT INTO ${this.table} (version, name, checksum) VALUES ($1, $2, $3)`, [
+            migration.version,
+            migration.name,
+            migration.checksum,
+          ]),
+        );
+      }
+      return pending;
+    });
+  }
+
+  // Reverts the latest applied migrations, newest first, returns them
+  async down(steps = 1): Promise<Migration[]> {
+    const migrations = loadMigrations(this.options.directory);
+
+    return this.withLock(async client => {
+      const applied = await this.applied(client);
+      this.assertVerified(migrations, applied);
+
+      const reverted = migrations
+        .filter(migration => applied.has(migration.version))
+        .reverse()
+        .slice(0, steps);
+
+      for (const migration of reverted) {
+        if (migration.down === null) {
+          throw new MigrationError(`Migration ${label(migration)} has no down migration`);
+        }
+        await this.run(client, migration, migration.down, () =>
+          client.query(`DELETE FROM ${this.table} WHERE version = $1`, [migration.version]),
+        );
+      }
+      return reverted;
+    });
+  }
+
+  // Records migrations up to target as applied without running them, for
+  // databases that were set up from schema.sql
+  async baseline(target: number): Promise<Migration[]> {
+    const migrations = loadMigrations(this.options.directory);
+
+    return this.withLock(async client => {
+      const applied = await this.applied(client);
+      const skipped = migrations.filter(
+        migration => migration.version <= target && !applied.has(migration.version),
+      );
+
+      for (const migration of skipped) {
+        await client.query(
+          `INSERT INTO ${this.table} (version, name, checksum) VALUES ($1, $2, $3)`,
+          [migration.version, migration.name, migration.checksum],
+        );
+      }
+      return skipped;
+    });
+  }
+
+  private async run(
+    client: PoolClient,
+    migration: Migration,
+    sql: string,
+    record: () => Promise<unknown>,
+  ): Promise<void> {
+    try {
+      if (!migration.transactional) {
+        await client.query(sql);
+        await record();
+        return;
+      }
+
+      await client.query('BEGIN');
+      await client.query(sql);
+      await record();
+      await client.query('COMMIT');
+    } catch (error) {
+      if (migration.transactional) await client.query('ROLLBACK').catch(() => undefined);
+      throw new MigrationError(
+        `Migration ${label(migration)} failed: ${(error as Error).message}`,
+        error,
+      );
+    }
+  }
+
+  private async applied(client: PoolClient): Promise<Map<number, AppliedMigration>> {
+    await client.query(
+      `CREATE TABLE IF NOT EXISTS ${this.table} (
+         version INTEGER PRIMARY KEY,
+         name TEXT NOT NULL,
+         checksum TEXT NOT NULL,
+         applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+       )`,
+    );
+    const { rows } = await client.query<AppliedMigration>(
+      `SELECT version, name, checksum, applied_at FROM ${this.table} ORDER BY version`,
+    );
+    return new Map(rows.map(row => [row.version, row]));
+  }
+
+  private problems(migrations: Migration[], applied: Map<number, AppliedMigration>): string[] {
+    const byVersion = new Map(migrations.map(migration => [migration.version, migration]));
+    const problems: string[] = [];
+
+    for (const record of applied.values()) {
+      const migration = byVersion.get(record.version);
+      if (!migration) {
+        problems.push(`Applied migration ${label(record)} is missing from the directory`);
+      } else if (migration.checksum !== record.checksum) {
+        problems.push(`Migration ${label(migration)} changed after it was applied`);
+      }
+    }
+    return problems;
+  }
+
+  private assertVerified(migrations: Migration[], applied: Map<number, AppliedMigration>): void {
+    const problems = this.problems(migrations, applied);
+    if (problems.length > 0) throw new MigrationError(problems.join('\n'));
+  }
+
+  private async withLock<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    let client: PoolClient;
+    try {
+      client = await this.db.pool.connect();
+    } catch (error) {
+      throw toRepositoryError(error as { message: string; code?: string }, 'Running migrations');
+    }
+
+    try {
+      await client.query('SELECT pg_advisory_lock(hashtext($1))', [this.table]);
+      return await fn(client);
+    } finally {
+      await client
+        .query('SELECT pg_advisory_unlock(hashtext($1))', [this.table])
+        .catch(() => undefined);
+      client.release();
+    }
+  }
+}
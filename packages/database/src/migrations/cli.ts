@@ -0,0 +1,118 @@
+import { resolve } from 'path';
+import { PostgresDatabase } from '../repositories/PostgresDatabase';
+import { MigrationRunner, createMigration } from './MigrationRunner';
+import { checkTypesSync } from './typesSync';
+
+const USAGE = `Usage: migrate <command> [argument]
+
+Commands:
+  up [version]         Apply pending migrations, optionally up to version
+  down [steps]         Revert the latest applied migrations (default 1)
+  status               List migrations and when they were applied
+  verify               Check applied migrations against their files
+  baseline <version>   Mark migrations up to version as applied without running them
+  create <name>        Add an empty up/down migration pair
+  check-types          Compare src/types.ts against the migrated schema
+
+Environment:
+  DATABASE_URL         Postgres connection string (required, except for create)
+  DATABASE_SSL         "true" to connect over SSL
+  MIGRATIONS_DIR       Defaults to ./migrations
+`;
+
+const print = (line = '') => process.stdout.write(`${line}\n`);
+
+function parseNumber(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) throw new Error(`Invalid ${name}: ${value}`);
+  return parsed;
+}
+
+async function main(args: string[]): Promise<number> {
+  const [command, argument] = args;
+  const directory = resolve(process.env.MIGRATIONS_DIR ?? 'migrations');
+
+  if (!command || command === 'help' || command === '--help') {
+    print(USAGE);
+    return command ? 0 : 1;
+  }
+
+  if (command === 'create') {
+    if (!argument) throw new Error('create needs a migration name');
+    createMigration(directory, argument).forEach(file => print(`Created ${file}`));
+    return 0;
+  }
+
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) throw new Error('DATABASE_URL is not set');
+
+  // Schema changes may take a while, so no statement timeout
+  const db = new PostgresDatabase({
+    connectionString,
+    maxConnections: 1,
+    statementTimeoutMs: 0,
+    ssl: process.env.DATABASE_SSL === 'true',
+  });
+  const runner = new MigrationRunner(db, { directory });
+
+  try {
+    switch (command) {
+      case 'up': {
+        const applied = await runner.up(parseNumber(argument, 'version'));
+        applied.forEach(migration => print(`Applied ${migration.version} ${migration.name}`));
+        print(applied.length ? `${applied.length} migration(s) applied` : 'Already up to date');
+        return 0;
+      }
+      case 'down': {
+        const reverted = await runner.down(parseNumber(argument, 'steps') ?? 1);
+        reverted.forEach(migration => print(`Reverted ${migration.version} ${migration.name}`));
+        print(`${reverted.length} migration(s) reverted`);
+        return 0;
+      }
+      case 'status': {
+        const migrations = await runner.status();
+        migrations.forEach(migration => {
+          const state = migration.appliedAt ?? 'pending';
+          const changed = migration.checksumMatches ? '' : '  (changed since applied)';
+          print(
+            `${String(migration.version).padStart(4, '0')} ${migration.name}  ${state}${changed}`,
+          );
+        });
+        return migrations.every(migration => migration.checksumMatches) ? 0 : 1;
+      }
+      case 'verify': {
+        const problems = await runner.verify();
+        problems.forEach(problem => print(problem));
+        print(problems.length ? `${problems.length} problem(s) found` : 'Applied migrations match');
+        return problems.length ? 1 : 0;
+      }
+      case 'baseline': {
+        const target = parseNumber(argument, 'version');
+        if (target === undefined) throw new Error('baseline needs a version');
+        const skipped = await runner.baseline(target);
+        skipped.forEach(migration => print(`Marked ${migration.version} ${migration.name}`));
+        return 0;
+      }
+      case 'check-types': {
+        const problems = await checkTypesSync(db);
+        problems.forEach(problem => print(problem));
+        print(problems.length ? `${problems.length} difference(s) found` : 'types.ts is in sync');
+        return problems.length ? 1 : 0;
+      }
+      default:
+        print(USAGE);
+        return 1;
+    }
+  } finally {
+    await db.close();
+  }
+}
+
+main(process.argv.slice(2)).then(
+  code => process.exit(code),
+  error => {
+    console.error(`[migrate] ${(error as Error).message}`);
+    process.exit(1);
+  },
+);
@@ -0,0 +1,14 @@
+export type {
+  AppliedMigration,
+  Migration,
+  MigrationRunnerOptions,
+  MigrationStatus,
+} from './MigrationRunner';
+export type { SchemaColumn } from './typesSync';
+export {
+  MigrationRunner,
+  createMigration,
+  loadMigrations,
+  migrationChecksum,
+} from './MigrationRunner';
+export { TABLE_TYPES, checkTypesSync, compareSchema, readSchemaColumns } from './typesSync';
@@ -0,0 +1,181 @@
+import { join } from 'path';
+import { PostgresDatabase } from '../repositories/PostgresDatabase';
+import { loadMigrations } from './MigrationRunner';
+import { SchemaColumn, checkTypesSync, compareSchema } from './typesSync';
+
+// information_schema.columns data_type for the types the migrations use
+const DATA_TYPES: Record<string, string> = {
+  UUID: 'uuid',
+  TEXT: 'text',
+  VARCHAR: 'character varying',
+  TIMESTAMPTZ: 'timestamp with time zone',
+  DATE: 'date',
+  INET: 'inet',
+  INTEGER: 'integer',
+  SMALLINT: 'smallint',
+  BIGINT: 'bigint',
+  DECIMAL: 'numeric',
+  NUMERIC: 'numeric',
+  REAL: 'real',
+  BOOLEAN: 'boolean',
+  JSON: 'json',
+  JSONB: 'jsonb',
+};
+
+// Splits at commas outside parentheses and quotes
+function splitTopLevel(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+  for (const char of body) {
+    if (char === "'") quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+    if (!quoted && depth === 0 && char === ',') {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  return [...parts, current.trim()].filter(Boolean);
+}
+
+// The columns the up migrations create, as readSchemaColumns reports them
+function columnsFromMigrations(): SchemaColumn[] {
+  const columns: SchemaColumn[] = [];
+
+  loadMigrations(join(__dirname, '../../migrations')).forEach(({ up }) => {
+    const sql = up.replace(/--.*$/gm, '');
+    for (const [, table = '', body = ''] of sql.matchAll(/CREATE TABLE (\w+) \(([\s\S]*?)\n\);/g)) {
+      const definitions = splitTopLevel(body);
+      const primaryKey = definitions
+        .map(definition => /^PRIMARY KEY \(([^)]+)\)/i.exec(definition)?.[1])
+        .flatMap(keys => keys?.split(',').map(key => key.trim()) ?? []);
+
+      definitions
+        .filter(
+          definition => !/^(CONSTRAINT|PRIMARY KEY|UNIQUE|CHECK|FOREIGN KEY)\b/i.test(definition),
+        )
+        .forEach(definition => {
+          const [name = '', type = ''] = definition.split(/\s+/);
+          const dataType = DATA_TYPES[type.replace(/\(.*$/, '').toUpperCase()];
+          columns.push({
+            table_name: table,
+            column_name: name,
+            data_type: dataType ?? type.toLowerCase(),
+            nullable:
+              !/\bNOT NULL\b|\bPRIMARY KEY\b/i.test(definition) && !primaryKey.includes(name),
+            has_default: /\bDEFAULT\b/i.test(definition),
+          });
+        });
+    }
+  });
+  return columns;
+}
+
+describe('compareSchema', () => {
+  const columns = columnsFromMigrations();
+
+  it('finds every table in the migrations', () => {
+    expect(new Set(columns.map(column => column.table_name))).toEqual(
+      new Set([
+        'users',
+        'events',
+        'snack_sessions',
+        'achievements',
+        'user_achievements',
+        'consent_records',
+        'event_ids',
+        'quarantined_events',
+      ]),
+    );
+  });
+
+  it('matches the row schemas in types.ts', () => {
+    expect(compareSchema(columns)).toEqual([]);
+  });
+
+  it('reports columns missing on either side', () => {
+    const withoutTcString = columns.filter(
+      column => !(column.table_name === 'consent_records' && column.column_name === 'tc_string'),
+    );
+    const withExtra = [
+      ...columns,
+      {
+        table_name: 'users',
+        column_name: 'nickname',
+        data_type: 'text',
+        nullable: true,
+        has_default: false,
+      },
+    ];
+
+    expect(compareSchema(withoutTcString)).toEqual([
+      'consent_records.tc_string is in types.ts but not in the schema',
+    ]);
+    expect(compareSchema(withExtra)).toEqual(['users.nickname is missing from types.ts']);
+  });
+
+  it('reports mismatched types and nullability', () => {
+    const changed = columns.map(column => {
+      if (column.table_name === 'events' && column.column_name === 'event_type') {
+        return { ...column, nullable: true };
+      }
+      if (column.table_name === 'users' && column.column_name === 'total_xp') {
+        return { ...column, data_type: 'text' };
+      }
+      if (column.table_name === 'consent_records' && column.column_name === 'tc_string') {
+        return { ...column, nullable: false };
+      }
+      return column;
+    });
+
+    expect(compareSchema(changed)).toEqual([
+      'users.total_xp is text but number in types.ts',
+      'events.event_type is nullable but neither nullable nor defaulted in types.ts',
+      'consent_records.tc_string is NOT NULL but nullable in types.ts',
+    ]);
+  });
+
+  it('reports tables on one side only and unsupported types', () => {
+    const problems = compareSchema([
+      ...columns.filter(column => column.table_name !== 'event_ids'),
+      {
+        table_name: 'audit',
+        column_name: 'id',
+        data_type: 'uuid',
+        nullable: false,
+        has_default: false,
+      },
+      { ...(columns[0] as SchemaColumn), column_name: 'id', data_type: 'bigint' },
+    ]);
+
+    expect(problems).toContain('Table audit has no row schema in types.ts');
+    expect(problems).toContain('Table event_ids is in types.ts but not in the schema');
+    expect(problems).toContain(`${columns[0]?.table_name}.id has unsupported type bigint`);
+  });
+});
+
+describe('checkTypesSync', () => {
+  it('reads the columns from the database and skips the migrations table', async () => {
+    const columns = [
+      ...columnsFromMigrations(),
+      {
+        table_name: 'schema_migrations',
+        column_name: 'version',
+        data_type: 'integer',
+        nullable: false,
+        has_default: false,
+      },
+    ];
+    const query = jest.fn().mockResolvedValue(columns);
+
+    expect(await checkTypesSync({ query } as unknown as PostgresDatabase)).toEqual([]);
+    expect(query).toHaveBeenCalledWith(
+      'Reading schema',
+      expect.stringContaining('information_schema'),
+    );
+  });
+});
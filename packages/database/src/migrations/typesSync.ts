@@ -0,0 +1,164 @@
+import { z } from 'zod';
+import { PostgresDatabase } from '../repositories/PostgresDatabase';
+import {
+  DatabaseAchievement,
+  DatabaseConsentRecord,
+  DatabaseEvent,
+  DatabaseEventId,
+  DatabaseQuarantinedEvent,
+  DatabaseSnackSession,
+  DatabaseUser,
+  DatabaseUserAchievement,
+} from '../types';
+
+export interface SchemaColumn {
+  table_name: string;
+  column_name: string;
+  data_type: string;
+  nullable: boolean;
+  has_default: boolean;
+}
+
+type ValueKind = 'string' | 'number' | 'boolean' | 'json';
+
+// The row schema in types.ts for every table in the migrated schema
+export const TABLE_TYPES: Record<string, z.AnyZodObject> = {
+  users: DatabaseUser,
+  events: DatabaseEvent,
+  event_ids: DatabaseEventId,
+  quarantined_events: DatabaseQuarantinedEvent,
+  snack_sessions: DatabaseSnackSession,
+  achievements: DatabaseAchievement,
+  user_achievements: DatabaseUserAchievement,
+  consent_records: DatabaseConsentRecord,
+};
+
+// What pg hands us for each column type, given the PostgresDatabase parsers
+const COLUMN_KINDS: Record<string, ValueKind> = {
+  uuid: 'string',
+  text: 'string',
+  'character varying': 'string',
+  'timestamp with time zone': 'string',
+  date: 'string',
+  inet: 'string',
+  integer: 'number',
+  smallint: 'number',
+  numeric: 'number',
+  real: 'number',
+  'double precision': 'number',
+  boolean: 'boolean',
+  json: 'json',
+  jsonb: 'json',
+};
+
+function describe(schema: z.ZodTypeAny): {
+  kind: ValueKind | null;
+  nullable: boolean;
+  hasDefault: boolean;
+} {
+  let nullable = false;
+  let hasDefault = false;
+  let current = schema;
+
+  for (;;) {
+    if (current instanceof z.ZodNullable || current instanceof z.ZodOptional) {
+      nullable = true;
+      current = current.unwrap();
+    } else if (current instanceof z.ZodDefault) {
+      hasDefault = true;
+      current = current.removeDefault();
+    } else {
+      break;
+    }
+  }
+
+  let kind: ValueKind | null = null;
+  if (current instanceof z.ZodString) kind = 'string';
+  else if (current instanceof z.ZodNumber) kind = 'number';
+  else if (current instanceof z.ZodBoolean) kind = 'boolean';
+  else if (
+    current instanceof z.ZodObject ||
+    current instanceof z.ZodRecord ||
+    current instanceof z.ZodArray
+  ) {
+    kind = 'json';
+  }
+  return { kind, nullable, hasDefault };
+}
+
+// Differences between the migrated columns and the row schemas, empty when
+// types.ts is in sync. Tables listed in ignore (e.g. the migrations table)
+// are skipped.
+export function compareSchema(columns: SchemaColumn[], ignore: string[] = []): string[] {
+  const problems: string[] = [];
+  const tables = new Map<string, SchemaColumn[]>();
+
+  columns.forEach(column => {
+    if (ignore.includes(column.table_name)) return;
+    tables.set(column.table_name, [...(tables.get(column.table_name) ?? []), column]);
+  });
+
+  for (const [table, tableColumns] of tables) {
+    const rowType = TABLE_TYPES[table];
+    if (!rowType) {
+      problems.push(`Table ${table} has no row schema in types.ts`);
+      continue;
+    }
+
+    const shape = rowType.shape as Record<string, z.ZodTypeAny>;
+    for (const column of tableColumns) {
+      const name = `${table}.${column.column_name}`;
+      const field = shape[column.column_name];
+      if (!field) {
+        problems.push(`${name} is missing from types.ts`);
+        continue;
+      }
+
+      const { kind, nullable, hasDefault } = describe(field);
+      const expected = COLUMN_KINDS[column.data_type];
+      if (!expected) {
+        problems.push(`${name} has unsupported type ${column.data_type}`);
+      } else if (kind !== expected) {
+        problems.push(`${name} is ${column.data_type} but ${kind ?? 'unknown'} in types.ts`);
+      }
+
+      if (!column.nullable && nullable) {
+        problems.push(`${name} is NOT NULL but nullable in types.ts`);
+      } else if (column.nullable && !column.has_default && !nullable && !hasDefault) {
+        problems.push(`${name} is nullable but neither nullable nor defaulted in types.ts`);
+      }
+    }
+
+    const columnNames = new Set(tableColumns.map(column => column.column_name));
+    Object.keys(shape)
+      .filter(key => !columnNames.has(key))
+      .forEach(key => problems.push(`${table}.${key} is in types.ts but not in the schema`));
+  }
+
+  Object.keys(TABLE_TYPES)
+    .filter(table => !tables.has(table))
+    .forEach(table => problems.push(`Table ${table} is in types.ts but not in the schema`));
+
+  return problems;
+}
+
+export async function readSchemaColumns(db: PostgresDatabase): Promise<SchemaColumn[]> {
+  return db.query<SchemaColumn>(
+    'Reading schema',
+    `SELECT c.table_name, c.column_name, c.data_type,
+       c.is_nullable = 'YES' AS nullable, c.column_default IS NOT NULL AS has_default
+     FROM information_schema.columns c
+     JOIN information_schema.tables t
+       ON t.table_schema = c.table_schema AND t.table_name = c.table_name
+     WHERE c.table_schema = 'public' AND t.table_type = 'BASE TABLE'
+     ORDER BY c.table_name, c.ordinal_position`,
+  );
+}
+
+// Compares src/types.ts against a migrated database
+export async function checkTypesSync(
+  db: PostgresDatabase,
+  migrationsTable = 'schema_migrations',
+): Promise<string[]> {
+  return compareSchema(await readSchemaColumns(db), [migrationsTable]);
+}
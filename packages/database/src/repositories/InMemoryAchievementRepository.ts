@@ -0,0 +1,49 @@
+import type { AchievementRepository } from '../client';
+import { ConflictError, ConstraintViolationError } from '../errors';
+import { DatabaseAchievement, DatabaseUserAchievement } from '../types';
+import { MemoryDatabase } from './MemoryDatabase';
+
+export class InMemoryAchievementRepository implements AchievementRepository {
+  constructor(private readonly db: MemoryDatabase) {}
+
+  async findAll(): Promise<DatabaseAchievement[]> {
+    return [...this.db.tables.achievements].sort((a, b) => a.category.localeCompare(b.category));
+  }
+
+  async findById(id: string): Promise<DatabaseAchievement | null> {
+    return this.db.tables.achievements.find(achievement => achievement.id === id) ?? null;
+  }
+
+  async findByUser(userId: string): Promise<DatabaseUserAchievement[]> {
+    return this.db.tables.user_achievements
+      .filter(row => row.user_id === userId)
+      .sort((a, b) => b.unlocked_at.localeCompare(a.unlocked_at));
+  }
+
+  // Unlocking twice raises a ConflictError
+  async unlock(
+    userId: string,
+    achievementId: string,
+    context: Record<string, unknown> = {},
+  ): Promise<DatabaseUserAchievement> {
+    const unlocked = this.db.tables.user_achievements;
+
+    if (!(await this.findById(achievementId))) {
+      throw new ConstraintViolationError(`Unknown achievement: ${achievementId}`);
+    }
+    if (unlocked.some(row => row.user_id === userId && row.achievement_id === achievementId)) {
+      throw new ConflictError(`Achievement ${achievementId} already unlocked for ${userId}`);
+    }
+
+    const row: DatabaseUserAchievement = {
+      user_id: userId,
+      achievement_id: achievementId,
+      unlocked_at: new Date().toISOString(),
+      context,
+    };
+    unlocked.push(row);
+    this.db.save();
+
+    return row;
+  }
+}
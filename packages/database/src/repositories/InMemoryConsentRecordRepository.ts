@@ -0,0 +1,36 @@
+import { ConsentRecord } from '@data-snack/core';
+import type { ConsentRecordRepository, SubjectQuery } from '../client';
+import { toConsentRecord } from '../mappers';
+import { DatabaseConsentRecord, InsertConsentRecord } from '../types';
+import { MemoryDatabase } from './MemoryDatabase';
+
+export class InMemoryConsentRecordRepository implements ConsentRecordRepository {
+  constructor(private readonly db: MemoryDatabase) {}
+
+  async create(record: InsertConsentRecord): Promise<ConsentRecord> {
+    const row: DatabaseConsentRecord = {
+      ...record,
+      id: crypto.randomUUID(),
+      recorded_at: new Date().toISOString(),
+    };
+    this.db.tables.consent_records.push(row);
+    this.db.save();
+
+    return toConsentRecord(row);
+  }
+
+  async findBySubject(
+    { userId, sessionId }: SubjectQuery,
+    limit: number = 100,
+  ): Promise<ConsentRecord[]> {
+    if (!sessionId) return [];
+
+    return this.db.tables.consent_records
+      .filter(
+        row => row.session_id === sessionId && (row.user_id === null || row.user_id === userId),
+      )
+      .sort((a, b) => b.recorded_at.localeCompare(a.recorded_at))
+      .slice(0, limit)
+      .map(toConsentRecord);
+  }
+}
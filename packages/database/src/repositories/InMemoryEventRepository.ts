@@ -0,0 +1,126 @@
+import { EventType, GrantedConsent, TrackingEvent } from '@data-snack/core';
+import type {
+  BulkInsertResult,
+  EventRepository,
+  EventSummary,
+  NewEvent,
+  SubjectQuery,
+} from '../client';
+import { ConflictError } from '../errors';
+import { fromTrackingEvent, toTrackingEvent } from '../mappers';
+import { DatabaseEvent } from '../types';
+import { insertEach } from './bulkInsert';
+import { MemoryDatabase } from './MemoryDatabase';
+
+const byTimeDescending = (a: DatabaseEvent, b: DatabaseEvent) => b.time.localeCompare(a.time);
+
+export class InMemoryEventRepository implements EventRepository {
+  constructor(private readonly db: MemoryDatabase) {}
+
+  async create(
+    event: TrackingEvent,
+    consentState: GrantedConsent | null = null,
+  ): Promise<TrackingEvent> {
+    const { events } = this.db.tables;
+    const row = fromTrackingEvent(event, consentState);
+    const id = row.id ?? crypto.randomUUID();
+    const time = row.time ?? new Date().toISOString();
+
+    // Ids are unique on their own, like event_ids in Postgres
+    if (events.some(existing => existing.id === id)) {
+      throw new ConflictError(`Event already stored: ${id}`);
+    }
+
+    const stored: DatabaseEvent = {
+      ...row,
+      id,
+      time,
+      server_timestamp: row.server_timestamp ?? new Date().toISOString(),
+    };
+    events.push(stored);
+    this.db.save();
+
+    return toTrackingEvent(stored);
+  }
+
+  async createMany(events: NewEvent[]): Promise<BulkInsertResult> {
+    return insertEach(
+      events.map(({ event }) => event.id),
+      async index => {
+        const { event, consentState } = events[index] as NewEvent;
+        try {
+          await this.create(event, consentState ?? null);
+          return true;
+        } catch (error) {
+          if (error instanceof ConflictError) return false;
+          throw error;
+        }
+      },
+    );
+  }
+
+  async findByUser(userId: string, limit?: number): Promise<TrackingEvent[]> {
+    const rows = this.db.tables.events.filter(row => row.user_id === userId).sort(byTimeDescending);
+    return rows.slice(0, limit).map(toTrackingEvent);
+  }
+
+  async findBySession(sessionId: string): Promise<TrackingEvent[]> {
+    return this.db.tables.events
+      .filter(row => row.session_id === sessionId)
+      .sort((a, b) => byTimeDescending(b, a))
+      .map(toTrackingEvent);
+  }
+
+  async findLatest(
+    type: EventType,
+    { userId, sessionId }: SubjectQuery,
+  ): Promise<TrackingEvent | null> {
+    if (!userId && !sessionId) return null;
+
+    const [latest] = this.db.tables.events
+      .filter(
+        row =>
+          row.event_type === type &&
+          (userId ? row.user_id === userId : row.session_id === sessionId),
+      )
+      .sort(byTimeDescending);
+    return latest ? toTrackingEvent(latest) : null;
+  }
+
+  async summarize(since: Date): Promise<EventSummary> {
+    const from = since.getTime();
+    const rows = this.db.tables.events.filter(row => new Date(row.time).getTime() >= from);
+
+    const eventTypes: Record<string, number> = {};
+    rows.forEach(row => {
+      eventTypes[row.event_type] = (eventTypes[row.event_type] || 0) + 1;
+    });
+
+    const consentRows = rows.filter(row => row.event_type === 'consent_change');
+    const granted = (category: string) =>
+      consentRows.filter(row => row.consent_state?.[category] === true).length;
+
+    return {
+      totalEvents: rows.length,
+      uniqueUsers: new Set(rows.map(row => row.user_id).filter(Boolean)).size,
+      eventTypes,
+      consent: {
+        total: consentRows.length,
+        analytics: granted('analytics'),
+        marketing: granted('marketing'),
+        personalization: granted('personalization'),
+      },
+    };
+  }
+
+  async anonymize(userId: string): Promise<void> {
+    this.db.tables.events.forEach(row => {
+      if (row.user_id !== userId) return;
+      row.user_id = null;
+      row.ip_address = null;
+      row.user_agent = null;
+      row.is_anonymous = true;
+    });
+    this.db.save();
+  }
+}
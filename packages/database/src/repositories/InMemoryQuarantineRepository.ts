@@ -0,0 +1,25 @@
+import type { QuarantineRepository } from '../client';
+import { DatabaseQuarantinedEvent, InsertQuarantinedEvent } from '../types';
+import { MemoryDatabase } from './MemoryDatabase';
+
+export class InMemoryQuarantineRepository implements QuarantineRepository {
+  constructor(private readonly db: MemoryDatabase) {}
+
+  async createMany(events: InsertQuarantinedEvent[]): Promise<void> {
+    const table = this.db.tables.quarantined_events;
+    const quarantinedAt = new Date().toISOString();
+
+    events.forEach(event => {
+      if (table.some(row => row.id === event.id)) return;
+      table.push({ ...event, quarantined_at: quarantinedAt });
+    });
+    this.db.save();
+  }
+
+  async findRecent(limit: number = 100, eventType?: string): Promise<DatabaseQuarantinedEvent[]> {
+    return this.db.tables.quarantined_events
+      .filter(row => !eventType || row.event_type === eventType)
+      .sort((a, b) => b.quarantined_at.localeCompare(a.quarantined_at))
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,73 @@
+import { AnalysisResult, SnackSession } from '@data-snack/core';
+import type { SnackSessionRepository } from '../client';
+import { ConflictError, NotFoundError } from '../errors';
+import { fromSnackSession, toSnackSession, toSnackSessionUpdate } from '../mappers';
+import { MemoryDatabase } from './MemoryDatabase';
+
+export class InMemorySnackSessionRepository implements SnackSessionRepository {
+  constructor(private readonly db: MemoryDatabase) {}
+
+  async create(session: SnackSession): Promise<SnackSession> {
+    const sessions = this.db.tables.snack_sessions;
+    if (sessions.some(row => row.id === session.id)) {
+      throw new ConflictError(`Snack session already exists: ${session.id}`);
+    }
+    this.assertShareTokenFree(session);
+
+    const row = fromSnackSession(session);
+    const stored = {
+      ...row,
+      id: session.id,
+      started_at: row.started_at ?? new Date().toISOString(),
+    };
+    sessions.push(stored);
+    this.db.save();
+
+    return toSnackSession(stored);
+  }
+
+  async findById(id: string): Promise<SnackSession | null> {
+    const row = this.db.tables.snack_sessions.find(session => session.id === id);
+    return row ? toSnackSession(row) : null;
+  }
+
+  async findByUser(userId: string): Promise<SnackSession[]> {
+    return this.db.tables.snack_sessions
+      .filter(row => row.user_id === userId)
+      .sort((a, b) => b.started_at.localeCompare(a.started_at))
+      .map(toSnackSession);
+  }
+
+  async findByShareToken(token: string): Promise<SnackSession | null> {
+    const row = this.db.tables.snack_sessions.find(session => session.share_token === token);
+    return row ? toSnackSession(row) : null;
+  }
+
+  async update(session: SnackSession): Promise<SnackSession> {
+    const sessions = this.db.tables.snack_sessions;
+    const index = sessions.findIndex(row => row.id === session.id);
+    const existing = sessions[index];
+    if (!existing) throw new NotFoundError('Snack session', session.id);
+    this.assertShareTokenFree(session);
+
+    sessions[index] = { ...existing, ...toSnackSessionUpdate(session) };
+    this.db.save();
+
+    return toSnackSession(sessions[index]);
+  }
+
+  async complete(id: string, analysis: AnalysisResult, xpEarned = 0): Promise<SnackSession> {
+    const session = await this.findById(id);
+    if (!session) throw new NotFoundError('Snack session', id);
+
+    return this.update(session.complete(analysis, xpEarned));
+  }
+
+  private assertShareTokenFree(session: SnackSession): void {
+    const taken = this.db.tables.snack_sessions.some(
+      row =>
+        row.id !== session.id && row.share_token !== null && row.share_token === session.shareToken,
+    );
+    if (taken) throw new ConflictError(`Share token already in use: ${session.shareToken}`);
+  }
+}
@@ -0,0 +1,99 @@
+import { User } from '@data-snack/core';
+import type { UserRepository } from '../client';
+import { ConflictError, NotFoundError } from '../errors';
+import { fromUser, toUser, toUserUpdate } from '../mappers';
+import { MemoryDatabase } from './MemoryDatabase';
+
+export class InMemoryUserRepository implements UserRepository {
+  constructor(private readonly db: MemoryDatabase) {}
+
+  async findById(id: string): Promise<User | null> {
+    const row = this.db.tables.users.find(user => user.id === id);
+    return row ? toUser(row) : null;
+  }
+
+  async findByFingerprint(fingerprint: string): Promise<User | null> {
+    const row = this.db.tables.users.find(user => user.fingerprint_hash === fingerprint);
+    return row ? toUser(row) : null;
+  }
+
+  async create(user: User): Promise<User> {
+    const { users } = this.db.tables;
+    if (users.some(row => row.id === user.id || row.fingerprint_hash === user.fingerprint)) {
+      throw new ConflictError(`User already exists: ${user.id}`);
+    }
+
+    const now = new Date().toISOString();
+    const row = fromUser(user);
+    users.push({
+      ...row,
+      id: user.id,
+      created_at: row.created_at ?? now,
+      updated_at: now,
+      last_seen_at: row.last_seen_at ?? now,
+    });
+    this.db.save();
+
+    return this.findById(user.id) as Promise<User>;
+  }
+
+  async update(user: User): Promise<User> {
+    const { users } = this.db.tables;
+    const index = users.findIndex(row => row.id === user.id);
+    const existing = users[index];
+    if (!existing) throw new NotFoundError('User', user.id);
+
+    const updates = toUserUpdate(user);
+    if (
+      users.some(row => row.id !== user.id && row.fingerprint_hash === updates.fingerprint_hash)
+    ) {
+      throw new ConflictError(`Fingerprint already in use: ${user.fingerprint}`);
+    }
+
+    users[index] = { ...existing, ...updates, updated_at: new Date().toISOString() };
+    this.db.save();
+
+    return toUser(users[index]);
+  }
+
+  // Cascades like the foreign keys in schema.sql
+  async delete(id: string): Promise<void> {
+    const { tables } = this.db;
+    tables.users = tables.users.filter(row => row.id !== id);
+    tables.events = tables.events.filter(row => row.user_id !== id);
+    tables.snack_sessions = tables.snack_sessions.filter(row => row.user_id !== id);
+    tables.user_achievements = tables.user_achievements.filter(row => row.user_id !== id);
+    tables.consent_records.forEach(row => {
+      if (row.user_id === id) row.user_id = null;
+    });
+    this.db.save();
+  }
+
+  // Mirrors anonymize_user_data() in schema.sql
+  async anonymize(id: string): Promise<void> {
+    const { tables } = this.db;
+
+    tables.users.forEach(row => {
+      if (row.id !== id) return;
+      row.fingerprint_hash = `anonymized-${id}`;
+      row.consent_ip_address = null;
+      row.anonymized_at = new Date().toISOString();
+    });
+
+    tables.events.forEach(row => {
+      if (row.user_id !== id) return;
+      row.user_id = null;
+      row.ip_address = null;
+      row.user_agent = row.user_agent?.split(' ')[0] ?? null;
+      row.is_anonymous = true;
+    });
+
+    tables.snack_sessions.forEach(row => {
+      if (row.user_id !== id) return;
+      delete row.raw_data.personal_info;
+      delete row.processed_data.personal_info;
+    });
+
+    this.db.save();
+  }
+}
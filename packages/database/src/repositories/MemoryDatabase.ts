@@ -0,0 +1,72 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { InvalidDataError } from '../errors';
+import {
+  DatabaseAchievement,
+  DatabaseConsentRecord,
+  DatabaseEvent,
+  DatabaseQuarantinedEvent,
+  DatabaseSnackSession,
+  DatabaseUser,
+  DatabaseUserAchievement,
+} from '../types';
+
+export interface MemoryTables {
+  users: DatabaseUser[];
+  events: DatabaseEvent[];
+  snack_sessions: DatabaseSnackSession[];
+  achievements: DatabaseAchievement[];
+  user_achievements: DatabaseUserAchievement[];
+  consent_records: DatabaseConsentRecord[];
+  quarantined_events: DatabaseQuarantinedEvent[];
+}
+
+// Table rows held in memory for local development and tests, optionally
+// persisted to a JSON file. Primary keys and unique columns are enforced,
+// foreign keys are not.
+export class MemoryDatabase {
+  readonly tables: MemoryTables;
+
+  constructor(
+    initial: Partial<MemoryTables> = {},
+    private readonly filePath?: string,
+  ) {
+    this.tables = {
+      users: initial.users ?? [],
+      events: initial.events ?? [],
+      snack_sessions: initial.snack_sessions ?? [],
+      achievements: initial.achievements ?? [],
+      user_achievements: initial.user_achievements ?? [],
+      consent_records: initial.consent_records ?? [],
+      quarantined_events: initial.quarantined_events ?? [],
+    };
+  }
+
+  static fromFile(filePath: string): MemoryDatabase {
+    if (!existsSync(filePath)) return new MemoryDatabase({}, filePath);
+
+    try {
+      return new MemoryDatabase(JSON.parse(readFileSync(filePath, 'utf8')), filePath);
+    } catch (error) {
+      throw new InvalidDataError(`Could not read database file ${filePath}`, error);
+    }
+  }
+
+  // Called after every write, a no-op without a file
+  save(): void {
+    if (!this.filePath) return;
+
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const temporary = `${this.filePath}.tmp`;
+    writeFileSync(temporary, JSON.stringify(this.tables));
+    renameSync(temporary, this.filePath);
+  }
+
+  // Reset every table, handy between tests
+  clear(): void {
+    (Object.keys(this.tables) as Array<keyof MemoryTables>).forEach(table => {
+      this.tables[table].length = 0;
+    });
+    this.save();
+  }
+}
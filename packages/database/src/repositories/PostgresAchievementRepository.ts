@@ -0,0 +1,50 @@
+import type { AchievementRepository } from '../client';
+import { DatabaseAchievement, DatabaseUserAchievement } from '../types';
+import { PostgresDatabase, insertStatement } from './PostgresDatabase';
+
+export class PostgresAchievementRepository implements AchievementRepository {
+  constructor(private readonly db: PostgresDatabase) {}
+
+  async findAll(): Promise<DatabaseAchievement[]> {
+    return this.db.query<DatabaseAchievement>(
+      'Listing achievements',
+      'SELECT * FROM achievements ORDER BY category',
+    );
+  }
+
+  async findById(id: string): Promise<DatabaseAchievement | null> {
+    const [row] = await this.db.query<DatabaseAchievement>(
+      'Finding achievement',
+      'SELECT * FROM achievements WHERE id = $1',
+      [id],
+    );
+    return row ?? null;
+  }
+
+  async findByUser(userId: string): Promise<DatabaseUserAchievement[]> {
+    return this.db.query<DatabaseUserAchievement>(
+      'Finding user achievements',
+      'SELECT * FROM user_achievements WHERE user_id = $1 ORDER BY unlocked_at DESC',
+      [userId],
+    );
+  }
+
+  // Unlocking twice raises a ConflictError
+  async unlock(
+    userId: string,
+    achievementId: string,
+    context: Record<string, unknown> = {},
+  ): Promise<DatabaseUserAchievement> {
+    const { text, values } = insertStatement('user_achievements', {
+      user_id: userId,
+      achievement_id: achievementId,
+      context,
+    });
+    const [row] = await this.db.query<DatabaseUserAchievement>(
+      'Unlocking achievement',
+      text,
+      values,
+    );
+    return row as DatabaseUserAchievement;
+  }
+}
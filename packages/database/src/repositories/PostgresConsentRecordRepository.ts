@@ -0,0 +1,31 @@
+import { ConsentRecord } from '@data-snack/core';
+import type { ConsentRecordRepository, SubjectQuery } from '../client';
+import { toConsentRecord } from '../mappers';
+import { DatabaseConsentRecord, InsertConsentRecord } from '../types';
+import { PostgresDatabase, insertStatement } from './PostgresDatabase';
+
+export class PostgresConsentRecordRepository implements ConsentRecordRepository {
+  constructor(private readonly db: PostgresDatabase) {}
+
+  async create(record: InsertConsentRecord): Promise<ConsentRecord> {
+    const { text, values } = insertStatement('consent_records', record);
+    const [row] = await this.db.query<DatabaseConsentRecord>('Recording consent', text, values);
+    return toConsentRecord(row as DatabaseConsentRecord);
+  }
+
+  async findBySubject(
+    { userId, sessionId }: SubjectQuery,
+    limit: number = 100,
+  ): Promise<ConsentRecord[]> {
+    if (!sessionId) return [];
+
+    const rows = await this.db.query<DatabaseConsentRecord>(
+      'Loading consent history',
+      `SELECT * FROM consent_records
+       WHERE session_id = $1 AND (user_id IS NULL OR user_id = $2)
+       ORDER BY recorded_at DESC LIMIT $3`,
+      [sessionId, userId ?? null, limit],
+    );
+    return rows.map(toConsentRecord);
+  }
+}
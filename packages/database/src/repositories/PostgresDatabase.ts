@@ -0,0 +1,139 @@
+import { CustomTypesConfig, Pool, PoolClient, QueryResultRow, types } from 'pg';
+import { toRepositoryError } from '../errors';
+
+export interface PostgresConfig {
+  connectionString: string;
+  maxConnections?: number;
+  idleTimeoutMs?: number;
+  connectionTimeoutMs?: number;
+  statementTimeoutMs?: number;
+  ssl?: boolean;
+}
+
+// Timestamps as ISO strings and DECIMAL as numbers, so rows match the
+// Database* types returned by Supabase
+const rowTypes: CustomTypesConfig = {
+  getTypeParser: ((oid: number, format?: 'text' | 'binary') => {
+    switch (oid) {
+      case types.builtins.TIMESTAMPTZ:
+        return (value: string) => new Date(value).toISOString();
+      case types.builtins.NUMERIC:
+        return (value: string) => parseFloat(value);
+      default:
+        return types.getTypeParser(oid, format);
+    }
+  }) as CustomTypesConfig['getTypeParser'],
+};
+
+// Connection pool plus the query helpers the Postgres repositories share.
+// Queries are always parametrized, identifiers only ever come from our mappers.
+export class PostgresDatabase {
+  readonly pool: Pool;
+
+  constructor(config: PostgresConfig) {
+    this.pool = new Pool({
+      connectionString: config.connectionString,
+      max: config.maxConnections ?? 10,
+      idleTimeoutMillis: config.idleTimeoutMs ?? 30_000,
+      connectionTimeoutMillis: config.connectionTimeoutMs ?? 5_000,
+      statement_timeout: config.statementTimeoutMs ?? 10_000,
+      ssl: config.ssl ? { rejectUnauthorized: false } : undefined,
+      types: rowTypes,
+    });
+
+    // An idle client losing its connection must not crash the process
+    this.pool.on('error', error => {
+      console.error('[Postgres] Idle client error:', error.message);
+    });
+  }
+
+  async query<T extends QueryResultRow>(
+    operation: string,
+    text: string,
+    values: unknown[] = [],
+  ): Promise<T[]> {
+    try {
+      const result = await this.pool.query<T>(text, values);
+      return result.rows;
+    } catch (error) {
+      throw toRepositoryError(error as { message: string; code?: string }, operation);
+    }
+  }
+
+  // Runs fn on a dedicated client, inside a transaction
+  async transaction<T>(operation: string, fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    let client: PoolClient;
+    try {
+      client = await this.pool.connect();
+    } catch (error) {
+      throw toRepositoryError(error as { message: string; code?: string }, operation);
+    }
+
+    try {
+      await client.query('BEGIN');
+      const result = await fn(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw toRepositoryError(error as { message: string; code?: string }, operation);
+    } finally {
+      client.release();
+    }
+  }
+
+  close(): Promise<void> {
+    return this.pool.end();
+  }
+}
+
+type Row = Record<string, unknown>;
+
+const column = (name: string) => `"${name}"`;
+
+export function insertStatement(table: string, row: Row): { text: string; values: unknown[] } {
+  const columns = Object.keys(row).filter(name => row[name] !== undefined);
+  const placeholders = columns.map((_, index) => `$${index + 1}`);
+
+  return {
+    text: `INSERT INTO ${table} (${columns.map(column).join(', ')}) VALUES (${placeholders.join(', ')}) RETURNING *`,
+    values: columns.map(name => row[name]),
+  };
+}
+
+// Multi-row insert, every row must have the given columns
+export function insertManyStatement(
+  table: string,
+  columns: string[],
+  rows: Row[],
+): { text: string; values: unknown[] } {
+  const values: unknown[] = [];
+  const tuples = rows.map(row => {
+    const placeholders = columns.map(name => {
+      values.push(row[name]);
+      return `$${values.length}`;
+    });
+    return `(${placeholders.join(', ')})`;
+  });
+
+  return {
+    text: `INSERT INTO ${table} (${columns.map(column).join(', ')}) VALUES ${tuples.join(', ')}`,
+    values,
+  };
+}
+
+// UPDATE ... WHERE <key> = $1, undefined fields are left alone
+export function updateStatement(
+  table: string,
+  key: string,
+  id: string,
+  updates: Row,
+): { text: string; values: unknown[] } {
+  const columns = Object.keys(updates).filter(name => updates[name] !== undefined);
+  const assignments = columns.map((name, index) => `${column(name)} = $${index + 2}`);
+
+  return {
+    text: `UPDATE ${table} SET ${assignments.join(', ')} WHERE ${column(key)} = $1 RETURNING *`,
+    values: [id, ...columns.map(name => updates[name])],
+  };
+}
@@ -0,0 +1,261 @@
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { PoolClient } from 'pg';
+import { from as copyFrom } from 'pg-copy-streams';
+import { EventType, GrantedConsent, TrackingEvent } from '@data-snack/core';
+import type {
+  BulkInsertResult,
+  EventRepository,
+  EventSummary,
+  NewEvent,
+  SubjectQuery,
+} from '../client';
+import { ConstraintViolationError } from '../errors';
+import { fromTrackingEvent, toTrackingEvent } from '../mappers';
+import { DatabaseEvent, InsertEvent } from '../types';
+import { insertEach, toBulkInsertResult } from './bulkInsert';
+import { PostgresDatabase, insertManyStatement, insertStatement } from './PostgresDatabase';
+
+export interface EventBucket {
+  bucket: string;
+  eventType: string;
+  count: number;
+}
+
+export interface PostgresEventOptions {
+  // Batches at least this large are streamed with COPY instead of INSERT
+  copyThreshold?: number;
+}
+
+const EVENT_COLUMNS = [
+  'time',
+  'id',
+  'user_id',
+  'session_id',
+  'event_type',
+  'event_name',
+  'properties',
+  'context',
+  'server_timestamp',
+  'ip_address',
+  'user_agent',
+  'is_anonymous',
+  'consent_state',
+] as const;
+
+// Keeps a multi-row INSERT well below the 65535 parameter limit
+const INSERT_CHUNK_SIZE = 1000;
+
+export class PostgresEventRepository implements EventRepository {
+  private copyThreshold: number;
+
+  constructor(
+    private readonly db: PostgresDatabase,
+    options: PostgresEventOptions = {},
+  ) {
+    this.copyThreshold = options.copyThreshold ?? 500;
+  }
+
+  // A repeated id fails on event_ids with a ConflictError
+  async create(
+    event: TrackingEvent,
+    consentState: GrantedConsent | null = null,
+  ): Promise<TrackingEvent> {
+    return this.db.transaction('Storing event', async client => {
+      await client.query('INSERT INTO event_ids (id) VALUES ($1)', [event.id]);
+
+      const { text, values } = insertStatement('events', fromTrackingEvent(event, consentState));
+      const { rows } = await client.query<DatabaseEvent>(text, values);
+      return toTrackingEvent(rows[0] as DatabaseEvent);
+    });
+  }
+
+  // One transaction, COPY for large batches and multi-row INSERTs otherwise.
+  // Events whose id is already in event_ids are skipped.
+  async createMany(events: NewEvent[]): Promise<BulkInsertResult> {
+    const now = new Date().toISOString();
+    const rows = events.map(({ event, consentState }) =>
+      completeRow(fromTrackingEvent(event, consentState ?? null), now),
+    );
+    const ids = rows.map(row => row.id);
+
+    try {
+      return toBulkInsertResult(ids, await this.insertRows(rows));
+    } catch (error) {
+      if (!(error instanceof ConstraintViolationError)) throw error;
+    }
+
+    return insertEach(ids, async index => {
+      const fresh = await this.db.transaction('Storing event', client =>
+        insertFresh(client, [rows[index] as DatabaseEvent]),
+      );
+      return fresh.size > 0;
+    });
+  }
+
+  // Resolves to the ids actually inserted
+  private async insertRows(rows: DatabaseEvent[]): Promise<Set<string>> {
+    if (rows.length === 0) return new Set();
+
+    return this.db.transaction('Storing events', async client => {
+      if (rows.length < this.copyThreshold) {
+        const inserted = new Set<string>();
+        for (let start = 0; start < rows.length; start += INSERT_CHUNK_SIZE) {
+          const fresh = await insertFresh(client, rows.slice(start, start + INSERT_CHUNK_SIZE));
+          fresh.forEach(id => inserted.add(id));
+        }
+        return inserted;
+      }
+
+      // COPY can't skip known ids, so it goes through a staging table
+      const columns = EVENT_COLUMNS.join(', ');
+      await client.query(
+        'CREATE TEMP TABLE events_staging (LIKE events INCLUDING DEFAULTS) ON COMMIT DROP',
+      );
+      const copy = client.query(
+        copyFrom(`COPY events_staging (${columns}) FROM STDIN WITH (FORMAT csv)`),
+      );
+      await pipeline(Readable.from(rows.map(toCsvLine)), copy);
+
+      const result = await client.query<{ id: string }>(
+        `WITH fresh AS (
+           INSERT INTO event_ids (id) SELECT DISTINCT id FROM events_staging
+           ON CONFLICT DO NOTHING RETURNING id
+         )
+         INSERT INTO events (${columns})
+         SELECT DISTINCT ON (id) ${columns} FROM events_staging WHERE id IN (SELECT id FROM fresh)
+         RETURNING id`,
+      );
+      return new Set(result.rows.map(row => row.id));
+    });
+  }
+
+  async findByUser(userId: string, limit?: number): Promise<TrackingEvent[]> {
+    const rows = await this.db.query<DatabaseEvent>(
+      'Finding events by user',
+      'SELECT * FROM events WHERE user_id = $1 ORDER BY time DESC LIMIT $2',
+      [userId, limit ?? null],
+    );
+    return rows.map(toTrackingEvent);
+  }
+
+  async findBySession(sessionId: string): Promise<TrackingEvent[]> {
+    const rows = await this.db.query<DatabaseEvent>(
+      'Finding events by session',
+      'SELECT * FROM events WHERE session_id = $1 ORDER BY time ASC',
+      [sessionId],
+    );
+    return rows.map(toTrackingEvent);
+  }
+
+  async findLatest(
+    type: EventType,
+    { userId, sessionId }: SubjectQuery,
+  ): Promise<TrackingEvent | null> {
+    if (!userId && !sessionId) return null;
+
+    const [row] = await this.db.query<DatabaseEvent>(
+      'Finding latest event',
+      `SELECT * FROM events WHERE event_type = $1 AND ${userId ? 'user_id' : 'session_id'} = $2
+       ORDER BY time DESC LIMIT 1`,
+      [type, userId || sessionId],
+    );
+    return row ? toTrackingEvent(row) : null;
+  }
+
+  // Exact counts, unlike the sampled Supabase summary
+  async summarize(since: Date): Promise<EventSummary> {
+    const [totals, types, consent] = await Promise.all([
+      this.db.query<{ total_events: number; unique_users: number }>(
+        'Summarizing events',
+        `SELECT count(*)::int AS total_events, count(DISTINCT user_id)::int AS unique_users
+         FROM events WHERE time >= $1`,
+        [since],
+      ),
+      this.db.query<{ event_type: string; count: number }>(
+        'Summarizing events',
+        `SELECT event_type, count(*)::int AS count
+         FROM events WHERE time >= $1 GROUP BY event_type`,
+        [since],
+      ),
+      this.db.query<EventSummary['consent']>(
+        'Summarizing events',
+        `SELECT count(*)::int AS total,
+           count(*) FILTER (WHERE consent_state->>'analytics' = 'true')::int AS analytics,
+           count(*) FILTER (WHERE consent_state->>'marketing' = 'true')::int AS marketing,
+           count(*) FILTER (WHERE consent_state->>'personalization' = 'true')::int AS personalization
+         FROM events WHERE event_type = 'consent_change' AND time >= $1`,
+        [since],
+      ),
+    ]);
+
+    return {
+      totalEvents: totals[0]?.total_events ?? 0,
+      uniqueUsers: totals[0]?.unique_users ?? 0,
+      eventTypes: Object.fromEntries(types.map(row => [row.event_type, row.count])),
+      consent: consent[0] ?? { total: 0, analytics: 0, marketing: 0, personalization: 0 },
+    };
+  }
+
+  // Event counts per TimescaleDB time_bucket, e.g. interval '15 minutes'
+  async timeBuckets(since: Date, interval: string, eventType?: string): Promise<EventBucket[]> {
+    const rows = await this.db.query<{ bucket: string; event_type: string; count: number }>(
+      'Bucketing events',
+      `SELECT time_bucket($1::interval, time) AS bucket, event_type, count(*)::int AS count
+       FROM events
+       WHERE time >= $2 AND ($3::text IS NULL OR event_type = $3)
+       GROUP BY bucket, event_type
+       ORDER BY bucket`,
+      [interval, since, eventType ?? null],
+    );
+    return rows.map(row => ({ bucket: row.bucket, eventType: row.event_type, count: row.count }));
+  }
+
+  async anonymize(userId: string): Promise<void> {
+    await this.db.query(
+      'Anonymizing events',
+      `UPDATE events SET user_id = NULL, ip_address = NULL, user_agent = NULL, is_anonymous = TRUE
+       WHERE user_id = $1`,
+      [userId],
+    );
+  }
+}
+
+// Claims the ids in event_ids first and stores only the rows whose id was
+// new, the first one for an id repeated within the batch
+async function insertFresh(client: PoolClient, rows: DatabaseEvent[]): Promise<Set<string>> {
+  const claimed = await client.query<{ id: string }>(
+    'INSERT INTO event_ids (id) SELECT DISTINCT unnest($1::uuid[]) ON CONFLICT DO NOTHING RETURNING id',
+    [rows.map(row => row.id)],
+  );
+  const fresh = new Set(claimed.rows.map(row => row.id));
+
+  const pending = new Set(fresh);
+  const freshRows = rows.filter(row => pending.delete(row.id));
+  if (freshRows.length > 0) {
+    const { text, values } = insertManyStatement('events', [...EVENT_COLUMNS], freshRows);
+    await client.query(text, values);
+  }
+  return fresh;
+}
+
+// COPY can't fall back on column defaults, so fill them in here
+function completeRow(row: InsertEvent, now: string): DatabaseEvent {
+  return {
+    ...row,
+    id: row.id ?? crypto.randomUUID(),
+    time: row.time ?? now,
+    server_timestamp: row.server_timestamp ?? now,
+  };
+}
+
+function toCsvLine(row: DatabaseEvent): string {
+  return `${EVENT_COLUMNS.map(name => toCsvValue(row[name])).join(',')}\n`;
+}
+
+// Unquoted empty is NULL in CSV COPY, everything else is quoted
+function toCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return `"${text.replace(/"/g, '""')}"`;
+}
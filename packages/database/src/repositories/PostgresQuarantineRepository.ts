@@ -0,0 +1,35 @@
+import type { QuarantineRepository } from '../client';
+import { DatabaseQuarantinedEvent, InsertQuarantinedEvent } from '../types';
+import { PostgresDatabase, insertManyStatement } from './PostgresDatabase';
+
+const QUARANTINE_COLUMNS = [
+  'id',
+  'session_id',
+  'event_type',
+  'event_name',
+  'schema_version',
+  'payload',
+  'issues',
+];
+
+export class PostgresQuarantineRepository implements QuarantineRepository {
+  constructor(private readonly db: PostgresDatabase) {}
+
+  async createMany(events: InsertQuarantinedEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    // pg would send the issues array as a Postgres array, not as JSON
+    const rows = events.map(event => ({ ...event, issues: JSON.stringify(event.issues) }));
+    const { text, values } = insertManyStatement('quarantined_events', QUARANTINE_COLUMNS, rows);
+    await this.db.query('Quarantining events', `${text} ON CONFLICT (id) DO NOTHING`, values);
+  }
+
+  async findRecent(limit: number = 100, eventType?: string): Promise<DatabaseQuarantinedEvent[]> {
+    return this.db.query<DatabaseQuarantinedEvent>(
+      'Loading quarantined events',
+      `SELECT * FROM quarantined_events ${eventType ? 'WHERE event_type = $2' : ''}
+       ORDER BY quarantined_at DESC LIMIT $1`,
+      eventType ? [limit, eventType] : [limit],
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { AnalysisResult, SnackSession } from '@data-snack/core';
+import type { SnackSessionRepository } from '../client';
+import { NotFoundError } from '../errors';
+import { fromSnackSession, toSnackSession, toSnackSessionUpdate } from '../mappers';
+import { DatabaseSnackSession } from '../types';
+import { PostgresDatabase, insertStatement, updateStatement } from './PostgresDatabase';
+
+export class PostgresSnackSessionRepository implements SnackSessionRepository {
+  constructor(private readonly db: PostgresDatabase) {}
+
+  async create(session: SnackSession): Promise<SnackSession> {
+    const { text, values } = insertStatement('snack_sessions', fromSnackSession(session));
+    const [row] = await this.db.query<DatabaseSnackSession>('Creating snack session', text, values);
+    return toSnackSession(row as DatabaseSnackSession);
+  }
+
+  async findById(id: string): Promise<SnackSession | null> {
+    const [row] = await this.db.query<DatabaseSnackSession>(
+      'Finding snack session',
+      'SELECT * FROM snack_sessions WHERE id = $1',
+      [id],
+    );
+    return row ? toSnackSession(row) : null;
+  }
+
+  async findByUser(userId: string): Promise<SnackSession[]> {
+    const rows = await this.db.query<DatabaseSnackSession>(
+      'Finding snack sessions by user',
+      'SELECT * FROM snack_sessions WHERE user_id = $1 ORDER BY started_at DESC',
+      [userId],
+    );
+    return rows.map(toSnackSession);
+  }
+
+  async findByShareToken(token: string): Promise<SnackSession | null> {
+    const [row] = await this.db.query<DatabaseSnackSession>(
+      'Finding shared snack session',
+      'SELECT * FROM snack_sessions WHERE share_token = $1',
+      [token],
+    );
+    return row ? toSnackSession(row) : null;
+  }
+
+  async update(session: SnackSession): Promise<SnackSession> {
+    const { text, values } = updateStatement(
+      'snack_sessions',
+      'id',
+      session.id,
+      toSnackSessionUpdate(session),
+    );
+    const [row] = await this.db.query<DatabaseSnackSession>('Updating snack session', text, values);
+
+    if (!row) throw new NotFoundError('Snack session', session.id);
+    return toSnackSession(row);
+  }
+
+  async complete(id: string, analysis: AnalysisResult, xpEarned = 0): Promise<SnackSession> {
+    const session = await this.findById(id);
+    if (!session) throw new NotFoundError('Snack session', id);
+
+    return this.update(session.complete(analysis, xpEarned));
+  }
+}
@@ -0,0 +1,54 @@
+import { User } from '@data-snack/core';
+import type { UserRepository } from '../client';
+import { NotFoundError } from '../errors';
+import { fromUser, toUser, toUserUpdate } from '../mappers';
+import { DatabaseUser } from '../types';
+import { PostgresDatabase, insertStatement, updateStatement } from './PostgresDatabase';
+
+export class PostgresUserRepository implements UserRepository {
+  constructor(private readonly db: PostgresDatabase) {}
+
+  async findById(id: string): Promise<User | null> {
+    const [row] = await this.db.query<DatabaseUser>(
+      'Finding user',
+      'SELECT * FROM users WHERE id = $1',
+      [id],
+    );
+    return row ? toUser(row) : null;
+  }
+
+  async findByFingerprint(fingerprint: string): Promise<User | null> {
+    const [row] = await this.db.query<DatabaseUser>(
+      'Finding user by fingerprint',
+      'SELECT * FROM users WHERE fingerprint_hash = $1',
+      [fingerprint],
+    );
+    return row ? toUser(row) : null;
+  }
+
+  async create(user: User): Promise<User> {
+    const { text, values } = insertStatement('users', fromUser(user));
+    const [row] = await this.db.query<DatabaseUser>('Creating user', text, values);
+    return toUser(row as DatabaseUser);
+  }
+
+  async update(user: User): Promise<User> {
+    const { text, values } = updateStatement('users', 'id', user.id, {
+      ...toUserUpdate(user),
+      updated_at: new Date().toISOString(),
+    });
+    const [row] = await this.db.query<DatabaseUser>('Updating user', text, values);
+
+    if (!row) throw new NotFoundError('User', user.id);
+    return toUser(row);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.query('Deleting user', 'DELETE FROM users WHERE id = $1', [id]);
+  }
+
+  // Anonymizes the user together with their events and snack sessions
+  async anonymize(id: string): Promise<void> {
+    await this.db.query('Anonymizing user', 'SELECT anonymize_user_data($1)', [id]);
+  }
+}
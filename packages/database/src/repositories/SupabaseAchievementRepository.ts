@@ -0,0 +1,52 @@
+import type { AchievementRepository, DatabaseClient } from '../client';
+import { toRepositoryError } from '../errors';
+import { DatabaseAchievement, DatabaseUserAchievement } from '../types';
+
+export class SupabaseAchievementRepository implements AchievementRepository {
+  constructor(private readonly db: DatabaseClient) {}
+
+  async findAll(): Promise<DatabaseAchievement[]> {
+    const { data, error } = await this.db.from('achievements').select('*').order('category');
+
+    if (error) throw toRepositoryError(error, 'Listing achievements');
+    return data;
+  }
+
+  async findById(id: string): Promise<DatabaseAchievement | null> {
+    const { data, error } = await this.db
+      .from('achievements')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw toRepositoryError(error, 'Finding achievement');
+    return data;
+  }
+
+  async findByUser(userId: string): Promise<DatabaseUserAchievement[]> {
+    const { data, error } = await this.db
+      .from('user_achievements')
+      .select('*')
+      .eq('user_id', userId)
+      .order('unlocked_at', { ascending: false });
+
+    if (error) throw toRepositoryError(error, 'Finding user achievements');
+    return data;
+  }
+
+  // Unlocking twice raises a ConflictError
+  async unlock(
+    userId: string,
+    achievementId: string,
+    context: Record<string, unknown> = {},
+  ): Promise<DatabaseUserAchievement> {
+    const { data, error } = await this.db
+      .from('user_achievements')
+      .insert({ user_id: userId, achievement_id: achievementId, context })
+      .select()
+      .single();
+
+    if (error) throw toRepositoryError(error, 'Unlocking achievement');
+    return data;
+  }
+}
@@ -0,0 +1,35 @@
+import { ConsentRecord } from '@data-snack/core';
+import type { ConsentRecordRepository, DatabaseClient, SubjectQuery } from '../client';
+import { toRepositoryError } from '../errors';
+import { toConsentRecord } from '../mappers';
+import { InsertConsentRecord } from '../types';
+
+export class SupabaseConsentRecordRepository implements ConsentRecordRepository {
+  constructor(private readonly db: DatabaseClient) {}
+
+  async create(record: InsertConsentRecord): Promise<ConsentRecord> {
+    const { data, error } = await this.db.from('consent_records').insert(record).select().single();
+
+    if (error) throw toRepositoryError(error, 'Recording consent');
+    return toConsentRecord(data);
+  }
+
+  async findBySubject(
+    { userId, sessionId }: SubjectQuery,
+    limit: number = 100,
+  ): Promise<ConsentRecord[]> {
+    if (!sessionId) return [];
+
+    // The user id is quoted, so it can't add conditions of its own
+    const { data, error } = await this.db
+      .from('consent_records')
+      .select('*')
+      .eq('session_id', sessionId)
+      .or(userId ? `user_id.is.null,user_id.eq.${JSON.stringify(userId)}` : 'user_id.is.null')
+      .order('recorded_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw toRepositoryError(error, 'Loading consent history');
+    return data.map(toConsentRecord);
+  }
+}
@@ -0,0 +1,192 @@
+import { EventType, GrantedConsent, TrackingEvent } from '@data-snack/core';
+import type {
+  BulkInsertResult,
+  DatabaseClient,
+  EventRepository,
+  EventSummary,
+  NewEvent,
+  SubjectQuery,
+} from '../client';
+import { ConstraintViolationError, toRepositoryError } from '../errors';
+import { fromTrackingEvent, toTrackingEvent } from '../mappers';
+import { InsertEvent } from '../types';
+import { insertEach, toBulkInsertResult } from './bulkInsert';
+
+// Sample sizes for the summary breakdowns, the totals are exact counts
+const CONSENT_SAMPLE = 100;
+const EVENT_TYPE_SAMPLE = 1000;
+
+export class SupabaseEventRepository implements EventRepository {
+  constructor(private readonly db: DatabaseClient) {}
+
+  // A repeated id fails on event_ids with a ConflictError
+  async create(
+    event: TrackingEvent,
+    consentState: GrantedConsent | null = null,
+  ): Promise<TrackingEvent> {
+    const { error: claimError } = await this.db.from('event_ids').insert({ id: event.id });
+    if (claimError) throw toRepositoryError(claimError, 'Storing event');
+
+    const { data, error } = await this.db
+      .from('events')
+      .insert(fromTrackingEvent(event, consentState))
+      .select()
+      .single();
+
+    if (error) {
+      await this.release([event.id]);
+      throw toRepositoryError(error, 'Storing event');
+    }
+    return toTrackingEvent(data);
+  }
+
+  // Events whose id is already in event_ids are skipped
+  async createMany(events: NewEvent[]): Promise<BulkInsertResult> {
+    const rows = events.map(({ event, consentState }) =>
+      fromTrackingEvent(event, consentState ?? null),
+    );
+    const ids = events.map(({ event }) => event.id);
+
+    try {
+      return toBulkInsertResult(ids, await this.insertFresh(rows));
+    } catch (error) {
+      if (!(error instanceof ConstraintViolationError)) throw error;
+    }
+
+    return insertEach(
+      ids,
+      async index => (await this.insertFresh([rows[index] as InsertEvent])).size > 0,
+    );
+  }
+
+  // Claims the ids in event_ids, then stores the rows whose id was new.
+  // There is no transaction across requests, so a failed insert releases
+  // its claims again.
+  private async insertFresh(rows: InsertEvent[]): Promise<Set<string>> {
+    if (rows.length === 0) return new Set();
+
+    const ids = [...new Set(rows.map(row => row.id as string))];
+    const { data, error } = await this.db
+      .from('event_ids')
+      .upsert(
+        ids.map(id => ({ id })),
+        { onConflict: 'id', ignoreDuplicates: true },
+      )
+      .select('id');
+    if (error) throw toRepositoryError(error, 'Storing events');
+
+    const fresh = new Set((data ?? []).map(row => row.id));
+    const pending = new Set(fresh);
+    const freshRows = rows.filter(row => pending.delete(row.id as string));
+    if (freshRows.length === 0) return fresh;
+
+    const { error: insertError } = await this.db.from('events').insert(freshRows);
+    if (insertError) {
+      await this.release([...fresh]);
+      throw toRepositoryError(insertError, 'Storing events');
+    }
+    return fresh;
+  }
+
+  private async release(ids: string[]): Promise<void> {
+    const { error } = await this.db.from('event_ids').delete().in('id', ids);
+    if (error) console.error('[Supabase] Failed to release event ids:', error);
+  }
+
+  async findByUser(userId: string, limit?: number): Promise<TrackingEvent[]> {
+    let query = this.db
+      .from('events')
+      .select('*')
+      .eq('user_id', userId)
+      .order('time', { ascending: false });
+    if (limit !== undefined) query = query.limit(limit);
+
+    const { data, error } = await query;
+
+    if (error) throw toRepositoryError(error, 'Finding events by user');
+    return data.map(toTrackingEvent);
+  }
+
+  async findBySession(sessionId: string): Promise<TrackingEvent[]> {
+    const { data, error } = await this.db
+      .from('events')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('time', { ascending: true });
+
+    if (error) throw toRepositoryError(error, 'Finding events by session');
+    return data.map(toTrackingEvent);
+  }
+
+  async findLatest(
+    type: EventType,
+    { userId, sessionId }: SubjectQuery,
+  ): Promise<TrackingEvent | null> {
+    if (!userId && !sessionId) return null;
+
+    const { data, error } = await this.db
+      .from('events')
+      .select('*')
+      .eq('event_type', type)
+      .eq(userId ? 'user_id' : 'session_id', (userId || sessionId) as string)
+      .order('time', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw toRepositoryError(error, 'Finding latest event');
+    return data ? toTrackingEvent(data) : null;
+  }
+
+  async summarize(since: Date): Promise<EventSummary> {
+    const from = since.toISOString();
+
+    const [events, users, consent, types] = await Promise.all([
+      this.db.from('events').select('*', { count: 'exact', head: true }).gte('time', from),
+      this.db
+        .from('events')
+        .select('user_id', { count: 'exact', head: true })
+        .gte('time', from)
+        .not('user_id', 'is', null),
+      this.db
+        .from('events')
+        .select('consent_state')
+        .eq('event_type', 'consent_change')
+        .gte('time', from)
+        .limit(CONSENT_SAMPLE),
+      this.db.from('events').select('event_type').gte('time', from).limit(EVENT_TYPE_SAMPLE),
+    ]);
+
+    const failed = events.error || users.error || consent.error || types.error;
+    if (failed) throw toRepositoryError(failed, 'Summarizing events');
+
+    const consentRows = consent.data ?? [];
+    const granted = (category: string) =>
+      consentRows.filter(row => row.consent_state?.[category] === true).length;
+
+    const eventTypes: Record<string, number> = {};
+    (types.data ?? []).forEach(row => {
+      eventTypes[row.event_type] = (eventTypes[row.event_type] || 0) + 1;
+    });
+
+    return {
+      totalEvents: events.count || 0,
+      uniqueUsers: users.count || 0,
+      eventTypes,
+      consent: {
+        total: consentRows.length,
+        analytics: granted('analytics'),
+        marketing: granted('marketing'),
+        personalization: granted('personalization'),
+      },
+    };
+  }
+
+  async anonymize(userId: string): Promise<void> {
+    const { error } = await this.db
+      .from('events')
+      .update({ user_id: null, ip_address: null, user_agent: null, is_anonymous: true })
+      .eq('user_id', userId);
+
+    if (error) throw toRepositoryError(error, 'Anonymizing events');
+  }
+}
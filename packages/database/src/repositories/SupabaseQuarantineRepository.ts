@@ -0,0 +1,27 @@
+import type { DatabaseClient, QuarantineRepository } from '../client';
+import { toRepositoryError } from '../errors';
+import { DatabaseQuarantinedEvent, InsertQuarantinedEvent } from '../types';
+
+export class SupabaseQuarantineRepository implements QuarantineRepository {
+  constructor(private readonly db: DatabaseClient) {}
+
+  async createMany(events: InsertQuarantinedEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    const { error } = await this.db
+      .from('quarantined_events')
+      .upsert(events, { onConflict: 'id', ignoreDuplicates: true });
+
+    if (error) throw toRepositoryError(error, 'Quarantining events');
+  }
+
+  async findRecent(limit: number = 100, eventType?: string): Promise<DatabaseQuarantinedEvent[]> {
+    let query = this.db.from('quarantined_events').select('*');
+    if (eventType) query = query.eq('event_type', eventType);
+
+    const { data, error } = await query.order('quarantined_at', { ascending: false }).limit(limit);
+
+    if (error) throw toRepositoryError(error, 'Loading quarantined events');
+    return data;
+  }
+}
@@ -0,0 +1,72 @@
+import { AnalysisResult, SnackSession } from '@data-snack/core';
+import type { DatabaseClient, SnackSessionRepository } from '../client';
+import { NotFoundError, toRepositoryError } from '../errors';
+import { fromSnackSession, toSnackSession, toSnackSessionUpdate } from '../mappers';
+
+export class SupabaseSnackSessionRepository implements SnackSessionRepository {
+  constructor(private readonly db: DatabaseClient) {}
+
+  async create(session: SnackSession): Promise<SnackSession> {
+    const { data, error } = await this.db
+      .from('snack_sessions')
+      .insert(fromSnackSession(session))
+      .select()
+      .single();
+
+    if (error) throw toRepositoryError(error, 'Creating snack session');
+    return toSnackSession(data);
+  }
+
+  async findById(id: string): Promise<SnackSession | null> {
+    const { data, error } = await this.db
+      .from('snack_sessions')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw toRepositoryError(error, 'Finding snack session');
+    return data ? toSnackSession(data) : null;
+  }
+
+  async findByUser(userId: string): Promise<SnackSession[]> {
+    const { data, error } = await this.db
+      .from('snack_sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('started_at', { ascending: false });
+
+    if (error) throw toRepositoryError(error, 'Finding snack sessions by user');
+    return data.map(toSnackSession);
+  }
+
+  async findByShareToken(token: string): Promise<SnackSession | null> {
+    const { data, error } = await this.db
+      .from('snack_sessions')
+      .select('*')
+      .eq('share_token', token)
+      .maybeSingle();
+
+    if (error) throw toRepositoryError(error, 'Finding shared snack session');
+    return data ? toSnackSession(data) : null;
+  }
+
+  async update(session: SnackSession): Promise<SnackSession> {
+    const { data, error } = await this.db
+      .from('snack_sessions')
+      .update(toSnackSessionUpdate(session))
+      .eq('id', session.id)
+      .select()
+      .maybeSingle();
+
+    if (error) throw toRepositoryError(error, 'Updating snack session');
+    if (!data) throw new NotFoundError('Snack session', session.id);
+    return toSnackSession(data);
+  }
+
+  async complete(id: string, analysis: AnalysisResult, xpEarned = 0): Promise<SnackSession> {
+    const session = await this.findById(id);
+    if (!session) throw new NotFoundError('Snack session', id);
+
+    return this.update(session.complete(analysis, xpEarned));
+  }
+}
@@ -0,0 +1,59 @@
+import { User } from '@data-snack/core';
+import type { DatabaseClient, UserRepository } from '../client';
+import { NotFoundError, toRepositoryError } from '../errors';
+import { fromUser, toUser, toUserUpdate } from '../mappers';
+
+export class SupabaseUserRepository implements UserRepository {
+  constructor(private readonly db: DatabaseClient) {}
+
+  async findById(id: string): Promise<User | null> {
+    const { data, error } = await this.db.from('users').select('*').eq('id', id).maybeSingle();
+
+    if (error) throw toRepositoryError(error, 'Finding user');
+    return data ? toUser(data) : null;
+  }
+
+  async findByFingerprint(fingerprint: string): Promise<User | null> {
+    const { data, error } = await this.db
+      .from('users')
+      .select('*')
+      .eq('fingerprint_hash', fingerprint)
+      .maybeSingle();
+
+    if (error) throw toRepositoryError(error, 'Finding user by fingerprint');
+    return data ? toUser(data) : null;
+  }
+
+  async create(user: User): Promise<User> {
+    const { data, error } = await this.db.from('users').insert(fromUser(user)).select().single();
+
+    if (error) throw toRepositoryError(error, 'Creating user');
+    return toUser(data);
+  }
+
+  async update(user: User): Promise<User> {
+    const { data, error } = await this.db
+      .from('users')
+      .update(toUserUpdate(user))
+      .eq('id', user.id)
+      .select()
+      .maybeSingle();
+
+    if (error) throw toRepositoryError(error, 'Updating user');
+    if (!data) throw new NotFoundError('User', user.id);
+    return toUser(data);
+  }
+
+  async delete(id: string): Promise<void> {
+    const { error } = await this.db.from('users').delete().eq('id', id);
+
+    if (error) throw toRepositoryError(error, 'Deleting user');
+  }
+
+  // Anonymizes the user together with their events and snack sessions
+  async anonymize(id: string): Promise<void> {
+    const { error } = await this.db.rpc('anonymize_user_data', { user_uuid: id });
+
+    if (error) throw toRepositoryError(error, 'Anonymizing user');
+  }
+}
@@ -0,0 +1,53 @@
+import { TrackingEvent } from '@data-snack/core';
+import { toBulkInsertResult } from './bulkInsert';
+import { InMemoryEventRepository } from './InMemoryEventRepository';
+import { MemoryDatabase } from './MemoryDatabase';
+
+describe('toBulkInsertResult', () => {
+  it('counts ids the insert skipped and repeats within the batch as duplicates', () => {
+    expect(toBulkInsertResult(['a', 'b', 'a', 'c'], new Set(['a', 'c']))).toEqual({
+      inserted: ['a', 'c'],
+      duplicates: ['b', 'a'],
+      failed: [],
+    });
+  });
+});
+
+describe('InMemoryEventRepository.createMany', () => {
+  const batch = () =>
+    ['click', 'page_view', 'scroll'].map(type => ({
+      event: TrackingEvent.create(type, type).withSession('session-1'),
+    }));
+
+  it('stores a replayed batch once', async () => {
+    const db = new MemoryDatabase();
+    const repository = new InMemoryEventRepository(db);
+    const events = batch();
+    const ids = events.map(({ event }) => event.id);
+
+    expect(await repository.createMany(events)).toEqual({
+      inserted: ids,
+      duplicates: [],
+      failed: [],
+    });
+    expect(await repository.createMany(events)).toEqual({
+      inserted: [],
+      duplicates: ids,
+      failed: [],
+    });
+    expect(db.tables.events).toHaveLength(3);
+  });
+
+  it('stores only the new events of a batch that overlaps a stored one', async () => {
+    const db = new MemoryDatabase();
+    const repository = new InMemoryEventRepository(db);
+    const [first, second] = [batch(), batch()];
+    await repository.createMany(first);
+
+    const replay = [...first.slice(1), ...second];
+    const result = await repository.createMany(replay);
+    expect(result.inserted).toEqual(second.map(({ event }) => event.id));
+    expect(result.duplicates).toHaveLength(2);
+    expect(db.tables.events).toHaveLength(6);
+  });
+});
@@ -0,0 +1,38 @@
+import type { BulkInsertResult } from '../client';
+import { ConstraintViolationError } from '../errors';
+
+// Classifies each id, in order, against the ids the insert reported back.
+// A repeated id within one batch counts as a duplicate of its first copy.
+export function toBulkInsertResult(ids: string[], insertedIds: Set<string>): BulkInsertResult {
+  const result: BulkInsertResult = { inserted: [], duplicates: [], failed: [] };
+  const seen = new Set<string>();
+
+  ids.forEach(id => {
+    if (insertedIds.has(id) && !seen.has(id)) result.inserted.push(id);
+    else result.duplicates.push(id);
+    seen.add(id);
+  });
+  return result;
+}
+
+// Stores rows one at a time after a batch failed on a bad row, so that row
+// fails on its own. insert resolves to false for an already stored row.
+// Anything but a constraint violation still fails the whole batch, which is
+// safe to retry since the rows stored so far are skipped as duplicates.
+export async function insertEach(
+  ids: string[],
+  insert: (index: number) => Promise<boolean>,
+): Promise<BulkInsertResult> {
+  const result: BulkInsertResult = { inserted: [], duplicates: [], failed: [] };
+
+  for (const [index, id] of ids.entries()) {
+    try {
+      if (await insert(index)) result.inserted.push(id);
+      else result.duplicates.push(id);
+    } catch (error) {
+      if (!(error instanceof ConstraintViolationError)) throw error;
+      result.failed.push({ id, error });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,43 @@
+import { resolveStorageDriver } from '.';
+
+describe('resolveStorageDriver', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env };
+    delete process.env.DATA_SNACK_STORAGE;
+    delete process.env.DATABASE_URL;
+    delete process.env.NEXT_PUBLIC_SUPABASE_URL;
+    delete process.env.SUPABASE_SERVICE_ROLE_KEY;
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('takes the configured driver first', () => {
+    process.env.DATA_SNACK_STORAGE = 'file';
+    expect(resolveStorageDriver({ driver: 'memory' })).toBe('memory');
+    expect(resolveStorageDriver()).toBe('file');
+    process.env.DATA_SNACK_STORAGE = 'mysql';
+    expect(() => resolveStorageDriver()).toThrow('Unknown storage driver: mysql');
+  });
+
+  it('infers Postgres, then Supabase, from their variables', () => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://example.supabase.co';
+    process.env.SUPABASE_SERVICE_ROLE_KEY = 'key';
+    expect(resolveStorageDriver()).toBe('supabase');
+    process.env.DATABASE_URL = 'postgres://localhost/data_snack';
+    expect(resolveStorageDriver()).toBe('postgres');
+  });
+
+  it('falls back to memory outside production only', () => {
+    process.env.NODE_ENV = 'development';
+    expect(resolveStorageDriver()).toBe('memory');
+
+    process.env.NODE_ENV = 'production';
+    expect(() => resolveStorageDriver()).toThrow('No storage configured');
+    process.env.DATA_SNACK_STORAGE = 'memory';
+    expect(resolveStorageDriver()).toBe('memory');
+  });
+});
@@ -0,0 +1,190 @@
+import { createServerDatabaseClient } from '../client';
+import type { DatabaseClient, Repositories } from '../client';
+import type { PostgresConfig } from './PostgresDatabase';
+import type { PostgresEventOptions } from './PostgresEventRepository';
+import { InMemoryAchievementRepository } from './InMemoryAchievementRepository';
+import { InMemoryConsentRecordRepository } from './InMemoryConsentRecordRepository';
+import { InMemoryEventRepository } from './InMemoryEventRepository';
+import { InMemoryQuarantineRepository } from './InMemoryQuarantineRepository';
+import { InMemorySnackSessionRepository } from './InMemorySnackSessionRepository';
+import { InMemoryUserRepository } from './InMemoryUserRepository';
+import { MemoryDatabase } from './MemoryDatabase';
+import { PostgresAchievementRepository } from './PostgresAchievementRepository';
+import { PostgresConsentRecordRepository } from './PostgresConsentRecordRepository';
+import { PostgresDatabase } from './PostgresDatabase';
+import { PostgresEventRepository } from './PostgresEventRepository';
+import { PostgresQuarantineRepository } from './PostgresQuarantineRepository';
+import { PostgresSnackSessionRepository } from './PostgresSnackSessionRepository';
+import { PostgresUserRepository } from './PostgresUserRepository';
+import { SupabaseAchievementRepository } from './SupabaseAchievementRepository';
+import { SupabaseConsentRecordRepository } from './SupabaseConsentRecordRepository';
+import { SupabaseEventRepository } from './SupabaseEventRepository';
+import { SupabaseQuarantineRepository } from './SupabaseQuarantineRepository';
+import { SupabaseSnackSessionRepository } from './SupabaseSnackSessionRepository';
+import { SupabaseUserRepository } from './SupabaseUserRepository';
+
+export type { MemoryTables } from './MemoryDatabase';
+export type { PostgresConfig } from './PostgresDatabase';
+export type { EventBucket, PostgresEventOptions } from './PostgresEventRepository';
+export {
+  InMemoryAchievementRepository,
+  InMemoryConsentRecordRepository,
+  InMemoryEventRepository,
+  InMemoryQuarantineRepository,
+  InMemorySnackSessionRepository,
+  InMemoryUserRepository,
+  MemoryDatabase,
+  PostgresAchievementRepository,
+  PostgresConsentRecordRepository,
+  PostgresDatabase,
+  PostgresEventRepository,
+  PostgresQuarantineRepository,
+  PostgresSnackSessionRepository,
+  PostgresUserRepository,
+  SupabaseAchievementRepository,
+  SupabaseConsentRecordRepository,
+  SupabaseEventRepository,
+  SupabaseQuarantineRepository,
+  SupabaseSnackSessionRepository,
+  SupabaseUserRepository,
+};
+
+export type StorageDriver = 'supabase' | 'postgres' | 'memory' | 'file';
+
+export interface StorageConfig {
+  driver?: StorageDriver;
+  filePath?: string; // JSON file for the 'file' driver
+  postgres?: Partial<PostgresConfig>; // 'postgres' driver, defaults from DATABASE_URL
+}
+
+export const DEFAULT_STORAGE_FILE = '.data-snack/db.json';
+
+export function createSupabaseRepositories(db: DatabaseClient): Repositories {
+  return {
+    users: new SupabaseUserRepository(db),
+    events: new SupabaseEventRepository(db),
+    snackSessions: new SupabaseSnackSessionRepository(db),
+    achievements: new SupabaseAchievementRepository(db),
+    consentRecords: new SupabaseConsentRecordRepository(db),
+    quarantine: new SupabaseQuarantineRepository(db),
+  };
+}
+
+export function createPostgresRepositories(
+  db: PostgresDatabase,
+  options: PostgresEventOptions = {},
+): Repositories {
+  return {
+    users: new PostgresUserRepository(db),
+    events: new PostgresEventRepository(db, options),
+    snackSessions: new PostgresSnackSessionRepository(db),
+    achievements: new PostgresAchievementRepository(db),
+    consentRecords: new PostgresConsentRecordRepository(db),
+    quarantine: new PostgresQuarantineRepository(db),
+    close: () => db.close(),
+  };
+}
+
+export function createMemoryRepositories(db: MemoryDatabase = new MemoryDatabase()): Repositories {
+  return {
+    users: new InMemoryUserRepository(db),
+    events: new InMemoryEventRepository(db),
+    snackSessions: new InMemorySnackSessionRepository(db),
+    achievements: new InMemoryAchievementRepository(db),
+    consentRecords: new InMemoryConsentRecordRepository(db),
+    quarantine: new InMemoryQuarantineRepository(db),
+  };
+}
+
+// Config first, then DATA_SNACK_STORAGE. Without either, Postgres when
+// DATABASE_URL is set, Supabase when its environment variables are and
+// memory otherwise, except in production where that throws.
+export function resolveStorageDriver(config: StorageConfig = {}): StorageDriver {
+  const driver = config.driver ?? process.env.DATA_SNACK_STORAGE;
+
+  switch (driver) {
+    case 'supabase':
+    case 'postgres':
+    case 'memory':
+    case 'file':
+      return driver;
+    case undefined:
+    case '':
+      if (process.env.DATABASE_URL) return 'postgres';
+      if (process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY) {
+        return 'supabase';
+      }
+      // A mistyped variable would otherwise accept events and lose them on restart
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error(
+          'No storage configured: set DATABASE_URL, the Supabase variables or DATA_SNACK_STORAGE',
+        );
+      }
+      return 'memory';
+    default:
+      throw new Error(`Unknown storage driver: ${driver}`);
+  }
+}
+
+// One store and one pool per process, so every route and tracker shares them
+const globalForStorage = globalThis as typeof globalThis & {
+  __dataSnackMemoryDatabases?: Map<string, MemoryDatabase>;
+  __dataSnackPostgresPools?: Map<string, PostgresDatabase>;
+};
+
+function sharedPostgresDatabase(config: PostgresConfig): PostgresDatabase {
+  const pools = (globalForStorage.__dataSnackPostgresPools ??= new Map());
+
+  // A closed pool is replaced, e.g. after a test tore it down
+  let db = pools.get(config.connectionString);
+  if (!db || db.pool.ended) {
+    db = new PostgresDatabase(config);
+    pools.set(config.connectionString, db);
+  }
+  return db;
+}
+
+function sharedMemoryDatabase(filePath?: string): MemoryDatabase {
+  const databases = (globalForStorage.__dataSnackMemoryDatabases ??= new Map());
+  const key = filePath ?? ':memory:';
+
+  let db = databases.get(key);
+  if (!db) {
+    db = filePath ? MemoryDatabase.fromFile(filePath) : new MemoryDatabase();
+    databases.set(key, db);
+  }
+  return db;
+}
+
+export function createRepositories(config: StorageConfig = {}): Repositories {
+  const driver = resolveStorageDriver(config);
+
+  switch (driver) {
+    case 'supabase': {
+      const db = createServerDatabaseClient();
+      if (!db) throw new Error('Supabase storage selected but not configured');
+      return createSupabaseRepositories(db);
+    }
+    case 'postgres': {
+      const connectionString = config.postgres?.connectionString ?? process.env.DATABASE_URL;
+      if (!connectionString)
+        throw new Error('Postgres storage selected but DATABASE_URL is not set');
+      return createPostgresRepositories(
+        sharedPostgresDatabase({
+          maxConnections: Number(process.env.DATABASE_POOL_SIZE) || undefined,
+          ssl: process.env.DATABASE_SSL === 'true',
+          ...config.postgres,
+          connectionString,
+        }),
+      );
+    }
+    case 'file':
+      return createMemoryRepositories(
+        sharedMemoryDatabase(
+          config.filePath ?? process.env.DATA_SNACK_STORAGE_FILE ?? DEFAULT_STORAGE_FILE,
+        ),
+      );
+    case 'memory':
+      return createMemoryRepositories(sharedMemoryDatabase());
+  }
+}
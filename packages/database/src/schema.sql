@@ -1,5 +1,7 @@
 -- Data Snack v3 Database Schema
 -- PostgreSQL with Supabase Extensions
+-- Snapshot of ../migrations for a one-off psql setup, schema changes go into
+-- a new migration (pnpm --filter @data-snack/database migrate create <name>)
 
 -- Enable necessary extensions
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
@@ -56,7 +58,7 @@ CREATE TABLE events (
   time TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   id UUID NOT NULL DEFAULT uuid_generate_v4(),
   user_id UUID REFERENCES users(id) ON DELETE CASCADE,
-  session_id UUID NOT NULL,
+  session_id TEXT NOT NULL, -- SDK session ids are not UUIDs
   
   -- Event data
   event_type TEXT NOT NULL,
@@ -86,6 +88,26 @@ CREATE INDEX idx_events_type ON events (event_type, time DESC);
 CREATE INDEX idx_events_name ON events (event_name, time DESC);
 CREATE INDEX idx_events_anonymous ON events (is_anonymous) WHERE is_anonymous = TRUE;
 
+-- Ids of stored events, unique on their own unlike the hypertable's key
+CREATE TABLE event_ids (
+  id UUID PRIMARY KEY,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Events that failed property schema validation, held back from events
+CREATE TABLE quarantined_events (
+  id UUID PRIMARY KEY,
+  session_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  event_name TEXT NOT NULL,
+  schema_version INTEGER NOT NULL,
+  payload JSONB NOT NULL,
+  issues JSONB NOT NULL,
+  quarantined_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_quarantined_events_type ON quarantined_events (event_type, quarantined_at DESC);
+
 -- Snack sessions table
 CREATE TABLE snack_sessions (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -164,6 +186,28 @@ CREATE TABLE user_achievements (
 CREATE INDEX idx_user_achievements_user ON user_achievements (user_id);
 CREATE INDEX idx_user_achievements_unlocked ON user_achievements (unlocked_at DESC);
 
+-- Consent history (append-only, proof of consent under GDPR Art. 7)
+CREATE TABLE consent_records (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  session_id TEXT NOT NULL,
+  
+  -- Decision
+  version INTEGER NOT NULL,
+  categories JSONB NOT NULL,
+  source TEXT NOT NULL,
+  tc_string TEXT, -- IAB TCF v2.2
+  
+  -- Evidence (IP is stored anonymized)
+  ip_address TEXT,
+  user_agent TEXT,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Indexes for consent history
+CREATE INDEX idx_consent_records_user ON consent_records (user_id, recorded_at DESC);
+CREATE INDEX idx_consent_records_session ON consent_records (session_id, recorded_at DESC);
+
 -- Real-time analytics views
 CREATE MATERIALIZED VIEW hourly_stats AS
 SELECT 
@@ -272,28 +316,35 @@ ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE events ENABLE ROW LEVEL SECURITY;
 ALTER TABLE snack_sessions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_achievements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE consent_records ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_ids ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quarantined_events ENABLE ROW LEVEL SECURITY;
 
 -- Policy: Users can only see their own data
 CREATE POLICY users_own_data ON users
-  FOR ALL USING (auth.uid() = id::text);
+  FOR ALL USING (auth.uid() = id);
 
 -- Policy: Events are accessible based on user consent
 CREATE POLICY events_own_data ON events
   FOR ALL USING (
-    auth.uid() = user_id::text 
+    auth.uid() = user_id 
     OR is_anonymous = TRUE
   );
 
 -- Policy: Snack sessions are accessible by owner
 CREATE POLICY snack_sessions_own_data ON snack_sessions
   FOR ALL USING (
-    auth.uid() = user_id::text 
+    auth.uid() = user_id 
     OR (is_public = TRUE AND share_token IS NOT NULL)
   );
 
 -- Policy: User achievements are accessible by owner
 CREATE POLICY user_achievements_own_data ON user_achievements
-  FOR ALL USING (auth.uid() = user_id::text);
+  FOR ALL USING (auth.uid() = user_id);
+
+-- Policy: Consent history is readable by its owner, never updated
+CREATE POLICY consent_records_own_data ON consent_records
+  FOR SELECT USING (auth.uid() = user_id);
 
 -- Insert default achievements
 INSERT INTO achievements (id, name, description, category, xp_reward, icon) VALUES
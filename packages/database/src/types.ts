@@ -38,7 +38,7 @@ export const DatabaseEvent = z.object({
   time: z.string().datetime(),
   id: z.string().uuid(),
   user_id: z.string().uuid().nullable(),
-  session_id: z.string().uuid(),
+  session_id: z.string(),
   
   // Event data
   event_type: z.string(),
@@ -56,6 +56,25 @@ export const DatabaseEvent = z.object({
   consent_state: z.record(z.boolean()).nullable(),
 });
 
+// Makes event ids unique on their own, see migrations/0007_event_ids
+export const DatabaseEventId = z.object({
+  id: z.string().uuid(),
+  received_at: z.string().datetime(),
+});
+
+// Events that failed property schema validation, see
+// migrations/0008_quarantined_events
+export const DatabaseQuarantinedEvent = z.object({
+  id: z.string().uuid(),
+  session_id: z.string(),
+  event_type: z.string(),
+  event_name: z.string(),
+  schema_version: z.number(),
+  payload: z.record(z.unknown()),
+  issues: z.array(z.record(z.unknown())),
+  quarantined_at: z.string().datetime(),
+});
+
 export const DatabaseSnackSession = z.object({
   id: z.string().uuid(),
   user_id: z.string().uuid(),
@@ -109,12 +128,28 @@ export const DatabaseUserAchievement = z.object({
   context: z.record(z.unknown()).default({}),
 });
 
+export const DatabaseConsentRecord = z.object({
+  id: z.string().uuid(),
+  user_id: z.string().uuid().nullable(),
+  session_id: z.string(),
+  version: z.number(),
+  categories: z.record(z.boolean()),
+  source: z.string(),
+  tc_string: z.string().nullable(),
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable(),
+  recorded_at: z.string().datetime(),
+});
+
 // Type exports
 export type DatabaseUser = z.infer<typeof DatabaseUser>;
 export type DatabaseEvent = z.infer<typeof DatabaseEvent>;
+export type DatabaseEventId = z.infer<typeof DatabaseEventId>;
+export type DatabaseQuarantinedEvent = z.infer<typeof DatabaseQuarantinedEvent>;
 export type DatabaseSnackSession = z.infer<typeof DatabaseSnackSession>;
 export type DatabaseAchievement = z.infer<typeof DatabaseAchievement>;
 export type DatabaseUserAchievement = z.infer<typeof DatabaseUserAchievement>;
+export type DatabaseConsentRecord = z.infer<typeof DatabaseConsentRecord>;
 
 // Supabase Database Type Interface
 export interface Database {
@@ -124,40 +159,79 @@ export interface Database {
         Row: DatabaseUser;
         Insert: InsertUser;
         Update: UpdateUser;
+        Relationships: [];
       };
       events: {
         Row: DatabaseEvent;
         Insert: InsertEvent;
         Update: Partial<InsertEvent>;
+        Relationships: [];
+      };
+      event_ids: {
+        Row: DatabaseEventId;
+        Insert: InsertEventId;
+        Update: never;
+        Relationships: [];
+      };
+      quarantined_events: {
+        Row: DatabaseQuarantinedEvent;
+        Insert: InsertQuarantinedEvent;
+        Update: never;
+        Relationships: [];
       };
       snack_sessions: {
         Row: DatabaseSnackSession;
         Insert: InsertSnackSession;
         Update: UpdateSnackSession;
+        Relationships: [];
       };
       achievements: {
         Row: DatabaseAchievement;
         Insert: InsertAchievement;
         Update: Partial<InsertAchievement>;
+        Relationships: [];
       };
       user_achievements: {
         Row: DatabaseUserAchievement;
         Insert: InsertUserAchievement;
         Update: Partial<InsertUserAchievement>;
+        Relationships: [];
+      };
+      consent_records: {
+        Row: DatabaseConsentRecord;
+        Insert: InsertConsentRecord;
+        Update: never;
+        Relationships: [];
       };
     };
     Views: Record<string, never>;
-    Functions: Record<string, never>;
+    Functions: {
+      anonymize_user_data: {
+        Args: { user_uuid: string };
+        Returns: undefined;
+      };
+      refresh_analytics_views: {
+        Args: Record<string, never>;
+        Returns: undefined;
+      };
+    };
     Enums: Record<string, never>;
   };
 }
 
-// Insert types (without auto-generated fields)
-export type InsertUser = Omit<DatabaseUser, 'id' | 'created_at' | 'updated_at' | 'last_seen_at'>;
-export type InsertEvent = Omit<DatabaseEvent, 'id' | 'time' | 'server_timestamp'>;
-export type InsertSnackSession = Omit<DatabaseSnackSession, 'id' | 'started_at'>;
+// Insert types (auto-generated fields are optional, entities bring their own ids)
+export type InsertUser = Omit<DatabaseUser, 'id' | 'created_at' | 'updated_at' | 'last_seen_at'> &
+  Partial<Pick<DatabaseUser, 'id' | 'created_at' | 'last_seen_at'>>;
+export type InsertEvent = Omit<DatabaseEvent, 'id' | 'time' | 'server_timestamp'> &
+  Partial<Pick<DatabaseEvent, 'id' | 'time' | 'server_timestamp'>>;
+export type InsertEventId = Pick<DatabaseEventId, 'id'> &
+  Partial<Pick<DatabaseEventId, 'received_at'>>;
+export type InsertQuarantinedEvent = Omit<DatabaseQuarantinedEvent, 'quarantined_at'>;
+export type InsertSnackSession = Omit<DatabaseSnackSession, 'id' | 'started_at'> &
+  Partial<Pick<DatabaseSnackSession, 'id' | 'started_at'>>;
 export type InsertAchievement = Omit<DatabaseAchievement, 'created_at'>;
 export type InsertUserAchievement = Omit<DatabaseUserAchievement, 'unlocked_at'>;
+export type InsertConsentRecord = Omit<DatabaseConsentRecord, 'id' | 'recorded_at'>;
 
 // Update types (partial)
 export type UpdateUser = Partial<Omit<DatabaseUser, 'id' | 'created_at'>>;
@@ -1,7 +1,7 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: { index: 'src/index.ts', migrate: 'src/migrations/cli.ts' },
   format: ['cjs', 'esm'],
   dts: true,
   splitting: false,
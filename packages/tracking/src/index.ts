@@ -1,8 +1,29 @@
 // Client-side SDK
 export * from './sdk/DataSnackSDK';
+export * from './sdk/QueueStorage';
+export * from './sdk/DeliveryError';
+export * from './sdk/Transport';
+export * from './sdk/ConsentStore';
+export * from './sdk/TcfApi';
 
 // Server-side tracking utilities
 export * from './server/ServerTracker';
+export * from './server/RequestBody';
+export * from './server/ConsentEnforcer';
+export * from './server/ConsentLedger';
+export * from './server/EventDeduplicator';
+export * from './server/EventClock';
+export * from './server/SchemaEnforcer';
+export * from './server/PiiScrubbing';
+export * from './server/IngestionQueue';
+export * from './server/RedisStreamQueue';
+export * from './server/IngestionWorker';
+export * from './server/IngestionPipeline';
+export * from './server/NextAdapter';
+export * from './server/FastifyAdapter';
+export * from './server/IpAddress';
+export * from './server/GeoIp';
+export * from './server/PrivacySignals';
 
 // Re-export core types
 export type { TrackingEvent, EventType, EventContext, EventProperties } from '@data-snack/core';
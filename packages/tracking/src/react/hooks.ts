@@ -2,23 +2,18 @@
 
 import { useEffect, useCallback, useRef } from 'react';
 import { DataSnackSDK, ConsentState } from '../sdk/DataSnackSDK';
-import type { TrackingEvent } from '@data-snack/core';
+import type { TrackArgs, TrackingEvent } from '@data-snack/core';
 
 type EventType = TrackingEvent['type'];
 type EventProperties = TrackingEvent['properties'];
-type EventContext = TrackingEvent['context'];
 
 // React Hook für DataSnack SDK
 export function useDataSnack(sdk?: DataSnackSDK) {
   const sdkRef = useRef<DataSnackSDK | null>(sdk || null);
   useEffect(() => { sdkRef.current = sdk || null; }, [sdk]);
 
-  const track = useCallback((
-    type: EventType | string,
-    properties?: EventProperties,
-    context?: Partial<EventContext>
-  ) => {
-    sdkRef.current?.track(type, properties, context);
+  const track = useCallback(<T extends EventType>(type: T, ...args: TrackArgs<T>) => {
+    sdkRef.current?.track(type, ...args);
   }, []);
 
   const page = useCallback((name: string, properties?: EventProperties) => {
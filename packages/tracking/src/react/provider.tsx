@@ -1,12 +1,15 @@
 "use client";
 
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import type { EventType, TrackArgs } from '@data-snack/core';
 import { DataSnackSDK, SDKConfig, ConsentState } from '../sdk/DataSnackSDK';
+import { installTcfApi } from '../sdk/TcfApi';
 
 interface DataSnackContextValue {
   sdk: DataSnackSDK | null;
   isInitialized: boolean;
   consent: ConsentState | null;
+  consentRequired: boolean;
 }
 
 const DataSnackContext = createContext<DataSnackContextValue | null>(null);
@@ -27,24 +30,31 @@ export function DataSnackProvider({
   const [sdk, setSdk] = useState<DataSnackSDK | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
   const [consent, setConsent] = useState<ConsentState | null>(null);
+  const [consentRequired, setConsentRequired] = useState(false);
 
   useEffect(() => {
     const sdkInstance = new DataSnackSDK(config);
+    let uninstallTcfApi: (() => void) | null = null;
     try {
       setSdk(sdkInstance);
       setConsent(sdkInstance.getConsent());
+      setConsentRequired(sdkInstance.isConsentRequired());
       setIsInitialized(true);
 
+      // IAB TCF v2.2 CMP API for partners reading the TC string
+      if (config.tcf) {
+        uninstallTcfApi = installTcfApi(sdkInstance, config.tcf);
+      }
+
       if (onInitialized) {
         onInitialized(sdkInstance);
       }
 
-      // Listen for consent changes
-      const originalSetConsent = sdkInstance.setConsent.bind(sdkInstance);
-      sdkInstance.setConsent = (newConsent: Partial<ConsentState>) => {
-        originalSetConsent(newConsent);
-        setConsent(sdkInstance.getConsent());
-      };
+      // Listen for consent changes (including those made in other tabs)
+      sdkInstance.onConsentChange(newConsent => {
+        setConsent(newConsent);
+        setConsentRequired(sdkInstance.isConsentRequired());
+      });
 
     } catch (error) {
       if (onError) {
@@ -54,11 +64,14 @@ export function DataSnackProvider({
       }
     }
 
-    return () => sdkInstance.destroy();
+    return () => {
+      uninstallTcfApi?.();
+      sdkInstance.destroy();
+    };
   }, [config]);
 
   return (
-    <DataSnackContext.Provider value={{ sdk, isInitialized, consent }}>
+    <DataSnackContext.Provider value={{ sdk, isInitialized, consent, consentRequired }}>
       {children}
     </DataSnackContext.Provider>
   );
@@ -185,14 +198,13 @@ export function ConsentBanner({
   onCustomize,
   className = '' 
 }: ConsentBannerProps) {
-  const { sdk, consent } = useDataSnackContext();
+  const { sdk, consentRequired } = useDataSnackContext();
   const [isVisible, setIsVisible] = useState(false);
 
+  // Shown until a decision exists for the current consent version
   useEffect(() => {
-    if (consent && !consent.analytics && !consent.marketing && !consent.personalization) {
-      setIsVisible(true);
-    }
-  }, [consent]);
+    setIsVisible(consentRequired);
+  }, [consentRequired]);
 
   const handleAcceptAll = () => {
     sdk?.setConsent({
@@ -264,10 +276,11 @@ export function TrackingDebugger() {
 
     // Override the track method to capture events
     const originalTrack = sdk.track.bind(sdk);
-    sdk.track = (type: any, properties: any, context: any) => {
+    sdk.track = <T extends EventType>(type: T, ...args: TrackArgs<T>) => {
+      const [properties, context] = args;
       const event = { type, properties, context, timestamp: Date.now() };
       setEvents(prev => [event, ...prev.slice(0, 9)]); // Keep last 10 events
-      return originalTrack(type, properties, context);
+      return originalTrack(type, ...args);
     };
   }, [sdk]);
 
@@ -0,0 +1,142 @@
+import type { ConsentState } from './DataSnackSDK';
+
+// Consent decision as persisted in the browser
+export interface PersistedConsent {
+  version: number;
+  categories: ConsentState;
+  updatedAt: string;
+  tcString?: string; // IAB TCF v2.2, when configured
+}
+
+export interface ConsentStoreOptions {
+  key?: string;
+  cookieName?: string;
+  cookieMaxAge?: number; // seconds
+  cookieDomain?: string;
+}
+
+// Persists consent in localStorage and a first-party cookie (readable by the
+// server) and propagates changes to other tabs via BroadcastChannel / storage events
+export class ConsentStore {
+  private options: ConsentStoreOptions & { key: string; cookieName: string; cookieMaxAge: number };
+  private channel: BroadcastChannel | null = null;
+
+  constructor(options: ConsentStoreOptions = {}) {
+    this.options = {
+      key: 'data-snack:consent',
+      cookieName: 'ds_consent',
+      cookieMaxAge: 365 * 24 * 60 * 60, // 1 year
+      ...options,
+    };
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(this.options.key);
+    }
+  }
+
+  load(): PersistedConsent | null {
+    return this.parse(this.readLocalStorage()) || this.parse(this.readCookie());
+  }
+
+  save(consent: PersistedConsent): void {
+    const serialized = JSON.stringify(consent);
+
+    try {
+      localStorage.setItem(this.options.key, serialized);
+    } catch {
+      // localStorage unavailable (private mode, disabled storage), cookie still works
+    }
+    this.writeCookie(serialized, this.options.cookieMaxAge);
+
+    this.channel?.postMessage(consent);
+  }
+
+  clear(): void {
+    try {
+      localStorage.removeItem(this.options.key);
+    } catch {
+      // ignore
+    }
+    this.writeCookie('', 0);
+  }
+
+  // Listen for consent changes made in other tabs
+  subscribe(listener: (consent: PersistedConsent) => void): () => void {
+    const handleMessage = (event: MessageEvent) => {
+      const consent = this.validate(event.data);
+      if (consent) listener(consent);
+    };
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== this.options.key) return;
+      const consent = this.parse(event.newValue);
+      if (consent) listener(consent);
+    };
+
+    this.channel?.addEventListener('message', handleMessage);
+    if (typeof window !== 'undefined') {
+      window.addEventListener('storage', handleStorage);
+    }
+
+    return () => {
+      this.channel?.removeEventListener('message', handleMessage);
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('storage', handleStorage);
+      }
+    };
+  }
+
+  close(): void {
+    this.channel?.close();
+    this.channel = null;
+  }
+
+  private parse(value: string | null | undefined): PersistedConsent | null {
+    if (!value) return null;
+
+    try {
+      return this.validate(JSON.parse(value));
+    } catch {
+      return null;
+    }
+  }
+
+  private validate(value: unknown): PersistedConsent | null {
+    const consent = value as Partial<PersistedConsent> | null;
+    if (typeof consent?.version !== 'number' || typeof consent.categories !== 'object') {
+      return null;
+    }
+    return consent as PersistedConsent;
+  }
+
+  private readLocalStorage(): string | null {
+    try {
+      return typeof localStorage !== 'undefined' ? localStorage.getItem(this.options.key) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private readCookie(): string | null {
+    if (typeof document === 'undefined') return null;
+
+    const prefix = `${this.options.cookieName}=`;
+    const cookie = document.cookie.split('; ').find(c => c.startsWith(prefix));
+    return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : null;
+  }
+
+  private writeCookie(value: string, maxAge: number): void {
+    if (typeof document === 'undefined') return;
+
+    const attributes = [
+      `${this.options.cookieName}=${encodeURIComponent(value)}`,
+      'Path=/',
+      `Max-Age=${maxAge}`,
+      'SameSite=Lax',
+    ];
+    if (this.options.cookieDomain) attributes.push(`Domain=${this.options.cookieDomain}`);
+    if (typeof location !== 'undefined' && location.protocol === 'https:') attributes.push('Secure');
+
+    document.cookie = attributes.join('; ');
+  }
+}
@@ -0,0 +1,247 @@
+import { EventType, TrackingEvent, TrackingEventJSON } from '@data-snack/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DataSnackSDK, DeadLetter, SDKConfig } from './DataSnackSDK';
+import { DeliveryError } from './DeliveryError';
+import { MemoryQueueStorage, QueueStorage, StoredEvent } from './QueueStorage';
+import { FetchTransport, MemoryTransport, TransportRequest } from './Transport';
+
+function createSDK(requests: TransportRequest[], config: Partial<SDKConfig> = {}): DataSnackSDK {
+  return new DataSnackSDK({
+    endpoint: 'https://example.com/api/track',
+    flushInterval: 0,
+    persistence: false,
+    persistConsent: false,
+    privacySignals: false,
+    beaconTransport: false,
+    transport: { send: async request => void requests.push(request) },
+    ...config,
+  });
+}
+
+// Persistence and restoring run in the background
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Loads only when released, with what was put meanwhile and the extra entries
+class SlowQueueStorage extends MemoryQueueStorage {
+  release: (extra: StoredEvent[]) => void = () => undefined;
+
+  load(): Promise<StoredEvent[]> {
+    return new Promise(resolve => {
+      this.release = async extra => resolve([...(await super.load()), ...extra]);
+    });
+  }
+}
+
+const storedEvent = (type: EventType, queuedAt: number): StoredEvent => {
+  const event = TrackingEvent.create(type, type).withSession('session-1');
+  return { id: event.id, event: event.toJSON(), retries: 0, queuedAt };
+};
+
+const sentTypes = (requests: TransportRequest[]) =>
+  requests.flatMap(request =>
+    (JSON.parse(request.body).events as TrackingEventJSON[]).map(event => event.type),
+  );
+
+describe('DataSnackSDK.track', () => {
+  it('tracks types outside the taxonomy as custom events instead of throwing', async () => {
+    const requests: TransportRequest[] = [];
+    const sdk = createSDK(requests);
+    sdk.setConsent({ analytics: true });
+
+    expect(() => {
+      sdk.track('custom:hero cta');
+      sdk.track(`custom:${'x'.repeat(100)}` as EventType);
+      sdk.track('checkout' as EventType);
+    }).not.toThrow();
+    await sdk.flush();
+
+    expect(sentTypes(requests)).toEqual([
+      'consent_change',
+      'custom:hero_cta',
+      `custom:${'x'.repeat(64)}`,
+      'custom:checkout',
+    ]);
+  });
+});
+
+describe('DataSnackSDK delivery', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('counts a batch the server queued (202) as delivered', async () => {
+    const fetch = vi.fn(async () => Response.json({ queued: 2 }, { status: 202 }));
+    vi.stubGlobal('fetch', fetch);
+    const storage = new MemoryQueueStorage();
+    const sdk = createSDK([], { persistence: storage, transport: new FetchTransport() });
+    await settle();
+
+    sdk.setConsent({ analytics: true });
+    sdk.click('hero-cta');
+    await sdk.flush(true);
+    await settle();
+    expect(fetch).toHaveBeenCalledOnce();
+    expect(await storage.load()).toEqual([]);
+
+    // Nothing is left to retry
+    await sdk.flush(true);
+    expect(fetch).toHaveBeenCalledOnce();
+  });
+});
+
+describe('DataSnackSDK.identify', () => {
+  const sentEvents = (requests: TransportRequest[]) =>
+    requests.flatMap(request => JSON.parse(request.body).events as TrackingEventJSON[]);
+
+  it('attaches a uuid user id to the events after it', async () => {
+    const requests: TransportRequest[] = [];
+    const sdk = createSDK(requests);
+    sdk.setConsent({ analytics: true });
+    sdk.identify('0b8e5d8a-3c2f-4d7e-9a41-6f1c2b3d4e5f');
+    sdk.click('hero-cta');
+    await sdk.flush();
+
+    expect(sentEvents(requests).at(-1)).toMatchObject({
+      type: 'click',
+      userId: '0b8e5d8a-3c2f-4d7e-9a41-6f1c2b3d4e5f',
+    });
+  });
+
+  it('ignores a user id the server would reject', async () => {
+    const requests: TransportRequest[] = [];
+    const sdk = createSDK(requests);
+    sdk.setConsent({ analytics: true });
+    sdk.identify('user-42');
+    sdk.click('hero-cta');
+    await sdk.flush();
+
+    expect(sentEvents(requests).map(event => [event.type, event.userId])).toEqual([
+      ['consent_change', null],
+      ['click', null],
+    ]);
+  });
+});
+
+describe('DataSnackSDK queue persistence', () => {
+  let online = false;
+  const transport = () =>
+    new MemoryTransport(() => {
+      if (!online) throw new DeliveryError('Failed to fetch');
+    });
+
+  beforeEach(() => {
+    online = false;
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends events queued before a reload after it', async () => {
+    const storage = new MemoryQueueStorage();
+    const before = createSDK([], { persistence: storage, transport: transport() });
+    before.setConsent({ analytics: true });
+    before.click('hero-cta');
+    await before.flush();
+    await settle();
+    expect(await storage.load()).toHaveLength(2);
+
+    // Once the retry is due
+    vi.setSystemTime(new Date('2026-10-19T12:01:00Z'));
+    const requests: TransportRequest[] = [];
+    createSDK(requests, { persistence: storage });
+    await settle();
+
+    expect(sentTypes(requests)).toEqual(['consent_change', 'click']);
+    expect(await storage.load()).toEqual([]);
+  });
+
+  it('restores each event once', async () => {
+    const click = storedEvent('click', Date.now());
+    const storage = new SlowQueueStorage();
+
+    const requests: TransportRequest[] = [];
+    const sdk = createSDK(requests, { persistence: storage });
+    // Queued, and put in storage, while it loads
+    sdk.setConsent({ analytics: true });
+    storage.release([click, click]);
+    await settle();
+
+    expect(sentTypes(requests)).toEqual(['click', 'consent_change']);
+  });
+
+  it('drops the oldest events beyond maxQueueSize', async () => {
+    const deadLetters: DeadLetter[] = [];
+    const storage = new MemoryQueueStorage();
+    const sdk = createSDK([], {
+      persistence: storage,
+      batchSize: 100,
+      maxQueueSize: 3,
+      onDeadLetter: deadLetter => deadLetters.push(deadLetter),
+    });
+    sdk.setConsent({ analytics: true });
+    ['a', 'b', 'c', 'd'].forEach(element => sdk.click(element));
+    await settle();
+
+    expect(deadLetters.map(({ reason, events }) => [reason, events.length])).toEqual([
+      ['queue_full', 1],
+      ['queue_full', 1],
+    ]);
+    expect(deadLetters[1]?.events[0]?.properties).toEqual({ element: 'a' });
+    expect((await storage.load()).map(stored => stored.event.properties)).toEqual([
+      { element: 'b' },
+      { element: 'c' },
+      { element: 'd' },
+    ]);
+  });
+
+  it('dead-letters persisted events older than maxQueueAge', async () => {
+    const day = 24 * 60 * 60 * 1000;
+    const storage = new MemoryQueueStorage();
+    await storage.put([
+      storedEvent('click', Date.now() - 8 * day),
+      storedEvent('scroll', Date.now() - day),
+    ]);
+
+    const requests: TransportRequest[] = [];
+    const deadLetters: DeadLetter[] = [];
+    createSDK(requests, {
+      persistence: storage,
+      onDeadLetter: deadLetter => deadLetters.push(deadLetter),
+    });
+    await settle();
+
+    expect(deadLetters.map(({ reason, events }) => [reason, events[0]?.type])).toEqual([
+      ['expired', 'click'],
+    ]);
+    expect(sentTypes(requests)).toEqual(['scroll']);
+    expect(await storage.load()).toEqual([]);
+  });
+
+  it('keeps queueing in memory when the storage fails', async () => {
+    const failing: QueueStorage = {
+      load: vi
+        .fn()
+        .mockRejectedValue(new DOMException('The user denied permission', 'InvalidStateError')),
+      put: vi.fn().mockResolvedValue(undefined),
+      remove: vi.fn().mockResolvedValue(undefined),
+      clear: vi.fn().mockResolvedValue(undefined),
+    };
+
+    const memory = transport();
+    const sdk = createSDK([], { persistence: failing, transport: memory });
+    await settle();
+    sdk.setConsent({ analytics: true });
+    sdk.click('hero-cta');
+    await sdk.flush();
+    expect(failing.put).not.toHaveBeenCalled();
+    expect(memory.requests).toEqual([]);
+
+    // Still queued for the next attempt
+    online = true;
+    await sdk.flush(true);
+    expect(sentTypes(memory.requests)).toEqual(['consent_change', 'click']);
+  });
+});
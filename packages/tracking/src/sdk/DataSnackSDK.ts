@@ -1,4 +1,27 @@
-import { TrackingEvent } from '@data-snack/core';
+import {
+  CONSENT_VERSION,
+  ConsentOrigin,
+  DEFAULT_PRIVACY_SIGNAL_POLICY,
+  PiiScrubber,
+  PiiScrubberConfig,
+  PrivacySignal,
+  PrivacySignalPolicy,
+  PrivacySignals,
+  ScrubFinding,
+  TcfCodec,
+  TcfOptions,
+  TrackArgs,
+  TrackingEvent,
+  UserId,
+  applyPrivacySignals,
+  eventRegistry,
+  eventSchemas,
+  toEventType,
+} from '@data-snack/core';
+import { ConsentStore, PersistedConsent } from './ConsentStore';
+import { MemoryQueueStorage, QueueStorage, StoredEvent, createQueueStorage } from './QueueStorage';
+import { DeliveryError } from './DeliveryError';
+import { BeaconTransport, BodyCompression, FetchTransport, Transport, byteLength } from './Transport';
 
 type EventType = TrackingEvent['type'];
 type EventContext = TrackingEvent['context'];
@@ -12,6 +35,43 @@ export interface SDKConfig {
   flushInterval?: number;
   maxRetries?: number;
   timeout?: number;
+  // Queue persistence across reloads (defaults to IndexedDB with a memory fallback)
+  persistence?: QueueStorage | false;
+  maxQueueSize?: number;
+  maxQueueAge?: number;
+  // Exponential backoff between retries of a failed batch
+  retryBaseDelay?: number;
+  retryMaxDelay?: number;
+  onDeadLetter?: (deadLetter: DeadLetter) => void;
+  // Delivery transports (beacon is used for page-hide flushes when available)
+  transport?: Transport;
+  beaconTransport?: Transport | false;
+  // Compress fetch request bodies via CompressionStream where available
+  compression?: BodyCompression | false;
+  // Consent persistence (localStorage + cookie) and cross-tab sync
+  persistConsent?: boolean | ConsentStore;
+  consentVersion?: number;
+  // Hold events tracked before the consent decision instead of dropping them
+  preConsentBuffer?: PreConsentBufferConfig | false;
+  // Encode consent as an IAB TCF v2.2 TC string
+  tcf?: TcfOptions | false;
+  // Honour Global Privacy Control / Do Not Track by denying categories
+  privacySignals?: Partial<PrivacySignalPolicy> | false;
+  // Personal data in properties and URLs is scrubbed before an event is
+  // queued, false to send it as tracked. A hash salt is visible to anyone here.
+  scrubbing?: PiiScrubberConfig | false;
+  // What was scrubbed from an event, paths and kinds without the values
+  onScrub?: (event: TrackingEvent, report: ScrubFinding[]) => void;
+}
+
+export type OptionalConsentCategory = Exclude<keyof ConsentState, 'necessary'>;
+
+export interface PreConsentBufferConfig {
+  // Per category: 'buffer' holds events until the decision, 'drop' discards them
+  policy?: Partial<Record<OptionalConsentCategory, 'buffer' | 'drop'>>;
+  // Buffered events older than this are purged even if consent is granted later
+  ttl?: number;
+  maxEvents?: number;
 }
 
 export interface ConsentState {
@@ -21,24 +81,67 @@ export interface ConsentState {
   personalization: boolean;
 }
 
+export type DeadLetterReason = 'rejected' | 'max_retries' | 'queue_full' | 'expired';
+
+// Events the SDK gave up on, and why
+export interface DeadLetter {
+  events: TrackingEvent[];
+  reason: DeadLetterReason;
+  status?: number;
+  error?: string;
+}
+
 interface QueuedEvent {
   event: TrackingEvent;
   retries: number;
+  queuedAt: number;
+  nextAttemptAt: number;
 }
 
+interface BufferedEvent {
+  event: TrackingEvent;
+  category: OptionalConsentCategory;
+  bufferedAt: number;
+}
+
+const DEFAULT_PRE_CONSENT_BUFFER: Required<PreConsentBufferConfig> = {
+  policy: {
+    analytics: 'buffer',
+    marketing: 'drop',
+    personalization: 'drop',
+  },
+  ttl: 30 * 60 * 1000, // 30 minutes
+  maxEvents: 100,
+};
+
 export class DataSnackSDK {
   private config: SDKConfig;
   private queue: QueuedEvent[] = [];
+  private inFlight = new Set<string>();
+  private storage: QueueStorage | null;
+  private transport: Transport;
+  private beaconTransport: Transport | null;
   private sessionId: string;
-  private userId: string | null = null;
+  private userId: UserId | null = null;
   private consent: ConsentState = {
     necessary: true,
     analytics: false,
     marketing: false,
     personalization: false,
   };
+  private consentStore: ConsentStore | null;
+  private consentDecidedAt: string | null = null;
+  private tcfCodec: TcfCodec | null;
+  private tcString: string | null = null;
+  private privacySignals: PrivacySignals;
+  private privacySignalPolicy: PrivacySignalPolicy | null;
+  private scrubber: PiiScrubber | null;
+  private consentListeners = new Set<(consent: ConsentState) => void>();
+  private unsubscribeConsent: (() => void) | null = null;
+  private preConsentBuffer: BufferedEvent[] = [];
   private flushTimer: NodeJS.Timeout | null = null;
   private isOnline: boolean = true;
+  private backoffUntil: number = 0;
 
   constructor(config: SDKConfig) {
     this.config = {
@@ -46,15 +149,55 @@ export class DataSnackSDK {
       flushInterval: 5000, // 5 seconds
       maxRetries: 3,
       timeout: 10000, // 10 seconds
+      maxQueueSize: 500,
+      maxQueueAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+      retryBaseDelay: 1000, // 1 second
+      retryMaxDelay: 5 * 60 * 1000, // 5 minutes
+      persistConsent: true,
+      consentVersion: CONSENT_VERSION,
       debug: false,
       ...config,
     };
 
+    this.storage = config.persistence === false ? null : config.persistence || createQueueStorage();
+    this.transport =
+      config.transport ||
+      new FetchTransport({ timeout: this.config.timeout, compression: this.config.compression });
+    this.beaconTransport =
+      config.beaconTransport === false
+        ? null
+        : config.beaconTransport || (BeaconTransport.isSupported() ? new BeaconTransport() : null);
+
+    const { persistConsent } = this.config;
+    this.consentStore =
+      persistConsent instanceof ConsentStore
+        ? persistConsent
+        : persistConsent && typeof window !== 'undefined'
+          ? new ConsentStore()
+          : null;
+
+    this.tcfCodec = this.config.tcf ? new TcfCodec(this.config.tcf) : null;
+
+    this.privacySignalPolicy =
+      this.config.privacySignals === false
+        ? null
+        : { ...DEFAULT_PRIVACY_SIGNAL_POLICY, ...this.config.privacySignals };
+    this.privacySignals = this.detectPrivacySignals();
+
+    this.scrubber = this.config.scrubbing === false ? null : new PiiScrubber(this.config.scrubbing);
+
+    // Restore consent before the automatic page_view is tracked
+    this.restoreConsent();
+
     this.sessionId = this.generateSessionId();
+    if (!this.enforcePrivacySignals()) this.resendConsent();
     this.initialize();
   }
 
   private initialize(): void {
+    // Replay events persisted by a previous page load
+    this.restoreQueue();
+
     // Set up periodic flushing
     if (this.config.flushInterval && this.config.flushInterval > 0) {
       this.flushTimer = setInterval(() => {
@@ -98,40 +241,97 @@ export class DataSnackSDK {
     }
   }
 
-  // Core tracking methods
-  public track(
-    type: EventType | string,
-    properties: EventProperties = {},
-    context: Partial<EventContext> = {}
-  ): void {
-    // Check consent
-    if (!this.canTrack(type as EventType)) {
+  // Core tracking methods. Events with a built-in schema take its properties,
+  // so a missing or misspelled one doesn't compile. Product events are
+  // custom:<name>. Tracking never throws into the page: a type outside the
+  // taxonomy is tracked as the custom event its name cleans up to.
+  public track<T extends EventType>(type: T, ...[properties = {}, context = {}]: TrackArgs<T>): void {
+    const eventType = toEventType(String(type));
+    if (eventType !== type && this.config.debug) {
+      console.warn(`[DataSnack SDK] Unknown event type ${type}, tracked as ${eventType}`);
+    }
+
+    try {
+      // Check consent
+      if (!this.canTrack(eventType)) {
+        const category = this.getConsentCategory(eventType);
+        if (category !== 'necessary' && this.shouldBuffer(category)) {
+          this.bufferEvent(this.buildEvent(eventType, properties, context), category);
+          return;
+        }
+
+        if (this.config.debug) {
+          console.warn(`[DataSnack SDK] Event blocked by consent: ${eventType}`);
+        }
+        return;
+      }
+
+      this.enqueue(this.buildEvent(eventType, properties, context));
+    } catch (error) {
       if (this.config.debug) {
-        console.warn(`[DataSnack SDK] Event blocked by consent: ${type}`);
+        console.warn(`[DataSnack SDK] Dropped ${eventType}:`, error);
       }
-      return;
     }
+  }
 
+  private buildEvent(
+    type: EventType,
+    properties: EventProperties,
+    context: Partial<EventContext>,
+  ): TrackingEvent {
     let event = TrackingEvent.create(
-      type as EventType,
-      type as string,
+      type,
+      type,
       properties,
       {
         ...this.getDefaultContext(),
+        // The server checks the event against the schema version it was built with
+        schemaVersion: eventSchemas.get(type, type)?.version,
         ...context,
       }
     ).withSession(this.sessionId);
 
     if (this.userId) {
-      event = event.withUser(this.userId as any);
+      event = event.withUser(this.userId);
+    }
+
+    // Before the event is persisted, so personal data never reaches storage either
+    if (this.scrubber) {
+      const scrubbed = this.scrubber.scrub(event);
+      event = scrubbed.event;
+
+      if (scrubbed.report.length > 0) {
+        if (this.config.debug) {
+          console.log(`[DataSnack SDK] Scrubbed personal data from ${type}:`, scrubbed.report);
+        }
+        this.config.onScrub?.(event, scrubbed.report);
+      }
+    }
+
+    if (this.config.debug) {
+      const validation = eventSchemas.validate(event);
+      if (!validation.valid) {
+        console.warn(
+          `[DataSnack SDK] ${type} properties don't match schema v${validation.version}:`,
+          validation.issues,
+        );
+      }
     }
 
+    return event;
+  }
+
+  private enqueue(event: TrackingEvent): void {
     const queuedEvent: QueuedEvent = {
       event,
       retries: 0,
+      queuedAt: Date.now(),
+      nextAttemptAt: 0,
     };
 
     this.queue.push(queuedEvent);
+    this.persist([queuedEvent]);
+    this.enforceQueueLimit();
 
     if (this.config.debug) {
       console.log('[DataSnack SDK] Event queued:', queuedEvent);
@@ -194,8 +394,6 @@ export class DataSnackSDK {
     pressure?: number;
     element?: string;
   }[]): void {
-    if (!this.consent.personalization) return;
-
     const start = pattern[0];
     const end = pattern[pattern.length - 1];
     const duration = start && end ? end.timestamp - start.timestamp : 0;
@@ -212,8 +410,6 @@ export class DataSnackSDK {
     velocity?: number;
     direction?: 'up' | 'down';
   }[]): void {
-    if (!this.consent.analytics) return;
-
     const start = behavior[0];
     const end = behavior[behavior.length - 1];
     const duration = start && end ? end.timestamp - start.timestamp : 0;
@@ -239,35 +435,77 @@ export class DataSnackSDK {
   }
 
   // Identity management
+  // The server only accepts uuid user ids, so anything else isn't attached
   public identify(userId: string, traits: Record<string, any> = {}): void {
-    this.userId = userId;
-    
-    if (this.consent.analytics) {
-      this.track('identify', {
-        userId,
-        traits,
-      });
+    const parsed = UserId.safeParse(userId);
+    if (!parsed.success) {
+      if (this.config.debug) {
+        console.warn(`[DataSnack SDK] Ignored identify, ${userId} is not a uuid`);
+      }
+      return;
     }
+    this.userId = parsed.data;
+
+    this.track('identify', {
+      userId,
+      traits,
+    });
   }
 
   public reset(): void {
     this.userId = null;
     this.sessionId = this.generateSessionId();
     this.queue = [];
+    this.preConsentBuffer = [];
+    this.storage?.clear().catch(error => this.handleStorageError(error));
+    this.resendConsent();
   }
 
   // Consent management
-  public setConsent(consent: Partial<ConsentState>): void {
+  public setConsent(consent: Partial<ConsentState>, tcString?: string): void {
+    this.updateConsent(consent, tcString, 'sdk');
+  }
+
+  private updateConsent(
+    consent: Partial<ConsentState>,
+    tcString: string | undefined,
+    source: ConsentOrigin,
+  ): void {
     const oldConsent = { ...this.consent };
-    this.consent = { ...this.consent, ...consent };
+    const { consent: next, signal, overridden } = this.applyPrivacySignals({
+      ...this.consent,
+      ...consent,
+      necessary: true,
+    });
+    this.consent = next;
+    this.consentDecidedAt = new Date().toISOString();
+    // A foreign TC string no longer matches once the signal overrode part of it
+    this.tcString =
+      (overridden.length === 0 && tcString) || this.tcfCodec?.encode(this.consent) || null;
+
+    this.consentStore?.save({
+      version: this.config.consentVersion || CONSENT_VERSION,
+      categories: this.consent,
+      updatedAt: this.consentDecidedAt,
+      ...(this.tcString && { tcString: this.tcString }),
+    });
 
-    // Track consent change
+    // Track consent change ahead of the released buffer, so the server sees
+    // the new consent before the events that depend on it
     this.track('consent_change', {
       oldConsent,
       newConsent: this.consent,
       changedCategories: Object.keys(consent),
+      version: this.config.consentVersion || CONSENT_VERSION,
+      source: signal && overridden.length > 0 ? signal : source,
+      ...(signal && { privacySignal: signal }),
+      ...(this.tcString && { tcString: this.tcString }),
     });
 
+    this.resolvePreConsentBuffer();
+
+    this.notifyConsentListeners();
+
     if (this.config.debug) {
       console.log('[DataSnack SDK] Consent updated:', this.consent);
     }
@@ -277,28 +515,201 @@ export class DataSnackSDK {
     return { ...this.consent };
   }
 
-  private canTrack(eventType: EventType): boolean {
-    // Necessary events always allowed
-    if (['page_view', 'consent_change'].includes(eventType)) {
-      return true;
+  // Apply a TC string from another CMP, mapped back to our categories
+  public setConsentFromTcString(tcString: string): void {
+    const codec = this.tcfCodec || new TcfCodec();
+    const { analytics, marketing, personalization } = codec.toConsentState(tcString).categories;
+
+    this.setConsent(
+      {
+        analytics: analytics === true,
+        marketing: marketing === true,
+        personalization: personalization === true,
+      },
+      tcString,
+    );
+  }
+
+  // Null until the user has decided, or when TCF is not configured
+  public getTcString(): string | null {
+    return this.tcString;
+  }
+
+  // The browser privacy signal the SDK is acting on, if any
+  public getPrivacySignal(): PrivacySignal | null {
+    return this.applyPrivacySignals(this.consent).signal;
+  }
+
+  private detectPrivacySignals(): PrivacySignals {
+    if (typeof navigator === 'undefined') return { gpc: false, dnt: false };
+
+    const nav = navigator as Navigator & { globalPrivacyControl?: boolean };
+    return {
+      gpc: nav.globalPrivacyControl === true,
+      dnt: nav.doNotTrack === '1',
+    };
+  }
+
+  private applyPrivacySignals(consent: ConsentState) {
+    if (!this.privacySignalPolicy) {
+      return { consent, signal: null, overridden: [] };
     }
+    return applyPrivacySignals(consent, this.privacySignals, this.privacySignalPolicy);
+  }
+
+  // A stored opt-in that the browser's privacy signal now contradicts is
+  // revoked, and the change is recorded as signal-driven. True when it was.
+  private enforcePrivacySignals(): boolean {
+    if (this.isConsentRequired()) return false;
+    if (this.applyPrivacySignals(this.consent).overridden.length === 0) return false;
 
-    // Analytics events
-    if (['snack_start', 'snack_complete', 'click', 'scroll'].includes(eventType)) {
-      return this.consent.analytics;
+    this.updateConsent({}, undefined, 'sdk');
+
+    if (this.config.debug) {
+      console.log('[DataSnack SDK] Consent narrowed by privacy signal:', this.consent);
     }
+    return true;
+  }
 
-    // Marketing events
-    if (['share'].includes(eventType)) {
-      return this.consent.marketing;
+  // The server looks consent up by session, so a decision made in an earlier
+  // session or another tab is sent again for this one
+  private resendConsent(oldConsent: ConsentState = this.consent): void {
+    if (this.isConsentRequired()) return;
+
+    this.track('consent_change', {
+      oldConsent,
+      newConsent: this.consent,
+      changedCategories: [],
+      version: this.config.consentVersion || CONSENT_VERSION,
+      source: 'sdk',
+      restored: true,
+      ...(this.tcString && { tcString: this.tcString }),
+    });
+  }
+
+  // True until the user has made a decision for the current consent version
+  public isConsentRequired(): boolean {
+    return this.consentDecidedAt === null;
+  }
+
+  public onConsentChange(listener: (consent: ConsentState) => void): () => void {
+    this.consentListeners.add(listener);
+    return () => {
+      this.consentListeners.delete(listener);
+    };
+  }
+
+  private restoreConsent(): void {
+    if (!this.consentStore) return;
+
+    const stored = this.consentStore.load();
+    if (stored) {
+      if (stored.version === this.config.consentVersion) {
+        this.applyPersistedConsent(stored);
+      } else {
+        // Consent version was bumped, ask again
+        this.consentStore.clear();
+      }
     }
 
-    // Personalization events
-    if (['click_dna', 'scroll_behavior', 'privacy_leak'].includes(eventType)) {
-      return this.consent.personalization;
+    this.unsubscribeConsent = this.consentStore.subscribe(consent => {
+      // The originating tab tracked the change for its own session only
+      if (consent.version !== this.config.consentVersion) return;
+      if (this.consentDecidedAt && consent.updatedAt <= this.consentDecidedAt) return;
+
+      const oldConsent = { ...this.consent };
+      this.applyPersistedConsent(consent);
+      this.resendConsent(oldConsent);
+      this.resolvePreConsentBuffer();
+      this.notifyConsentListeners();
+
+      if (this.config.debug) {
+        console.log('[DataSnack SDK] Consent synchronised from another tab:', this.consent);
+      }
+    });
+  }
+
+  private applyPersistedConsent(stored: PersistedConsent): void {
+    this.consent = {
+      necessary: true,
+      analytics: stored.categories.analytics === true,
+      marketing: stored.categories.marketing === true,
+      personalization: stored.categories.personalization === true,
+    };
+    this.consentDecidedAt = stored.updatedAt;
+    this.tcString =
+      stored.tcString ?? this.tcfCodec?.encode(this.consent, new Date(stored.updatedAt)) ?? null;
+  }
+
+  private notifyConsentListeners(): void {
+    const consent = this.getConsent();
+    this.consentListeners.forEach(listener => listener(consent));
+  }
+
+  private canTrack(eventType: EventType): boolean {
+    return this.consent[this.getConsentCategory(eventType)];
+  }
+
+  // Same registry the server enforces, so client and server agree
+  private getConsentCategory(eventType: EventType): keyof ConsentState {
+    return eventRegistry.getCategory(eventType);
+  }
+
+  // Pre-consent buffering
+  private getPreConsentBufferConfig(): Required<PreConsentBufferConfig> | null {
+    const { preConsentBuffer } = this.config;
+    if (!preConsentBuffer) return null;
+
+    return {
+      ...DEFAULT_PRE_CONSENT_BUFFER,
+      ...preConsentBuffer,
+      policy: { ...DEFAULT_PRE_CONSENT_BUFFER.policy, ...preConsentBuffer.policy },
+    };
+  }
+
+  private shouldBuffer(category: OptionalConsentCategory): boolean {
+    // Only while the user hasn't decided yet, a decline is final
+    if (!this.isConsentRequired()) return false;
+    return this.getPreConsentBufferConfig()?.policy[category] === 'buffer';
+  }
+
+  private bufferEvent(event: TrackingEvent, category: OptionalConsentCategory): void {
+    const bufferConfig = this.getPreConsentBufferConfig();
+    if (!bufferConfig) return;
+
+    // Events are held in memory only, never sent or persisted before the decision
+    this.purgeExpiredBufferedEvents(bufferConfig.ttl);
+    this.preConsentBuffer.push({ event, category, bufferedAt: Date.now() });
+
+    if (this.preConsentBuffer.length > bufferConfig.maxEvents) {
+      this.preConsentBuffer.splice(0, this.preConsentBuffer.length - bufferConfig.maxEvents);
+    }
+
+    if (this.config.debug) {
+      console.log(`[DataSnack SDK] Event buffered until consent decision: ${event.type}`);
     }
+  }
 
-    return this.consent.analytics; // Default to analytics consent
+  private purgeExpiredBufferedEvents(ttl: number): void {
+    const cutoff = Date.now() - ttl;
+    this.preConsentBuffer = this.preConsentBuffer.filter(e => e.bufferedAt >= cutoff);
+  }
+
+  // Release buffered events whose category was granted, purge the rest
+  private resolvePreConsentBuffer(): void {
+    const bufferConfig = this.getPreConsentBufferConfig();
+    if (!bufferConfig || this.preConsentBuffer.length === 0) return;
+
+    this.purgeExpiredBufferedEvents(bufferConfig.ttl);
+    const released = this.preConsentBuffer.filter(e => this.consent[e.category]);
+    const purged = this.preConsentBuffer.length - released.length;
+    this.preConsentBuffer = [];
+
+    released.forEach(e => this.enqueue(e.event));
+
+    if (this.config.debug) {
+      console.log(`[DataSnack SDK] Pre-consent buffer: released ${released.length}, purged ${purged}`);
+    }
   }
 
   // Flushing and network
@@ -306,52 +717,243 @@ export class DataSnackSDK {
     if (this.queue.length === 0) return;
     if (!this.isOnline && !force) return;
 
-    const eventsToSend = [...this.queue];
-    this.queue = [];
+    // Wait out the backoff unless the page is going away
+    const now = Date.now();
+    if (!force && now < this.backoffUntil) return;
+
+    const eventsToSend = force ? [...this.queue] : this.queue.filter(e => e.nextAttemptAt <= now);
+    if (eventsToSend.length === 0) return;
+
+    this.queue = this.queue.filter(e => !eventsToSend.includes(e));
+    eventsToSend.forEach(e => this.inFlight.add(e.event.id));
+
+    // Use the beacon when the page is being hidden or unloaded
+    const transport = force && this.beaconTransport ? this.beaconTransport : this.transport;
+
+    for (const batch of this.chunkEvents(eventsToSend, transport.maxPayloadBytes)) {
+      await this.sendBatch(batch, transport);
+    }
+  }
+
+  private async sendBatch(batch: QueuedEvent[], transport: Transport): Promise<void> {
+    const now = Date.now();
 
     try {
-        await this.sendEvents(eventsToSend);
-      
+      await this.sendEvents(batch, transport);
+
+      this.unpersist(batch.map(e => e.event.id));
+      this.backoffUntil = 0;
+
       if (this.config.debug) {
-        console.log(`[DataSnack SDK] Successfully sent ${eventsToSend.length} events`);
+        console.log(`[DataSnack SDK] Successfully sent ${batch.length} events`);
       }
     } catch (error) {
+      const failure = DeliveryError.fromError(error);
+
       if (this.config.debug) {
-        console.error('[DataSnack SDK] Failed to send events:', error);
+        console.error('[DataSnack SDK] Failed to send events:', failure);
       }
 
-      // Re-queue events with retry logic
-        eventsToSend.forEach(event => {
-          if (event.retries < (this.config.maxRetries || 3)) {
-            event.retries++;
-            this.queue.unshift(event);
-          }
-        });
+      // Permanent failure, retrying the same payload won't help
+      if (!failure.retryable) {
+        this.deadLetter(batch, 'rejected', failure);
+        return;
+      }
+
+      // Re-queue the batch with exponential backoff
+      const attempt = Math.max(...batch.map(e => e.retries)) + 1;
+      const delay = this.getRetryDelay(attempt, failure.retryAfter);
+      const requeued: QueuedEvent[] = [];
+      const exhausted: QueuedEvent[] = [];
+      batch.forEach(event => {
+        if (event.retries < (this.config.maxRetries || 3)) {
+          event.retries++;
+          event.nextAttemptAt = now + delay;
+          requeued.push(event);
+        } else {
+          exhausted.push(event);
+        }
+      });
+
+      if (failure.isThrottled) {
+        this.backoffUntil = now + delay;
+      }
+
+      this.queue.unshift(...requeued);
+      this.persist(requeued);
+      this.deadLetter(exhausted, 'max_retries', failure);
+    } finally {
+      batch.forEach(e => this.inFlight.delete(e.event.id));
+    }
+  }
+
+  private async sendEvents(events: QueuedEvent[], transport: Transport): Promise<void> {
+    await transport.send({
+      endpoint: this.config.endpoint,
+      body: this.serializeBatch(events),
+      headers: this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {},
+    });
+  }
+
+  // Consent travels with the batch so the server can apply the same rules,
+  // sentAt lets it correct event timestamps for this device's clock
+  private serializeBatch(events: QueuedEvent[]): string {
+    return JSON.stringify({
+      events: events.map(e => e.event.toJSON()),
+      consent: this.consent,
+      sentAt: new Date().toISOString(),
+    });
+  }
+
+  // Split events into batches whose serialized body fits the transport limit
+  private chunkEvents(events: QueuedEvent[], maxBytes?: number): QueuedEvent[][] {
+    if (!maxBytes || byteLength(this.serializeBatch(events)) <= maxBytes) {
+      return [events];
     }
+
+    const envelope = byteLength(this.serializeBatch([]));
+    const chunks: QueuedEvent[][] = [];
+    let current: QueuedEvent[] = [];
+    let size = envelope;
+
+    events.forEach(event => {
+      // +1 for the separating comma
+      const eventSize = byteLength(JSON.stringify(event.event.toJSON())) + 1;
+      if (current.length > 0 && size + eventSize > maxBytes) {
+        chunks.push(current);
+        current = [];
+        size = envelope;
+      }
+      current.push(event);
+      size += eventSize;
+    });
+
+    if (current.length > 0) {
+      chunks.push(current);
+    }
+
+    return chunks;
   }
 
-    private async sendEvents(events: QueuedEvent[]): Promise<void> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
+  // Queue persistence
+  private async restoreQueue(): Promise<void> {
+    if (!this.storage) return;
 
     try {
-      const response = await fetch(this.config.endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(this.config.apiKey && { 'Authorization': `Bearer ${this.config.apiKey}` }),
-        },
-          body: JSON.stringify({ events: events.map(e => e.event.toJSON()) }),
-        signal: controller.signal,
-        keepalive: true,
+      const stored = await this.storage.load();
+      const maxAge = this.config.maxQueueAge;
+      const knownIds = new Set([...this.queue.map(e => e.event.id), ...this.inFlight]);
+      const expired: QueuedEvent[] = [];
+      const restored: QueuedEvent[] = [];
+
+      stored.forEach(entry => {
+        if (maxAge && entry.queuedAt < Date.now() - maxAge) {
+          expired.push({
+            event: TrackingEvent.fromJSON(entry.event),
+            retries: entry.retries,
+            queuedAt: entry.queuedAt,
+            nextAttemptAt: 0,
+          });
+          return;
+        }
+        // De-duplicate by event id
+        if (knownIds.has(entry.id)) return;
+        knownIds.add(entry.id);
+
+        restored.push({
+          event: TrackingEvent.fromJSON(entry.event),
+          retries: entry.retries,
+          queuedAt: entry.queuedAt,
+          nextAttemptAt: entry.nextAttemptAt || 0,
+        });
       });
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      this.deadLetter(expired, 'expired');
+      this.queue = [...restored, ...this.queue];
+      this.enforceQueueLimit();
+
+      if (this.config.debug && restored.length > 0) {
+        console.log(`[DataSnack SDK] Restored ${restored.length} persisted events`);
       }
-    } finally {
-      clearTimeout(timeoutId);
+
+      if (restored.length > 0) {
+        this.flush();
+      }
+    } catch (error) {
+      this.handleStorageError(error);
+    }
+  }
+
+  private enforceQueueLimit(): void {
+    const maxSize = this.config.maxQueueSize || 500;
+    if (this.queue.length <= maxSize) return;
+
+    // Drop the oldest events first
+    const dropped = this.queue.splice(0, this.queue.length - maxSize);
+    this.deadLetter(dropped, 'queue_full');
+  }
+
+  private persist(events: QueuedEvent[]): void {
+    if (!this.storage || events.length === 0) return;
+
+    const stored: StoredEvent[] = events.map(e => ({
+      id: e.event.id,
+      event: e.event.toJSON(),
+      retries: e.retries,
+      queuedAt: e.queuedAt,
+      nextAttemptAt: e.nextAttemptAt,
+    }));
+    this.storage.put(stored).catch(error => this.handleStorageError(error));
+  }
+
+  private unpersist(ids: string[]): void {
+    if (!this.storage || ids.length === 0) return;
+    this.storage.remove(ids).catch(error => this.handleStorageError(error));
+  }
+
+  // Retry handling
+  private getRetryDelay(attempt: number, retryAfter?: number): number {
+    const base = this.config.retryBaseDelay || 1000;
+    const max = this.config.retryMaxDelay || 5 * 60 * 1000;
+    const exponential = Math.min(max, base * 2 ** (attempt - 1));
+
+    // Equal jitter, so clients that failed together don't retry together
+    const delay = exponential / 2 + Math.random() * (exponential / 2);
+
+    return Math.min(max, Math.max(delay, retryAfter || 0));
+  }
+
+  private deadLetter(events: QueuedEvent[], reason: DeadLetterReason, failure?: DeliveryError): void {
+    if (events.length === 0) return;
+
+    this.unpersist(events.map(e => e.event.id));
+
+    if (this.config.debug) {
+      console.warn(`[DataSnack SDK] Dropped ${events.length} events (${reason})`);
+    }
+
+    try {
+      this.config.onDeadLetter?.({
+        events: events.map(e => e.event),
+        reason,
+        status: failure?.status,
+        error: failure?.message,
+      });
+    } catch (error) {
+      console.error('[DataSnack SDK] Dead-letter handler failed:', error);
+    }
+  }
+
+  // A storage that fails (IndexedDB blocked in private mode, quota exceeded)
+  // is replaced by memory for the rest of the page load
+  private handleStorageError(error: unknown): void {
+    if (this.config.debug) {
+      console.error('[DataSnack SDK] Queue storage failed, keeping events in memory:', error);
     }
+    if (!this.storage || this.storage instanceof MemoryQueueStorage) return;
+
+    this.storage = new MemoryQueueStorage();
+    this.persist(this.queue);
   }
 
   private getDefaultContext(): Partial<EventContext> {
@@ -380,6 +982,8 @@ export class DataSnackSDK {
     if (this.flushTimer) {
       clearInterval(this.flushTimer);
     }
+    this.unsubscribeConsent?.();
+    this.consentListeners.clear();
     this.flush(true); // Final flush
   }
 }
@@ -400,8 +1004,8 @@ export function getDataSnack(): DataSnackSDK {
 }
 
 // Convenience functions for global usage
-export const track = (type: EventType | string, properties?: EventProperties, context?: Partial<EventContext>) => {
-  getDataSnack().track(type, properties, context);
+export const track = <T extends EventType>(type: T, ...args: TrackArgs<T>) => {
+  getDataSnack().track(type, ...args);
 };
 
 export const page = (name: string, properties?: EventProperties) => {
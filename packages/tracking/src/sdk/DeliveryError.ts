@@ -0,0 +1,53 @@
+// Failure to deliver a batch to the tracking endpoint
+export class DeliveryError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly retryAfter?: number, // milliseconds
+  ) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+
+  // Network failures, timeouts, throttling and server errors are worth retrying;
+  // other 4xx responses mean the payload itself was rejected
+  get retryable(): boolean {
+    if (this.status === undefined) return true;
+    return this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+
+  // Server explicitly asked us to slow down
+  get isThrottled(): boolean {
+    return this.retryAfter !== undefined || this.status === 429 || this.status === 503;
+  }
+
+  static fromResponse(response: Response): DeliveryError {
+    return new DeliveryError(
+      `HTTP ${response.status}: ${response.statusText}`,
+      response.status,
+      parseRetryAfter(response.headers.get('retry-after')),
+    );
+  }
+
+  static fromError(error: unknown): DeliveryError {
+    if (error instanceof DeliveryError) return error;
+    return new DeliveryError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
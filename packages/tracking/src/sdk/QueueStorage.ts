@@ -0,0 +1,120 @@
+import type { TrackingEventJSON } from '@data-snack/core';
+
+// Persisted representation of a queued event
+export interface StoredEvent {
+  id: string;
+  event: TrackingEventJSON;
+  retries: number;
+  queuedAt: number;
+  nextAttemptAt?: number;
+}
+
+// Pluggable persistence for the SDK event queue
+export interface QueueStorage {
+  load(): Promise<StoredEvent[]>;
+  put(events: StoredEvent[]): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// In-memory storage (fallback when IndexedDB is unavailable, e.g. SSR or private mode)
+export class MemoryQueueStorage implements QueueStorage {
+  private events = new Map<string, StoredEvent>();
+
+  async load(): Promise<StoredEvent[]> {
+    return [...this.events.values()].sort((a, b) => a.queuedAt - b.queuedAt);
+  }
+
+  async put(events: StoredEvent[]): Promise<void> {
+    events.forEach(event => this.events.set(event.id, event));
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    ids.forEach(id => this.events.delete(id));
+  }
+
+  async clear(): Promise<void> {
+    this.events.clear();
+  }
+}
+
+// IndexedDB storage, survives reloads and tab closes
+export class IndexedDBQueueStorage implements QueueStorage {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly dbName: string = 'data-snack',
+    private readonly storeName: string = 'event-queue',
+  ) {}
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async load(): Promise<StoredEvent[]> {
+    const events = await this.request<StoredEvent[]>('readonly', store => store.getAll());
+    return events.sort((a, b) => a.queuedAt - b.queuedAt);
+  }
+
+  async put(events: StoredEvent[]): Promise<void> {
+    if (events.length === 0) return;
+    await this.transaction(store => events.forEach(event => store.put(event)));
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.transaction(store => ids.forEach(id => store.delete(id)));
+  }
+
+  async clear(): Promise<void> {
+    await this.transaction(store => {
+      store.clear();
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async transaction(operation: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(this.storeName, 'readwrite');
+      operation(tx.objectStore(this.storeName));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+}
+
+export function createQueueStorage(): QueueStorage {
+  return IndexedDBQueueStorage.isSupported() ? new IndexedDBQueueStorage() : new MemoryQueueStorage();
+}
@@ -0,0 +1,181 @@
+import { TCF_POLICY_VERSION, TcfCodec, TcfOptions } from '@data-snack/core';
+import type { DataSnackSDK } from './DataSnackSDK';
+
+type TcfApiCallback = (result: unknown, success: boolean) => void;
+type TcfApi = ((
+  command: string,
+  version: number,
+  callback: TcfApiCallback,
+  parameter?: unknown,
+) => void) & { a?: unknown[][] };
+
+type TcfEventStatus = 'tcloaded' | 'cmpuishown' | 'useractioncomplete';
+
+declare global {
+  interface Window {
+    __tcfapi?: TcfApi;
+  }
+}
+
+export interface TcfApiOptions extends TcfOptions {
+  gdprApplies?: boolean;
+}
+
+const LOCATOR_NAME = '__tcfapiLocator';
+
+// Installs the IAB TCF v2.2 `__tcfapi` CMP API backed by the SDK's consent,
+// including the `__tcfapiLocator` frame for vendors running in iframes.
+// Returns a cleanup function.
+export function installTcfApi(sdk: DataSnackSDK, options: TcfApiOptions = {}): () => void {
+  if (typeof window === 'undefined') return () => {};
+
+  // Another CMP is already in charge, only replace a queueing stub
+  const existing = window.__tcfapi;
+  if (existing && !Array.isArray(existing.a)) return () => {};
+
+  const codec = new TcfCodec(options);
+  const gdprApplies = options.gdprApplies ?? true;
+  const listeners = new Map<number, TcfApiCallback>();
+  let nextListenerId = 1;
+
+  const buildTcData = (eventStatus: TcfEventStatus, listenerId?: number) => {
+    const tcString = sdk.getTcString();
+    const data = tcString ? codec.decode(tcString) : null;
+
+    return {
+      tcString: tcString ?? undefined,
+      tcfPolicyVersion: TCF_POLICY_VERSION,
+      cmpId: options.cmpId ?? 0,
+      cmpVersion: options.cmpVersion ?? 1,
+      gdprApplies,
+      eventStatus: tcString ? eventStatus : 'cmpuishown',
+      cmpStatus: 'loaded',
+      listenerId,
+      isServiceSpecific: true,
+      useNonStandardTexts: false,
+      publisherCC: options.publisherCountryCode ?? 'DE',
+      purposeOneTreatment: false,
+      purpose: {
+        consents: toFlags(data?.purposeConsents ?? []),
+        legitimateInterests: toFlags(data?.purposeLegitimateInterests ?? []),
+      },
+      vendor: {
+        consents: toFlags(data?.vendorConsents ?? []),
+        legitimateInterests: toFlags(data?.vendorLegitimateInterests ?? []),
+      },
+      specialFeatureOptins: toFlags(data?.specialFeatureOptIns ?? []),
+      publisher: {
+        consents: {},
+        legitimateInterests: {},
+        customPurpose: { consents: {}, legitimateInterests: {} },
+        restrictions: {},
+      },
+    };
+  };
+
+  const tcfapi: TcfApi = (command, version, callback, parameter) => {
+    if (typeof callback !== 'function') return;
+    if (version !== undefined && version !== 2) {
+      callback(null, false);
+      return;
+    }
+
+    switch (command) {
+      case 'ping':
+        callback(
+          {
+            gdprApplies,
+            cmpLoaded: true,
+            cmpStatus: 'loaded',
+            displayStatus: sdk.isConsentRequired() ? 'visible' : 'hidden',
+            apiVersion: '2.2',
+            cmpVersion: options.cmpVersion ?? 1,
+            cmpId: options.cmpId ?? 0,
+            gvlVersion: options.vendorListVersion ?? 1,
+            tcfPolicyVersion: TCF_POLICY_VERSION,
+          },
+          true,
+        );
+        break;
+
+      case 'getTCData':
+        callback(buildTcData('tcloaded'), true);
+        break;
+
+      case 'addEventListener': {
+        const listenerId = nextListenerId++;
+        listeners.set(listenerId, callback);
+        callback(buildTcData('tcloaded', listenerId), true);
+        break;
+      }
+
+      case 'removeEventListener':
+        callback(listeners.delete(parameter as number), true);
+        break;
+
+      default:
+        callback(null, false);
+    }
+  };
+
+  // Calls made against the stub before the SDK loaded
+  const queued = existing?.a ?? [];
+  window.__tcfapi = tcfapi;
+  queued.forEach(args => tcfapi(...(args as Parameters<TcfApi>)));
+
+  const unsubscribe = sdk.onConsentChange(() => {
+    listeners.forEach((callback, listenerId) =>
+      callback(buildTcData('useractioncomplete', listenerId), true),
+    );
+  });
+
+  // Cross-frame calls: vendors in iframes post `__tcfapiCall` to the frame holding the locator
+  const handleMessage = (event: MessageEvent) => {
+    let data = event.data;
+    if (typeof data === 'string') {
+      try {
+        data = JSON.parse(data);
+      } catch {
+        return;
+      }
+    }
+
+    const call = data?.__tcfapiCall;
+    if (!call || !event.source) return;
+
+    tcfapi(
+      call.command,
+      call.version,
+      (returnValue, success) => {
+        const message = { __tcfapiReturn: { returnValue, success, callId: call.callId } };
+        (event.source as Window).postMessage(
+          typeof event.data === 'string' ? JSON.stringify(message) : message,
+          '*',
+        );
+      },
+      call.parameter,
+    );
+  };
+  window.addEventListener('message', handleMessage);
+
+  let locator: HTMLIFrameElement | null = null;
+  if (!document.querySelector(`iframe[name="${LOCATOR_NAME}"]`)) {
+    locator = document.createElement('iframe');
+    locator.name = LOCATOR_NAME;
+    locator.style.display = 'none';
+    locator.setAttribute('aria-hidden', 'true');
+    document.body.appendChild(locator);
+  }
+
+  return () => {
+    unsubscribe();
+    listeners.clear();
+    window.removeEventListener('message', handleMessage);
+    locator?.remove();
+    if (window.__tcfapi === tcfapi) delete window.__tcfapi;
+  };
+}
+
+function toFlags(ids: number[]): Record<number, boolean> {
+  return Object.fromEntries(ids.map(id => [id, true]));
+}
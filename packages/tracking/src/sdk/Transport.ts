@@ -0,0 +1,147 @@
+import { DeliveryError } from './DeliveryError';
+
+export interface TransportRequest {
+  endpoint: string;
+  body: string;
+  headers: Record<string, string>;
+}
+
+// Delivers serialized batches to the tracking endpoint
+export interface Transport {
+  // Largest body the transport can carry, batches are chunked to fit
+  readonly maxPayloadBytes?: number;
+  send(request: TransportRequest): Promise<void>;
+}
+
+// Keepalive requests share a 64KB body budget with beacons
+const KEEPALIVE_LIMIT = 64 * 1024;
+
+export type BodyCompression = 'gzip' | 'deflate';
+
+export interface FetchTransportOptions {
+  timeout?: number;
+  compression?: BodyCompression | false;
+  // Smaller bodies aren't worth compressing
+  compressionThreshold?: number;
+}
+
+export class FetchTransport implements Transport {
+  private options: Required<FetchTransportOptions>;
+  private compressionRejected = false;
+
+  constructor(options: FetchTransportOptions = {}) {
+    this.options = {
+      timeout: 10000,
+      compression: false,
+      compressionThreshold: 1024,
+      ...options,
+    };
+  }
+
+  static isCompressionSupported(): boolean {
+    return typeof CompressionStream !== 'undefined';
+  }
+
+  async send(request: TransportRequest): Promise<void> {
+    const { compression, compressionThreshold } = this.options;
+
+    if (
+      compression &&
+      !this.compressionRejected &&
+      FetchTransport.isCompressionSupported() &&
+      byteLength(request.body) >= compressionThreshold
+    ) {
+      try {
+        await this.post(request, await compressBody(request.body, compression), compression);
+        return;
+      } catch (error) {
+        // Server doesn't accept the encoding, send uncompressed from now on
+        if (!(error instanceof DeliveryError && error.status === 415)) throw error;
+        this.compressionRejected = true;
+      }
+    }
+
+    await this.post(request, request.body);
+  }
+
+  private async post(
+    { endpoint, headers }: TransportRequest,
+    body: string | Blob,
+    encoding?: BodyCompression,
+  ): Promise<void> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.options.timeout);
+    const size = typeof body === 'string' ? byteLength(body) : body.size;
+
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(encoding && { 'Content-Encoding': encoding }),
+          ...headers,
+        },
+        body,
+        signal: controller.signal,
+        // keepalive requests above the limit are rejected outright
+        keepalive: size < KEEPALIVE_LIMIT,
+      });
+
+      if (!response.ok) {
+        throw DeliveryError.fromResponse(response);
+      }
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+// navigator.sendBeacon, survives page unload but can't carry custom headers
+// and gives no response. text/plain keeps the request CORS-safelisted.
+export class BeaconTransport implements Transport {
+  readonly maxPayloadBytes: number;
+
+  constructor(maxPayloadBytes: number = 60 * 1024) {
+    this.maxPayloadBytes = maxPayloadBytes;
+  }
+
+  static isSupported(): boolean {
+    return typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function';
+  }
+
+  async send({ endpoint, body }: TransportRequest): Promise<void> {
+    const queued = navigator.sendBeacon(endpoint, new Blob([body], { type: 'text/plain' }));
+
+    if (!queued) {
+      throw new DeliveryError('Beacon was not queued by the browser');
+    }
+  }
+}
+
+// Records requests instead of sending them, for tests and local debugging
+export class MemoryTransport implements Transport {
+  readonly requests: TransportRequest[] = [];
+
+  constructor(
+    private readonly respond: (request: TransportRequest) => void | Promise<void> = () => {},
+    readonly maxPayloadBytes?: number,
+  ) {}
+
+  async send(request: TransportRequest): Promise<void> {
+    await this.respond(request);
+    this.requests.push(request);
+  }
+
+  clear(): void {
+    this.requests.length = 0;
+  }
+}
+
+async function compressBody(body: string, format: BodyCompression): Promise<Blob> {
+  const stream = new Blob([body]).stream().pipeThrough(new CompressionStream(format));
+  return new Response(stream).blob();
+}
+
+export function byteLength(value: string): number {
+  return new TextEncoder().encode(value).length;
+}
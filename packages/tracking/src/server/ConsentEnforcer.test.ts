@@ -0,0 +1,226 @@
+import { TrackingEvent, TrackingEventJSON } from '@data-snack/core';
+import { createMemoryRepositories } from '@data-snack/database';
+import { describe, expect, it, vi } from 'vitest';
+import { ConsentStore, PersistedConsent } from '../sdk/ConsentStore';
+import { DataSnackSDK } from '../sdk/DataSnackSDK';
+import { TransportRequest } from '../sdk/Transport';
+import { ConsentEnforcer, ConsentSource, IngestionSummary, StoredConsent } from './ConsentEnforcer';
+import { ConsentLedger } from './ConsentLedger';
+import { IngestionPipeline } from './IngestionPipeline';
+import { ServerTracker } from './ServerTracker';
+
+const noConsentOnRecord: ConsentSource = { findLatest: async () => null };
+
+// An SDK in the state before the consent banner was answered, sending into requests
+function createSDK(requests: TransportRequest[]): DataSnackSDK {
+  return new DataSnackSDK({
+    endpoint: 'https://example.com/api/track',
+    flushInterval: 0,
+    persistence: false,
+    persistConsent: false,
+    privacySignals: false,
+    beaconTransport: false,
+    preConsentBuffer: {},
+    transport: { send: async request => void requests.push(request) },
+  });
+}
+
+const sentEvents = (requests: TransportRequest[]) =>
+  requests.flatMap(request =>
+    (JSON.parse(request.body).events as TrackingEventJSON[]).map(event =>
+      TrackingEvent.fromJSON(event),
+    ),
+  );
+
+describe('ConsentEnforcer', () => {
+  it('accepts events the SDK buffered until consent was given', async () => {
+    const requests: TransportRequest[] = [];
+    const sdk = createSDK(requests);
+    sdk.click('hero-cta');
+    sdk.scroll(50);
+    sdk.setConsent({ analytics: true });
+    await sdk.flush();
+
+    const events = sentEvents(requests);
+    expect(events.map(event => event.type)).toEqual(['consent_change', 'click', 'scroll']);
+
+    const enforcer = new ConsentEnforcer(noConsentOnRecord);
+    const decisions = await enforcer.enforce(events, sdk.getConsent());
+    expect(decisions.map(decision => decision.status)).toEqual([
+      'accepted',
+      'accepted',
+      'accepted',
+    ]);
+  });
+
+  it('applies the latest consent change in a batch to all of the subject’s events', async () => {
+    const click = TrackingEvent.create('click', 'click', {}).withSession('session-1');
+    const change = (analytics: boolean, at: string) =>
+      new TrackingEvent(
+        crypto.randomUUID(),
+        null,
+        'session-1',
+        'consent_change',
+        'consent_change',
+        { newConsent: { analytics } },
+        {},
+        new Date(at),
+      );
+    const otherSession = TrackingEvent.create('click', 'click', {}).withSession('session-2');
+
+    const enforcer = new ConsentEnforcer(noConsentOnRecord);
+    const decisions = await enforcer.enforce([
+      click,
+      change(false, '2026-10-19T12:00:00Z'),
+      change(true, '2026-10-19T12:00:01Z'),
+      otherSession,
+    ]);
+    expect(decisions.map(decision => decision.status)).toEqual([
+      'accepted',
+      'accepted',
+      'accepted',
+      'rejected',
+    ]);
+  });
+
+  it('keeps the consent on record when it is newer than the batch’s change', async () => {
+    const stored: StoredConsent = {
+      categories: { necessary: true, analytics: false },
+      updatedAt: new Date('2026-10-19T13:00:00Z'),
+    };
+    const enforcer = new ConsentEnforcer({ findLatest: async () => stored }, 'anonymize');
+    const decisions = await enforcer.enforce([
+      new TrackingEvent(
+        crypto.randomUUID(),
+        null,
+        'session-1',
+        'consent_change',
+        'consent_change',
+        { newConsent: { analytics: true } },
+        {},
+        new Date('2026-10-19T12:00:00Z'),
+      ),
+      TrackingEvent.create('click', 'click', {}).withSession('session-1'),
+      TrackingEvent.create('click_dna', 'click_dna', {}).withSession('session-1'),
+    ]);
+    expect(decisions.map(decision => decision.status)).toEqual([
+      'accepted',
+      'anonymized',
+      'rejected',
+    ]);
+  });
+
+  it('orders the batch’s change and the consent on record by the server clock', async () => {
+    // Withdrawn at 12:30 server time
+    const stored: StoredConsent = {
+      categories: { necessary: true, analytics: false },
+      updatedAt: new Date('2026-10-19T12:30:00Z'),
+    };
+    const tracker = new ServerTracker({
+      enableDatabase: false,
+      enableGTMServer: false,
+      consentEnforcement: 'reject',
+      consentSource: { findLatest: async () => stored },
+    });
+    const receivedAt = new Date('2026-10-19T13:00:00Z');
+    const grantThenClick = (clientTime: string) => [
+      new TrackingEvent(
+        crypto.randomUUID(),
+        null,
+        'session-1',
+        'consent_change',
+        'consent_change',
+        { newConsent: { analytics: true } },
+        {},
+        new Date(clientTime),
+      ),
+      TrackingEvent.create('click', 'click', {})
+        .withSession('session-1')
+        .withTimestamp(new Date(clientTime)),
+    ];
+    const statuses = (summary: IngestionSummary) => summary.results.map(result => result.status);
+
+    // A clock an hour fast: granted at 12:00, before the withdrawal
+    const fast = await tracker.trackBatch(grantThenClick('2026-10-19T13:00:00Z'), undefined, {
+      sentAt: new Date('2026-10-19T14:00:00Z'),
+      receivedAt,
+    });
+    expect(statuses(fast)).toEqual(['accepted', 'rejected']);
+
+    // A clock an hour slow: granted at 12:45, after it
+    const slow = await tracker.trackBatch(grantThenClick('2026-10-19T11:45:00Z'), undefined, {
+      sentAt: new Date('2026-10-19T12:00:00Z'),
+      receivedAt,
+    });
+    expect(statuses(slow)).toEqual(['accepted', 'accepted']);
+  });
+});
+
+// Consent kept the way localStorage would keep it between page loads
+class MemoryConsentStore extends ConsentStore {
+  private saved: PersistedConsent | null = null;
+
+  load(): PersistedConsent | null {
+    return this.saved;
+  }
+
+  save(consent: PersistedConsent): void {
+    this.saved = consent;
+  }
+}
+
+describe('consent enforcement across sessions', () => {
+  it('accepts the events of a returning visitor whose consent was restored', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const repositories = createMemoryRepositories();
+    const ledger = new ConsentLedger(repositories);
+    const tracker = new ServerTracker({
+      enableGTMServer: false,
+      consentEnforcement: 'reject',
+      consentSource: ledger,
+      repositories,
+    });
+    const pipeline = new IngestionPipeline({ tracker, ledger });
+    const consentStore = new MemoryConsentStore();
+
+    // One SDK per page load, sharing the persisted consent
+    const pageLoad = async (visit: (sdk: DataSnackSDK) => void) => {
+      const requests: TransportRequest[] = [];
+      const sdk = new DataSnackSDK({
+        endpoint: 'https://example.com/api/track',
+        flushInterval: 0,
+        persistence: false,
+        persistConsent: consentStore,
+        privacySignals: false,
+        beaconTransport: false,
+        transport: { send: async request => void requests.push(request) },
+      });
+      visit(sdk);
+      await sdk.flush();
+
+      const [request] = requests;
+      const response = await pipeline.ingest({
+        body: JSON.parse(request?.body ?? '{}'),
+        headers: {},
+      });
+      return (response.body as IngestionSummary).results;
+    };
+
+    const first = await pageLoad(sdk => {
+      sdk.setConsent({ analytics: true });
+      sdk.snackStart('snack-1');
+    });
+    expect(first.map(({ type, status }) => [type, status])).toEqual([
+      ['consent_change', 'accepted'],
+      ['snack_start', 'accepted'],
+    ]);
+
+    const second = await pageLoad(sdk => sdk.snackStart('snack-2'));
+    expect(second.map(({ type, status }) => [type, status])).toEqual([
+      ['consent_change', 'accepted'],
+      ['snack_start', 'accepted'],
+    ]);
+    consentStore.close();
+    vi.restoreAllMocks();
+  });
+});
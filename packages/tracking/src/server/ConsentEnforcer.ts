@@ -0,0 +1,204 @@
+import { ConsentCategory, GrantedConsent, TrackingEvent, eventRegistry } from '@data-snack/core';
+import type { Repositories } from '@data-snack/database';
+
+export type ConsentEnforcementMode = 'reject' | 'anonymize';
+export type EventStatus = 'accepted' | 'anonymized' | 'rejected';
+
+export interface ConsentSubject {
+  userId: string | null;
+  sessionId: string;
+}
+
+export interface StoredConsent {
+  categories: GrantedConsent;
+  updatedAt: Date;
+}
+
+// Where the server looks up the latest consent decision
+export interface ConsentSource {
+  findLatest(subject: ConsentSubject): Promise<StoredConsent | null>;
+}
+
+export interface ConsentDecision {
+  // Anonymized events still carry their identifiers here, the tracker
+  // strips them once the event is enriched
+  event: TrackingEvent;
+  status: EventStatus;
+  reason?: string;
+  // Consent the event was checked against, recorded with it
+  consent?: GrantedConsent;
+}
+
+// Once stored, an accepted event may turn out to be a retry of one already
+// stored, or a row the database refused
+export type IngestionStatus = EventStatus | 'duplicate' | 'failed';
+
+export interface IngestionOutcome extends Omit<ConsentDecision, 'status'> {
+  status: IngestionStatus;
+}
+
+export interface EventResult {
+  index: number;
+  id: string;
+  type: string;
+  status: IngestionStatus;
+  reason?: string;
+}
+
+export interface IngestionSummary {
+  accepted: number;
+  anonymized: number;
+  rejected: number;
+  duplicate: number;
+  failed: number;
+  results: EventResult[];
+}
+
+const NECESSARY_ONLY: GrantedConsent = {
+  necessary: true,
+  analytics: false,
+  marketing: false,
+  personalization: false,
+};
+
+// Checks events against the consent the server knows about, so a modified
+// client can't send more than the user agreed to
+export class ConsentEnforcer {
+  constructor(
+    private readonly source: ConsentSource,
+    private readonly mode: ConsentEnforcementMode = 'reject',
+  ) {}
+
+  // skewMs puts the client's timestamps on the server clock, which the
+  // consent on record is dated by
+  async enforce(
+    events: TrackingEvent[],
+    declared?: GrantedConsent,
+    skewMs: number = 0,
+  ): Promise<ConsentDecision[]> {
+    const known = new Map<string, StoredConsent | null>();
+    const subjectKey = (event: TrackingEvent) =>
+      event.userId ? `user:${event.userId}` : `session:${event.sessionId}`;
+
+    for (const event of events) {
+      const key = subjectKey(event);
+      if (!known.has(key)) {
+        known.set(
+          key,
+          await this.source.findLatest({ userId: event.userId, sessionId: event.sessionId }),
+        );
+      }
+    }
+
+    // The latest consent change in the batch applies to all of the subject's
+    // events in it. Events the SDK held back until consent was given are
+    // older than the change that released them.
+    events.forEach(event => {
+      if (event.type !== 'consent_change') return;
+      const categories = consentFromProperties(event.properties);
+      const key = subjectKey(event);
+      const current = known.get(key);
+      const changedAt = new Date(event.timestamp.getTime() + skewMs);
+      if (categories && (!current || changedAt >= current.updatedAt)) {
+        known.set(key, { categories, updatedAt: changedAt });
+      }
+    });
+
+    return events.map(event => {
+      const stored = known.get(subjectKey(event))?.categories ?? NECESSARY_ONLY;
+      return this.decide(event, intersectConsent(stored, declared));
+    });
+  }
+
+  private decide(event: TrackingEvent, consent: GrantedConsent): ConsentDecision {
+    if (eventRegistry.isAllowed(event.type, consent)) {
+      return { event, status: 'accepted', consent };
+    }
+
+    const policy = eventRegistry.getPolicy(event.type);
+
+    // Anonymizing can't make biometric or fingerprint data compliant
+    if (this.mode === 'anonymize' && policy.pii.length === 0) {
+      return { event, status: 'anonymized', consent };
+    }
+
+    return { event, status: 'rejected', reason: `missing_consent:${policy.category}`, consent };
+  }
+}
+
+export function summarizeDecisions(decisions: IngestionOutcome[]): IngestionSummary {
+  const summary: IngestionSummary = {
+    accepted: 0,
+    anonymized: 0,
+    rejected: 0,
+    duplicate: 0,
+    failed: 0,
+    results: [],
+  };
+
+  decisions.forEach((decision, index) => {
+    summary[decision.status]++;
+    summary.results.push({
+      index,
+      id: decision.event.id,
+      type: decision.event.type,
+      status: decision.status,
+      ...(decision.reason && { reason: decision.reason }),
+    });
+  });
+
+  return summary;
+}
+
+// Repository lookup: the user's consent or the latest consent_change event,
+// whichever is more recent
+export class RepositoryConsentSource implements ConsentSource {
+  constructor(private readonly repositories: Pick<Repositories, 'users' | 'events'>) {}
+
+  async findLatest({ userId, sessionId }: ConsentSubject): Promise<StoredConsent | null> {
+    const [user, event] = await Promise.all([
+      userId ? this.repositories.users.findById(userId) : Promise.resolve(null),
+      this.repositories.events.findLatest('consent_change', { userId, sessionId }),
+    ]);
+
+    const candidates: StoredConsent[] = [];
+
+    if (user) {
+      candidates.push({
+        categories: { ...user.consent.categories, necessary: true },
+        updatedAt: user.consent.grantedAt ?? user.lastSeenAt,
+      });
+    }
+
+    const eventConsent = event ? consentFromProperties(event.properties) : null;
+    if (event && eventConsent) {
+      candidates.push({ categories: eventConsent, updatedAt: event.timestamp });
+    }
+
+    return candidates.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())[0] ?? null;
+  }
+}
+
+// consent_change events carry the new state as `newConsent` (SDK) or `consent` (API)
+export function consentFromProperties(properties: Record<string, unknown>): GrantedConsent | null {
+  const value = properties.newConsent ?? properties.consent;
+  if (!value || typeof value !== 'object') return null;
+
+  const consent: GrantedConsent = { necessary: true };
+  ConsentCategory.options.forEach(category => {
+    if (category === 'necessary') return;
+    consent[category] = (value as Record<string, unknown>)[category] === true;
+  });
+  return consent;
+}
+
+function intersectConsent(stored: GrantedConsent, declared?: GrantedConsent): GrantedConsent {
+  if (!declared) return stored;
+
+  const consent: GrantedConsent = { necessary: true };
+  ConsentCategory.options.forEach(category => {
+    if (category === 'necessary') return;
+    consent[category] = stored[category] === true && declared[category] === true;
+  });
+  return consent;
+}
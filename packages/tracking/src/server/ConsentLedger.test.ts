@@ -0,0 +1,39 @@
+import { TrackingEvent } from '@data-snack/core';
+import { createMemoryRepositories } from '@data-snack/database';
+import { describe, expect, it } from 'vitest';
+import { ConsentLedger } from './ConsentLedger';
+
+const consentChange = (source: string) =>
+  TrackingEvent.create('consent_change', 'consent_change', {
+    newConsent: { analytics: true, marketing: true },
+    source,
+  }).withSession('session-1');
+
+describe('ConsentLedger.recordConsentEvents', () => {
+  it('records the source a client may claim', async () => {
+    const ledger = new ConsentLedger(createMemoryRepositories());
+    const [record] = await ledger.recordConsentEvents([consentChange('banner')]);
+    expect(record?.source).toBe('banner');
+  });
+
+  it("doesn't let the client claim a privacy signal or an import", async () => {
+    const ledger = new ConsentLedger(createMemoryRepositories());
+    const records = await ledger.recordConsentEvents([
+      consentChange('gpc'),
+      consentChange('dnt'),
+      consentChange('import'),
+    ]);
+    expect(records.map(record => record.source)).toEqual(['sdk', 'sdk', 'sdk']);
+  });
+
+  it('records the privacy signal the request carried', async () => {
+    const ledger = new ConsentLedger(createMemoryRepositories());
+    const [record] = await ledger.recordConsentEvents([consentChange('banner')], {
+      privacySignals: { gpc: true, dnt: false },
+    });
+    expect(record).toMatchObject({
+      source: 'gpc',
+      categories: { analytics: true, marketing: false },
+    });
+  });
+});
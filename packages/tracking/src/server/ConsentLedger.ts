@@ -0,0 +1,151 @@
+import {
+  CONSENT_VERSION,
+  ClientConsentOrigin,
+  ConsentOrigin,
+  ConsentRecord,
+  GrantedConsent,
+  PrivacySignalPolicy,
+  PrivacySignals,
+  TrackingEvent,
+  applyPrivacySignals,
+} from '@data-snack/core';
+import type { Repositories } from '@data-snack/database';
+import {
+  ConsentSource,
+  ConsentSubject,
+  RepositoryConsentSource,
+  StoredConsent,
+  consentFromProperties,
+} from './ConsentEnforcer';
+import { anonymizeIp } from './IpAddress';
+
+export interface RecordConsentInput {
+  userId?: string | null;
+  sessionId: string;
+  categories: GrantedConsent;
+  version?: number;
+  source: ConsentOrigin;
+  tcString?: string | null;
+  ipAddress?: string | null; // anonymized before it is stored
+  userAgent?: string | null;
+}
+
+export interface ConsentEvidence {
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  // Request privacy signals, they override the recorded categories
+  privacySignals?: PrivacySignals;
+  privacySignalPolicy?: PrivacySignalPolicy;
+}
+
+// Append-only consent history (the consent_records table). Also the
+// consent source for server-side enforcement, falling back to the user
+// and consent_change events for decisions made before it existed.
+export class ConsentLedger implements ConsentSource {
+  private fallback: ConsentSource | null;
+
+  constructor(
+    private readonly repositories: Repositories | null,
+    fallback?: ConsentSource,
+  ) {
+    this.fallback = fallback || (repositories ? new RepositoryConsentSource(repositories) : null);
+  }
+
+  async record(input: RecordConsentInput): Promise<ConsentRecord> {
+    if (!this.repositories) throw new Error('Database not configured');
+
+    const record = await this.repositories.consentRecords.create({
+      user_id: input.userId ?? null,
+      session_id: input.sessionId,
+      version: input.version ?? CONSENT_VERSION,
+      categories: { ...input.categories, necessary: true },
+      source: input.source,
+      tc_string: input.tcString ?? null,
+      ip_address: anonymizeIp(input.ipAddress),
+      user_agent: input.userAgent ?? null,
+    });
+
+    // Keep the denormalized copy on the user current
+    const user = record.userId ? await this.repositories.users.findById(record.userId) : null;
+    if (user) {
+      await this.repositories.users.update(
+        user.withConsent({
+          version: record.version,
+          categories: record.categories,
+          grantedAt: record.recordedAt,
+          ipAddress: record.ipAddress ?? undefined,
+        }),
+      );
+    }
+
+    return record;
+  }
+
+  // consent_change events from the SDK, so the history also covers banner
+  // decisions and signal-driven (GPC/DNT) changes made in the browser
+  async recordConsentEvents(
+    events: TrackingEvent[],
+    evidence: ConsentEvidence = {},
+  ): Promise<ConsentRecord[]> {
+    if (!this.repositories) return [];
+
+    const { privacySignals, privacySignalPolicy, ...request } = evidence;
+
+    const changes = events.filter(event => event.type === 'consent_change');
+    return Promise.all(
+      changes.flatMap(event => {
+        const declared = consentFromProperties(event.properties);
+        if (!declared) return [];
+
+        const {
+          consent: categories,
+          signal,
+          overridden,
+        } = privacySignals
+          ? applyPrivacySignals(declared, privacySignals, privacySignalPolicy)
+          : { consent: declared, signal: null, overridden: [] };
+
+        const { version, source, tcString } = event.properties;
+        return this.record({
+          userId: event.userId,
+          sessionId: event.sessionId,
+          categories,
+          version: typeof version === 'number' ? version : undefined,
+          source:
+            signal && overridden.length > 0
+              ? signal
+              : ClientConsentOrigin.safeParse(source).success
+                ? (source as ClientConsentOrigin)
+                : 'sdk',
+          // The TC string no longer matches once a signal overrode the categories
+          tcString: typeof tcString === 'string' && overridden.length === 0 ? tcString : null,
+          ...request,
+        });
+      }),
+    );
+  }
+
+  async current(subject: ConsentSubject): Promise<ConsentRecord | null> {
+    const [latest] = await this.history(subject, 1);
+    return latest ?? null;
+  }
+
+  // Newest first
+  async history(subject: ConsentSubject, limit: number = 100): Promise<ConsentRecord[]> {
+    if (!this.repositories) return [];
+
+    return this.repositories.consentRecords.findBySubject(subject, limit);
+  }
+
+  async findLatest(subject: ConsentSubject): Promise<StoredConsent | null> {
+    const [record, fallback] = await Promise.all([
+      this.current(subject),
+      this.fallback?.findLatest(subject) ?? null,
+    ]);
+
+    if (record && (!fallback || record.recordedAt >= fallback.updatedAt)) {
+      return { categories: record.categories, updatedAt: record.recordedAt };
+    }
+    return fallback;
+  }
+}
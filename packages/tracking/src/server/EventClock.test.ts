@@ -0,0 +1,109 @@
+import { TrackingEvent } from '@data-snack/core';
+import { describe, expect, it } from 'vitest';
+import { EventClock, eventClockConfigFromEnv, parseClientTime } from './EventClock';
+
+const HOUR = 60 * 60_000;
+const DAY = 24 * HOUR;
+
+const receivedAt = new Date('2026-10-19T12:00:00Z');
+const at = (offsetMs: number) => new Date(receivedAt.getTime() + offsetMs);
+const eventAt = (offsetMs: number) =>
+  TrackingEvent.create('click', 'click').withTimestamp(at(offsetMs));
+
+describe('parseClientTime', () => {
+  it('reads ISO strings and epoch milliseconds', () => {
+    expect(parseClientTime('2026-10-19T12:00:00.000Z')).toEqual(receivedAt);
+    expect(parseClientTime(receivedAt.getTime())).toEqual(receivedAt);
+  });
+
+  it.each([undefined, null, '', 'yesterday', NaN, true, {}])('ignores %s', value => {
+    expect(parseClientTime(value)).toBeUndefined();
+  });
+});
+
+describe('eventClockConfigFromEnv', () => {
+  it('keeps the defaults for unset and invalid values', () => {
+    expect(eventClockConfigFromEnv({})).toEqual({
+      maxPastMs: undefined,
+      maxFutureMs: undefined,
+      skewToleranceMs: undefined,
+      outOfWindow: 'reject',
+    });
+    expect(
+      eventClockConfigFromEnv({ EVENT_MAX_PAST_MS: '-1', EVENT_MAX_FUTURE_MS: 'soon' }),
+    ).toMatchObject({ maxPastMs: undefined, maxFutureMs: undefined });
+  });
+
+  it('reads the window', () => {
+    expect(
+      eventClockConfigFromEnv({
+        EVENT_MAX_PAST_MS: '86400000',
+        EVENT_MAX_FUTURE_MS: '0',
+        CLOCK_SKEW_TOLERANCE_MS: '500',
+        EVENT_OUT_OF_WINDOW: 'flag',
+      }),
+    ).toEqual({ maxPastMs: DAY, maxFutureMs: 0, skewToleranceMs: 500, outOfWindow: 'flag' });
+  });
+});
+
+describe('EventClock', () => {
+  describe('skew', () => {
+    const clock = new EventClock();
+
+    it('is the gap between send time and receipt', () => {
+      expect(clock.skew({ sentAt: at(-HOUR), receivedAt })).toBe(HOUR);
+      expect(clock.skew({ sentAt: at(HOUR), receivedAt })).toBe(-HOUR);
+    });
+
+    it('is 0 within the tolerance or without a send time', () => {
+      expect(clock.skew({ sentAt: at(-999), receivedAt })).toBe(0);
+      expect(clock.skew({ sentAt: at(-1_000), receivedAt })).toBe(1_000);
+      expect(clock.skew({ receivedAt })).toBe(0);
+      expect(clock.skew({ sentAt: new Date('invalid'), receivedAt })).toBe(0);
+    });
+  });
+
+  describe('check', () => {
+    const clock = new EventClock();
+
+    it('leaves events in the window alone', () => {
+      const event = eventAt(-HOUR);
+      expect(clock.check(event, 0, receivedAt)).toEqual({ event, flag: null, rejected: false });
+    });
+
+    it('moves events by the skew and records it', () => {
+      // A client clock 30 days behind, an event 10 seconds before sending
+      const skew = clock.skew({ sentAt: at(-30 * DAY), receivedAt });
+      const { event, flag, rejected } = clock.check(eventAt(-30 * DAY - 10_000), skew, receivedAt);
+
+      expect({ flag, rejected }).toEqual({ flag: null, rejected: false });
+      expect(event.timestamp).toEqual(at(-10_000));
+      expect(event.context.clockSkewMs).toBe(30 * DAY);
+    });
+
+    it('rejects events outside the window', () => {
+      expect(clock.check(eventAt(-7 * DAY), 0, receivedAt).rejected).toBe(false);
+      expect(clock.check(eventAt(-7 * DAY - 1), 0, receivedAt)).toMatchObject({
+        flag: 'timestamp_too_old',
+        rejected: true,
+      });
+      expect(clock.check(eventAt(5 * 60_000), 0, receivedAt).rejected).toBe(false);
+      expect(clock.check(eventAt(5 * 60_000 + 1), 0, receivedAt)).toMatchObject({
+        flag: 'timestamp_in_future',
+        rejected: true,
+      });
+    });
+
+    it('stores flagged events at receipt with what the client claimed', () => {
+      const flagging = new EventClock({ maxPastMs: DAY, outOfWindow: 'flag' });
+      const { event, flag, rejected } = flagging.check(eventAt(-2 * DAY), 0, receivedAt);
+
+      expect({ flag, rejected }).toEqual({ flag: 'timestamp_too_old', rejected: false });
+      expect(event.timestamp).toEqual(receivedAt);
+      expect(event.context).toMatchObject({
+        clientTimestamp: at(-2 * DAY).toISOString(),
+        timestampFlag: 'timestamp_too_old',
+      });
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { TrackingEvent } from '@data-snack/core';
+
+export type OutOfWindowMode = 'reject' | 'flag';
+export type TimestampFlag = 'timestamp_too_old' | 'timestamp_in_future';
+
+export interface EventClockConfig {
+  // How far before receipt an event may have happened (default 7 days, the SDK queue age)
+  maxPastMs?: number;
+  // How far after receipt an event may claim to have happened (default 5 minutes)
+  maxFutureMs?: number;
+  // Smaller skews are taken for network latency and left alone (default 1 second)
+  skewToleranceMs?: number;
+  // 'reject' drops events outside the window, 'flag' stores them at receipt time
+  outOfWindow?: OutOfWindowMode;
+}
+
+// When the client sent a batch, by its own clock, and when the server got it
+export interface BatchTiming {
+  sentAt?: Date;
+  receivedAt: Date;
+}
+
+export interface TimestampCheck {
+  event: TrackingEvent;
+  // Set when the event is outside the window
+  flag: TimestampFlag | null;
+  rejected: boolean;
+}
+
+// EVENT_MAX_PAST_MS, EVENT_MAX_FUTURE_MS, CLOCK_SKEW_TOLERANCE_MS and
+// EVENT_OUT_OF_WINDOW ('reject' or 'flag'), unset values keep the defaults
+export function eventClockConfigFromEnv(
+  env: Record<string, string | undefined> = process.env,
+): EventClockConfig {
+  const milliseconds = (value: string | undefined) =>
+    value && Number(value) >= 0 ? Number(value) : undefined;
+
+  return {
+    maxPastMs: milliseconds(env.EVENT_MAX_PAST_MS),
+    maxFutureMs: milliseconds(env.EVENT_MAX_FUTURE_MS),
+    skewToleranceMs: milliseconds(env.CLOCK_SKEW_TOLERANCE_MS),
+    outOfWindow: env.EVENT_OUT_OF_WINDOW === 'flag' ? 'flag' : 'reject',
+  };
+}
+
+// A timestamp from the request body, undefined when missing or unparsable
+export function parseClientTime(value: unknown): Date | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+
+  const time = new Date(value);
+  return Number.isNaN(time.getTime()) ? undefined : time;
+}
+
+// Puts client timestamps on the server clock. A batch's skew is the gap
+// between its send time and its receipt, applied to every event in it.
+export class EventClock {
+  private readonly maxPastMs: number;
+  private readonly maxFutureMs: number;
+  private readonly skewToleranceMs: number;
+  private readonly outOfWindow: OutOfWindowMode;
+
+  constructor({
+    maxPastMs = 7 * 24 * 60 * 60_000,
+    maxFutureMs = 5 * 60_000,
+    skewToleranceMs = 1_000,
+    outOfWindow = 'reject',
+  }: EventClockConfig = {}) {
+    this.maxPastMs = maxPastMs;
+    this.maxFutureMs = maxFutureMs;
+    this.skewToleranceMs = skewToleranceMs;
+    this.outOfWindow = outOfWindow;
+  }
+
+  // Milliseconds to add to client timestamps, 0 without a send time
+  skew({ sentAt, receivedAt }: BatchTiming): number {
+    if (!sentAt || Number.isNaN(sentAt.getTime())) return 0;
+
+    const skew = receivedAt.getTime() - sentAt.getTime();
+    return Math.abs(skew) < this.skewToleranceMs ? 0 : skew;
+  }
+
+  check(event: TrackingEvent, skewMs: number, receivedAt: Date): TimestampCheck {
+    const corrected = skewMs
+      ? event
+          .withTimestamp(new Date(event.timestamp.getTime() + skewMs))
+          .withContext({ clockSkewMs: skewMs })
+      : event;
+
+    const offset = corrected.timestamp.getTime() - receivedAt.getTime();
+    const flag: TimestampFlag | null =
+      offset < -this.maxPastMs
+        ? 'timestamp_too_old'
+        : offset > this.maxFutureMs
+          ? 'timestamp_in_future'
+          : null;
+
+    if (!flag) return { event: corrected, flag, rejected: false };
+    if (this.outOfWindow === 'reject') return { event: corrected, flag, rejected: true };
+
+    // Kept where it arrived, with what the client claimed for later inspection
+    const flagged = corrected
+      .withTimestamp(receivedAt)
+      .withContext({ clientTimestamp: event.timestamp.toISOString(), timestampFlag: flag });
+    return { event: flagged, flag, rejected: false };
+  }
+}
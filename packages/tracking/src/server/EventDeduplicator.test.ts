@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { EventDeduplicator } from './EventDeduplicator';
+
+describe('EventDeduplicator', () => {
+  const now = Date.parse('2026-10-19T12:00:00Z');
+
+  it('remembers ids for the window and forgets them after', () => {
+    const deduplicator = new EventDeduplicator({ windowMs: 60_000 });
+    deduplicator.remember(['a'], now);
+
+    expect(deduplicator.has('a', now + 60_000)).toBe(true);
+    expect(deduplicator.has('a', now + 60_001)).toBe(false);
+    expect(deduplicator.size).toBe(0);
+  });
+
+  it('starts the window again when an id is seen again', () => {
+    const deduplicator = new EventDeduplicator({ windowMs: 60_000 });
+    deduplicator.remember(['a'], now);
+    deduplicator.remember(['a'], now + 50_000);
+
+    expect(deduplicator.has('a', now + 100_000)).toBe(true);
+  });
+
+  it('evicts the least recently seen ids beyond maxEntries', () => {
+    const deduplicator = new EventDeduplicator({ maxEntries: 2 });
+    deduplicator.remember(['a', 'b'], now);
+    deduplicator.remember(['a', 'c'], now);
+
+    expect(['a', 'b', 'c'].filter(id => deduplicator.has(id, now))).toEqual(['a', 'c']);
+  });
+});
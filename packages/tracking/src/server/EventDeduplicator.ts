@@ -0,0 +1,52 @@
+export interface DeduplicationConfig {
+  // Ids remembered at most, the least recently seen are evicted first
+  maxEntries?: number;
+  // How long an id is remembered
+  windowMs?: number;
+}
+
+// Event ids this process stored recently, so SDK retries are dropped before
+// they reach the database. The unique event_ids table stays the source of
+// truth across instances and restarts.
+export class EventDeduplicator {
+  private readonly seenAt = new Map<string, number>();
+  private readonly maxEntries: number;
+  private readonly windowMs: number;
+
+  constructor({ maxEntries = 10_000, windowMs = 10 * 60_000 }: DeduplicationConfig = {}) {
+    this.maxEntries = maxEntries;
+    this.windowMs = windowMs;
+  }
+
+  has(id: string, now = Date.now()): boolean {
+    const seenAt = this.seenAt.get(id);
+    if (seenAt === undefined) return false;
+
+    if (now - seenAt > this.windowMs) {
+      this.seenAt.delete(id);
+      return false;
+    }
+    return true;
+  }
+
+  remember(ids: string[], now = Date.now()): void {
+    ids.forEach(id => {
+      // Re-inserting moves the id to the end, Map keeps insertion order
+      this.seenAt.delete(id);
+      this.seenAt.set(id, now);
+    });
+
+    for (const id of this.seenAt.keys()) {
+      if (this.seenAt.size <= this.maxEntries) break;
+      this.seenAt.delete(id);
+    }
+  }
+
+  get size(): number {
+    return this.seenAt.size;
+  }
+
+  clear(): void {
+    this.seenAt.clear();
+  }
+}
@@ -0,0 +1,34 @@
+import { IngestionPipeline } from './IngestionPipeline';
+
+// The parts of Fastify's request and reply the handler uses
+export interface FastifyLikeRequest {
+  body: unknown;
+  headers: Record<string, string | string[] | undefined>;
+  ip: string;
+}
+
+export interface FastifyLikeReply {
+  code(statusCode: number): FastifyLikeReply;
+  header(name: string, value: string): FastifyLikeReply;
+}
+
+// Fastify route handler for the pipeline. Bodies arrive parsed, the service
+// decodes them in its content type parser (decodeRequestBody).
+export function createFastifyHandler(
+  pipeline: IngestionPipeline,
+  { single = false }: { single?: boolean } = {},
+): (request: FastifyLikeRequest, reply: FastifyLikeReply) => Promise<unknown> {
+  return async (request, reply) => {
+    const ingestion = {
+      body: request.body,
+      headers: request.headers,
+      ip: request.ip,
+      receivedAt: new Date(),
+    };
+    const response = await (single ? pipeline.ingestOne(ingestion) : pipeline.ingest(ingestion));
+
+    reply.code(response.status);
+    Object.entries(response.headers ?? {}).forEach(([name, value]) => reply.header(name, value));
+    return response.body;
+  };
+}
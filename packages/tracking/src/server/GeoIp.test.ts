@@ -0,0 +1,363 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MaxMindGeoIp, geoFromHeaders, geoIpFromEnv, locateClient } from './GeoIp';
+import { parseIp } from './IpAddress';
+
+// A small MaxMind DB writer, enough to build the test databases
+
+// Already encoded, for the types plain values don't map to
+class Raw {
+  constructor(readonly bytes: number[]) {}
+}
+
+const bigEndian = (value: number, length: number) =>
+  Array.from({ length }, (_, i) => Math.floor(value / 256 ** (length - 1 - i)) % 256);
+
+const minimalBytes = (value: bigint) => {
+  const bytes: number[] = [];
+  for (let rest = value; rest > 0n; rest >>= 8n) bytes.unshift(Number(rest & 0xffn));
+  return bytes;
+};
+
+function field(type: number, size: number, payload: number[] = []): number[] {
+  let sizeField = size;
+  let sizeBytes: number[] = [];
+  if (size >= 65821) [sizeField, sizeBytes] = [31, bigEndian(size - 65821, 3)];
+  else if (size >= 285) [sizeField, sizeBytes] = [30, bigEndian(size - 285, 2)];
+  else if (size >= 29) [sizeField, sizeBytes] = [29, [size - 29]];
+
+  const control = type > 7 ? [sizeField, type - 7] : [(type << 5) | sizeField];
+  return [...control, ...sizeBytes, ...payload];
+}
+
+function encode(value: unknown): number[] {
+  if (value instanceof Raw) return value.bytes;
+  if (typeof value === 'string') {
+    const bytes = [...new TextEncoder().encode(value)];
+    return field(2, bytes.length, bytes);
+  }
+  if (typeof value === 'boolean') return field(14, value ? 1 : 0);
+  if (typeof value === 'bigint') return field(10, minimalBytes(value).length, minimalBytes(value));
+  if (typeof value === 'number') {
+    if (Number.isInteger(value) && value >= 0) {
+      const bytes = minimalBytes(BigInt(value));
+      return field(6, bytes.length, bytes);
+    }
+    if (Number.isInteger(value)) return field(8, 4, bigEndian(value >>> 0, 4));
+    const double = new DataView(new ArrayBuffer(8));
+    double.setFloat64(0, value);
+    return field(3, 8, [...new Uint8Array(double.buffer)]);
+  }
+  if (value instanceof Uint8Array) return field(4, value.length, [...value]);
+  if (Array.isArray(value)) return field(11, value.length, value.flatMap(encode));
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  return field(
+    7,
+    entries.length,
+    entries.flatMap(([key, entry]) => [...encode(key), ...encode(entry)]),
+  );
+}
+
+const uint16 = (value: number) => new Raw(field(5, 2, bigEndian(value, 2)));
+const uint64 = (value: bigint) =>
+  new Raw(field(9, minimalBytes(value).length, minimalBytes(value)));
+const float = (value: number) => {
+  const single = new DataView(new ArrayBuffer(4));
+  single.setFloat32(0, value);
+  return new Raw(field(15, 4, [...new Uint8Array(single.buffer)]));
+};
+
+// Into the data section, in the shortest form or the 32-bit one
+function pointer(offset: number, wide = false): Raw {
+  if (wide) return new Raw([0x38, ...bigEndian(offset, 4)]);
+  if (offset < 2048) return new Raw([0x20 | (offset >> 8), offset & 0xff]);
+  if (offset < 526336) {
+    const value = offset - 2048;
+    return new Raw([0x28 | (value >> 16), ...bigEndian(value & 0xffff, 2)]);
+  }
+  const value = offset - 526336;
+  return new Raw([0x30 | (value >> 24), ...bigEndian(value & 0xffffff, 3)]);
+}
+
+class DataSection {
+  readonly bytes: number[] = [];
+
+  add(value: unknown): number {
+    const offset = this.bytes.length;
+    for (const byte of encode(value)) this.bytes.push(byte);
+    return offset;
+  }
+}
+
+type TreeRecord = { node: number } | { data: number } | null;
+
+interface DatabaseOptions {
+  recordSize: 24 | 28 | 32;
+  ipVersion: 4 | 6;
+  // CIDR to data section offset
+  networks: Record<string, number>;
+  data: DataSection;
+  metadata?: Record<string, unknown>;
+}
+
+function buildDatabase({
+  recordSize,
+  ipVersion,
+  networks,
+  data,
+  metadata,
+}: DatabaseOptions): Uint8Array {
+  const nodes: TreeRecord[][] = [[null, null]];
+  for (const [network, offset] of Object.entries(networks)) {
+    const [address, prefixText] = network.split('/');
+    let bytes = parseIp(address) as Uint8Array;
+    let prefix = Number(prefixText);
+    if (ipVersion === 6 && bytes.length === 4) {
+      bytes = Uint8Array.from([...Array<number>(12).fill(0), ...bytes]);
+      prefix += 96;
+    }
+
+    let node = 0;
+    for (let bit = 0; bit < prefix; bit++) {
+      const side = ((bytes[bit >> 3] ?? 0) >> (7 - (bit % 8))) & 1;
+      const records = nodes[node] as TreeRecord[];
+      if (bit === prefix - 1) {
+        records[side] = { data: offset };
+        continue;
+      }
+      let next = records[side];
+      if (!next || !('node' in next)) {
+        next = { node: nodes.length };
+        nodes.push([null, null]);
+        records[side] = next;
+      }
+      node = next.node;
+    }
+  }
+
+  const nodeCount = nodes.length;
+  const value = (record: TreeRecord | undefined) =>
+    !record ? nodeCount : 'node' in record ? record.node : nodeCount + 16 + record.data;
+  const tree = nodes.flatMap(([left, right]) => {
+    const [l, r] = [value(left), value(right)];
+    if (recordSize === 24) return [...bigEndian(l, 3), ...bigEndian(r, 3)];
+    if (recordSize === 28) {
+      return [
+        ...bigEndian(l % 2 ** 24, 3),
+        (Math.floor(l / 2 ** 24) << 4) | Math.floor(r / 2 ** 24),
+        ...bigEndian(r % 2 ** 24, 3),
+      ];
+    }
+    return [...bigEndian(l, 4), ...bigEndian(r, 4)];
+  });
+
+  const marker = [0xab, 0xcd, 0xef, ...Array.from('MaxMind.com', char => char.charCodeAt(0))];
+  return Buffer.concat([
+    Uint8Array.from(tree),
+    new Uint8Array(16),
+    Uint8Array.from(data.bytes),
+    Uint8Array.from(marker),
+    Uint8Array.from(
+      encode({
+        binary_format_major_version: uint16(2),
+        binary_format_minor_version: uint16(0),
+        build_epoch: uint64(1_792_000_000n),
+        description: { en: 'Test database' },
+        languages: ['en', 'de'],
+        node_count: nodeCount,
+        record_size: recordSize,
+        ip_version: ipVersion,
+        database_type: 'GeoLite2-City',
+        ...metadata,
+      }),
+    ),
+  ]);
+}
+
+// Laid out so that pointers come in the 11, 19 and 27 bit sizes
+const data = new DataSection();
+const berlinNames = data.add({ en: 'Berlin' });
+data.add('x'.repeat(3_000));
+const germany = data.add({ geoname_id: 2921044, iso_code: 'DE', names: { de: 'Deutschland' } });
+data.add('x'.repeat(600_000));
+const france = data.add({ geoname_id: 3017382, iso_code: 'FR' });
+const berlin = data.add({
+  // Every type the decoder reads, ahead of the fields lookup keeps
+  location: {
+    accuracy_radius: uint16(100),
+    latitude: 52.524,
+    longitude: 13.41,
+    time_zone: 'Europe/Berlin',
+  },
+  extras: [
+    true,
+    false,
+    -5,
+    float(0.5),
+    2n ** 100n,
+    uint64(2n ** 60n),
+    new Uint8Array([1, 2, 3]),
+    'ü'.repeat(40),
+    'x'.repeat(300),
+    'x'.repeat(70_000),
+    '',
+    [],
+    {},
+  ],
+  country: pointer(germany),
+  subdivisions: [{ iso_code: 'BE', names: pointer(berlinNames) }],
+});
+const paris = data.add({ country: pointer(france), subdivisions: [{ iso_code: 'IDF' }] });
+const registeredOnly = data.add({ registered_country: pointer(france, true) });
+const anonymous = data.add({ traits: { is_anonymous_proxy: true } });
+
+const networks = {
+  '2001:db8::/32': berlin,
+  '203.0.113.0/24': paris,
+  '198.51.100.0/24': registeredOnly,
+  '192.0.2.0/24': anonymous,
+};
+
+describe('MaxMindGeoIp', () => {
+  describe.each([24, 28, 32] as const)('with %i-bit records', recordSize => {
+    const geoIp = new MaxMindGeoIp(buildDatabase({ recordSize, ipVersion: 6, networks, data }));
+
+    it('reads the metadata', () => {
+      expect(geoIp.databaseType).toBe('GeoLite2-City');
+    });
+
+    it('looks up IPv6 and IPv4 addresses', () => {
+      expect(geoIp.lookup('2001:db8:abcd::1')).toEqual({ country: 'DE', region: 'BE' });
+      expect(geoIp.lookup('203.0.113.7')).toEqual({ country: 'FR', region: 'IDF' });
+      expect(geoIp.lookup('::ffff:203.0.113.7')).toEqual({ country: 'FR', region: 'IDF' });
+    });
+
+    it('falls back to the registered country', () => {
+      expect(geoIp.lookup('198.51.100.23')).toEqual({ country: 'FR' });
+    });
+
+    it('returns null without a country for the address', () => {
+      expect(geoIp.lookup('192.0.2.50')).toBeNull();
+      expect(geoIp.lookup('10.0.0.1')).toBeNull();
+      expect(geoIp.lookup('2001:db9::1')).toBeNull();
+      expect(geoIp.lookup('not an address')).toBeNull();
+    });
+  });
+
+  it('looks up IPv4 addresses in an IPv4 database', () => {
+    const geoIp = new MaxMindGeoIp(
+      buildDatabase({
+        recordSize: 24,
+        ipVersion: 4,
+        networks: { '203.0.113.0/24': paris },
+        data,
+      }),
+    );
+    expect(geoIp.lookup('203.0.113.7')).toEqual({ country: 'FR', region: 'IDF' });
+    expect(geoIp.lookup('203.0.114.7')).toBeNull();
+    expect(geoIp.lookup('2001:db8::1')).toBeNull();
+  });
+
+  it('finds no IPv4 data in an IPv6 database without any', () => {
+    const geoIp = new MaxMindGeoIp(
+      buildDatabase({ recordSize: 24, ipVersion: 6, networks: { '2001:db8::/32': berlin }, data }),
+    );
+    expect(geoIp.lookup('203.0.113.7')).toBeNull();
+    expect(geoIp.lookup('2001:db8::1')).toEqual({ country: 'DE', region: 'BE' });
+  });
+
+  it('refuses files it cannot read', () => {
+    expect(() => new MaxMindGeoIp(new Uint8Array(64))).toThrow('metadata marker');
+    expect(
+      () =>
+        new MaxMindGeoIp(
+          buildDatabase({
+            recordSize: 24,
+            ipVersion: 6,
+            networks,
+            data,
+            metadata: { record_size: 20 },
+          }),
+        ),
+    ).toThrow('record size 20');
+    expect(
+      () =>
+        new MaxMindGeoIp(
+          buildDatabase({
+            recordSize: 24,
+            ipVersion: 6,
+            networks,
+            data,
+            metadata: { database_type: new Raw(field(12, 0)) },
+          }),
+        ),
+    ).toThrow('data type 12');
+  });
+});
+
+describe('geoFromHeaders', () => {
+  it("reads Cloudflare's and Vercel's headers", () => {
+    expect(geoFromHeaders({ 'cf-ipcountry': 'DE', 'cf-region-code': 'BE' })).toEqual({
+      country: 'DE',
+      region: 'BE',
+    });
+    expect(geoFromHeaders(new Headers({ 'x-vercel-ip-country': 'FR' }))).toEqual({
+      country: 'FR',
+    });
+    expect(
+      geoFromHeaders({ 'x-vercel-ip-country': 'FR', 'x-vercel-ip-country-region': 'IDF' }),
+    ).toEqual({ country: 'FR', region: 'IDF' });
+  });
+
+  it.each(['XX', 'T1', 'unknown'])('treats %s as unknown', country => {
+    expect(geoFromHeaders({ 'cf-ipcountry': country, 'cf-region-code': 'BE' })).toBeNull();
+  });
+
+  it('returns null without the headers', () => {
+    expect(geoFromHeaders({})).toBeNull();
+  });
+});
+
+describe('locateClient', () => {
+  const geoIp = { lookup: (ip: string) => (ip === '203.0.113.7' ? { country: 'FR' } : null) };
+  const headers = { 'cf-ipcountry': 'DE' };
+
+  it('prefers the lookup and falls back to the headers', () => {
+    expect(locateClient('203.0.113.7', headers, geoIp)).toEqual({ country: 'FR' });
+    expect(locateClient('198.51.100.23', headers, geoIp)).toEqual({ country: 'DE' });
+    expect(locateClient(null, headers, geoIp)).toEqual({ country: 'DE' });
+    expect(locateClient('203.0.113.7', headers)).toEqual({ country: 'DE' });
+    expect(locateClient('203.0.113.7', {}, null)).toBeNull();
+  });
+});
+
+describe('geoIpFromEnv', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('opens GEOIP_DATABASE', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'geoip-'));
+    try {
+      const path = join(dir, 'GeoLite2-City.mmdb');
+      writeFileSync(path, buildDatabase({ recordSize: 28, ipVersion: 6, networks, data }));
+      expect(geoIpFromEnv({ GEOIP_DATABASE: path })?.lookup('203.0.113.7')).toEqual({
+        country: 'FR',
+        region: 'IDF',
+      });
+    } finally {
+      rmSync(dir, { recursive: true });
+    }
+  });
+
+  it('turns lookups off when unset or unreadable', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    expect(geoIpFromEnv({})).toBeNull();
+    expect(error).not.toHaveBeenCalled();
+    expect(geoIpFromEnv({ GEOIP_DATABASE: join(tmpdir(), 'missing.mmdb') })).toBeNull();
+    expect(error).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,245 @@
+import { readFileSync } from 'fs';
+import { HeaderSource, readHeader } from './PrivacySignals';
+import { parseIp } from './IpAddress';
+
+// Where an address is, as coarse as we store it: ISO 3166-1 country and the
+// ISO 3166-2 subdivision code without the country prefix
+export interface GeoLocation {
+  country?: string;
+  region?: string;
+}
+
+export interface GeoIpLookup {
+  lookup(ip: string): GeoLocation | null;
+}
+
+// Marks the start of the metadata at the end of a MaxMind DB file
+const METADATA_MARKER = Uint8Array.from([
+  0xab,
+  0xcd,
+  0xef,
+  ...Array.from('MaxMind.com', char => char.charCodeAt(0)),
+]);
+// The data section starts this far past the search tree
+const DATA_SECTION_SEPARATOR = 16;
+
+interface MaxMindMetadata {
+  node_count: number;
+  record_size: 24 | 28 | 32;
+  ip_version: 4 | 6;
+  database_type: string;
+}
+
+// Offline lookups in a local MaxMind DB (GeoLite2/GeoIP2 Country or City
+// .mmdb). The whole file is read into memory once, nothing leaves the server.
+export class MaxMindGeoIp implements GeoIpLookup {
+  private readonly bytes: Uint8Array;
+  private readonly view: DataView;
+  private readonly metadata: MaxMindMetadata;
+  private readonly dataSection: number;
+  private readonly ipv4Start: number;
+  private readonly decoder = new TextDecoder();
+
+  constructor(database: Uint8Array) {
+    this.bytes = database;
+    this.view = new DataView(database.buffer, database.byteOffset, database.byteLength);
+
+    const marker = this.findMetadata();
+    if (marker < 0) throw new Error('Not a MaxMind DB file: metadata marker not found');
+    const start = marker + METADATA_MARKER.length;
+    this.metadata = this.decode(start, start)[0] as MaxMindMetadata;
+    if (![24, 28, 32].includes(this.metadata.record_size)) {
+      throw new Error(`Unsupported MaxMind DB record size ${this.metadata.record_size}`);
+    }
+
+    this.dataSection =
+      (this.metadata.node_count * this.metadata.record_size * 2) / 8 + DATA_SECTION_SEPARATOR;
+
+    // IPv4 addresses live under ::/96 of an IPv6 tree
+    let node = 0;
+    if (this.metadata.ip_version === 6) {
+      for (let i = 0; i < 96 && node < this.metadata.node_count; i++) node = this.record(node, 0);
+    }
+    this.ipv4Start = node;
+  }
+
+  static open(path: string): MaxMindGeoIp {
+    return new MaxMindGeoIp(readFileSync(path));
+  }
+
+  get databaseType(): string {
+    return this.metadata.database_type;
+  }
+
+  lookup(ip: string): GeoLocation | null {
+    const address = parseIp(ip);
+    if (!address || (address.length === 16 && this.metadata.ip_version === 4)) return null;
+
+    const { node_count: nodeCount } = this.metadata;
+    let node = address.length === 4 ? this.ipv4Start : 0;
+    for (let bit = 0; bit < address.length * 8 && node < nodeCount; bit++) {
+      const byte = address[bit >> 3] ?? 0;
+      node = this.record(node, (byte >> (7 - (bit % 8))) & 1);
+    }
+    // Equal to the node count: no data for the address
+    if (node <= nodeCount) return null;
+
+    const offset = this.dataSection + node - nodeCount - DATA_SECTION_SEPARATOR;
+    return toLocation(this.decode(offset, this.dataSection)[0]);
+  }
+
+  private findMetadata(): number {
+    // The metadata is in the last 128KiB of the file
+    const floor = Math.max(0, this.bytes.length - 128 * 1024);
+    for (let i = this.bytes.length - METADATA_MARKER.length; i >= floor; i--) {
+      if (METADATA_MARKER.every((byte, j) => this.bytes[i + j] === byte)) return i;
+    }
+    return -1;
+  }
+
+  // The left (0) or right (1) record of a node in the search tree
+  private record(node: number, side: number): number {
+    const size = this.metadata.record_size;
+    const offset = (node * size * 2) / 8;
+    const b = (i: number) => this.bytes[offset + i] ?? 0;
+
+    if (size === 24) {
+      const at = side * 3;
+      return (b(at) << 16) | (b(at + 1) << 8) | b(at + 2);
+    }
+    if (size === 28) {
+      return side === 0
+        ? ((b(3) & 0xf0) << 20) | (b(0) << 16) | (b(1) << 8) | b(2)
+        : ((b(3) & 0x0f) << 24) | (b(4) << 16) | (b(5) << 8) | b(6);
+    }
+    return this.view.getUint32(offset + side * 4);
+  }
+
+  // One value of the data section format, and the offset past it. Pointers
+  // are relative to base.
+  private decode(offset: number, base: number): [unknown, number] {
+    const control = this.bytes[offset++] ?? 0;
+    let type = control >> 5;
+
+    if (type === 1) {
+      const size = (control >> 3) & 0x3;
+      const high = control & 0x7;
+      let pointer: number;
+      if (size === 3) {
+        pointer = this.view.getUint32(offset);
+      } else {
+        pointer = high;
+        for (let i = 0; i <= size; i++) pointer = pointer * 256 + (this.bytes[offset + i] ?? 0);
+        pointer += [0, 2048, 526336][size] ?? 0;
+      }
+      return [this.decode(base + pointer, base)[0], offset + size + 1];
+    }
+
+    // Extended types
+    if (type === 0) type = 7 + (this.bytes[offset++] ?? 0);
+
+    let size = control & 0x1f;
+    if (size >= 29) {
+      const extra = size - 28;
+      let value = 0;
+      for (let i = 0; i < extra; i++) value = value * 256 + (this.bytes[offset + i] ?? 0);
+      size = ([29, 285, 65821][extra - 1] ?? 0) + value;
+      offset += extra;
+    }
+
+    switch (type) {
+      case 2:
+        return [this.decoder.decode(this.bytes.subarray(offset, offset + size)), offset + size];
+      case 3:
+        return [this.view.getFloat64(offset), offset + 8];
+      case 4:
+        return [this.bytes.slice(offset, offset + size), offset + size];
+      case 5:
+      case 6:
+      case 9:
+      case 10: {
+        let value = 0n;
+        for (let i = 0; i < size; i++) value = (value << 8n) | BigInt(this.bytes[offset + i] ?? 0);
+        return [value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value, offset + size];
+      }
+      case 7: {
+        const map: Record<string, unknown> = {};
+        for (let i = 0; i < size; i++) {
+          const [key, afterKey] = this.decode(offset, base);
+          const [value, afterValue] = this.decode(afterKey, base);
+          map[String(key)] = value;
+          offset = afterValue;
+        }
+        return [map, offset];
+      }
+      case 8: {
+        let value = 0;
+        for (let i = 0; i < size; i++) value = (value << 8) | (this.bytes[offset + i] ?? 0);
+        return [size === 4 ? value | 0 : value, offset + size];
+      }
+      case 11: {
+        const array: unknown[] = [];
+        for (let i = 0; i < size; i++) {
+          const [value, next] = this.decode(offset, base);
+          array.push(value);
+          offset = next;
+        }
+        return [array, offset];
+      }
+      case 14:
+        return [size !== 0, offset];
+      case 15:
+        return [this.view.getFloat32(offset), offset + 4];
+      default:
+        throw new Error(`Unsupported MaxMind DB data type ${type}`);
+    }
+  }
+}
+
+// Country and first subdivision of a GeoIP2/GeoLite2 record
+function toLocation(record: unknown): GeoLocation | null {
+  const data = record as {
+    country?: { iso_code?: string };
+    registered_country?: { iso_code?: string };
+    subdivisions?: Array<{ iso_code?: string }>;
+  } | null;
+  const country = data?.country?.iso_code ?? data?.registered_country?.iso_code;
+  if (!country) return null;
+
+  const region = data?.subdivisions?.[0]?.iso_code;
+  return region ? { country, region } : { country };
+}
+
+// Country and region set by a CDN in front of us (Cloudflare, Vercel)
+export function geoFromHeaders(headers: HeaderSource): GeoLocation | null {
+  const country = readHeader(headers, 'cf-ipcountry') ?? readHeader(headers, 'x-vercel-ip-country');
+  // XX and T1 are Cloudflare's unknown and Tor
+  if (!country || country === 'unknown' || country === 'XX' || country === 'T1') return null;
+
+  const region =
+    readHeader(headers, 'cf-region-code') ?? readHeader(headers, 'x-vercel-ip-country-region');
+  return region ? { country, region } : { country };
+}
+
+// GEOIP_DATABASE, the path of a MaxMind DB file. Unset or unreadable turns
+// lookups off.
+export function geoIpFromEnv(
+  env: Record<string, string | undefined> = process.env,
+): GeoIpLookup | null {
+  if (!env.GEOIP_DATABASE) return null;
+  try {
+    return MaxMindGeoIp.open(env.GEOIP_DATABASE);
+  } catch (error) {
+    console.error('[GeoIp] Failed to open GEOIP_DATABASE, lookups are off:', error);
+    return null;
+  }
+}
+
+// The lookup's answer for the client's address, the CDN's headers without one
+export function locateClient(
+  ip: string | null | undefined,
+  headers: HeaderSource,
+  geoIp?: GeoIpLookup | null,
+): GeoLocation | null {
+  return (ip && geoIp?.lookup(ip)) || geoFromHeaders(headers);
+}
@@ -0,0 +1,242 @@
+import {
+  ClientHints,
+  DEFAULT_PRIVACY_SIGNAL_POLICY,
+  EventContext,
+  PrivacySignalPolicy,
+  TrackingEvent,
+  UserId,
+  toEventType,
+} from '@data-snack/core';
+import { z } from 'zod';
+import type { ConsentEvidence, ConsentLedger } from './ConsentLedger';
+import { parseClientTime } from './EventClock';
+import { GeoIpLookup, locateClient } from './GeoIp';
+import { IngestionQueue } from './IngestionQueue';
+import { clientIpFromHeaders } from './IpAddress';
+import {
+  HeaderSource,
+  narrowDeclaredConsent,
+  readHeader,
+  readPrivacySignals,
+} from './PrivacySignals';
+import type { ServerTracker } from './ServerTracker';
+
+// One event as the SDK sends it
+export const IncomingEventSchema = z.object({
+  // Generated by the SDK, kept so a retried batch is stored once
+  id: z.string().uuid().optional(),
+  type: z.string(),
+  name: z.string(),
+  properties: z.record(z.unknown()).default({}),
+  context: z.record(z.unknown()).default({}),
+  sessionId: z.string(),
+  // null for anonymous events, as TrackingEvent.toJSON() sends them
+  userId: z.string().nullish(),
+  // When the event happened, by the client's clock
+  timestamp: z.string().datetime().optional(),
+});
+export type IncomingEvent = z.infer<typeof IncomingEventSchema>;
+
+export const ConsentDeclarationSchema = z.object({
+  necessary: z.boolean().default(true),
+  analytics: z.boolean(),
+  marketing: z.boolean(),
+  personalization: z.boolean(),
+});
+
+export const IncomingBatchSchema = z.object({
+  events: z.array(IncomingEventSchema),
+  // Consent declared by the SDK, it can only narrow the consent stored server-side
+  consent: ConsentDeclarationSchema.optional(),
+  // When the batch was sent, by the client's clock
+  sentAt: z.string().datetime().optional(),
+});
+export type IncomingBatch = z.infer<typeof IncomingBatchSchema>;
+
+// What the pipeline needs from an HTTP request, whatever the framework
+export interface IngestionRequest {
+  // Parsed JSON body
+  body: unknown;
+  headers: HeaderSource;
+  // Client address as the framework resolved it, read from proxy headers
+  // otherwise. With trusted proxies configured, the peer that connected.
+  ip?: string | null;
+  receivedAt?: Date;
+}
+
+export interface IngestionResponse {
+  status: number;
+  // JSON body, none for 204
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface IngestionPipelineConfig {
+  tracker: ServerTracker;
+  // Batches are stored in the background by an IngestionWorker when set
+  queue?: IngestionQueue | null;
+  // Records consent_change events of batches stored right away
+  ledger?: ConsentLedger;
+  privacySignalPolicy?: PrivacySignalPolicy;
+  // Sent as Retry-After when the queue is full (default 5)
+  retryAfterSeconds?: number;
+  // Proxies whose X-Forwarded-For hops are believed, see clientIpFromHeaders
+  trustedProxies?: string[];
+  // Country and region of the client's address, from CDN headers without it
+  geoIp?: GeoIpLookup | null;
+}
+
+// Known context fields that parse, anything else the client sent is dropped
+function normalizeContext(context: Record<string, unknown>): Partial<EventContext> {
+  const normalized: Record<string, unknown> = {};
+  Object.entries(EventContext.shape).forEach(([key, schema]) => {
+    const parsed = schema.safeParse(context[key]);
+    if (parsed.success && parsed.data !== undefined) normalized[key] = parsed.data;
+  });
+  return normalized as Partial<EventContext>;
+}
+
+// Sec-CH-UA* headers, sent by Chromium browsers. Undefined without any.
+function readClientHints(headers: HeaderSource): ClientHints | undefined {
+  const hints: ClientHints = {
+    brands: readHeader(headers, 'sec-ch-ua'),
+    fullVersionList: readHeader(headers, 'sec-ch-ua-full-version-list'),
+    mobile: readHeader(headers, 'sec-ch-ua-mobile'),
+    platform: readHeader(headers, 'sec-ch-ua-platform'),
+    platformVersion: readHeader(headers, 'sec-ch-ua-platform-version'),
+  };
+  return Object.values(hints).some(Boolean) ? hints : undefined;
+}
+
+const invalid = (error: z.ZodError): IngestionResponse => ({
+  status: 400,
+  body: { error: 'Invalid request format', details: error.errors },
+});
+
+// The one way a tracking request becomes stored events, whatever the
+// framework: validate → normalize → consent check → scrub → enrich →
+// anonymize → sink. Here the request is validated, its events normalized and
+// the declared consent narrowed by privacy signals. The ServerTracker then
+// checks consent on record, scrubs personal data, enriches, anonymizes and
+// stores, right away or from the queue.
+export class IngestionPipeline {
+  constructor(private readonly config: IngestionPipelineConfig) {}
+
+  // A batch, as POST /track
+  async ingest(request: IngestionRequest): Promise<IngestionResponse> {
+    const parsed = IncomingBatchSchema.safeParse(request.body);
+    if (!parsed.success) return invalid(parsed.error);
+
+    return this.sink(parsed.data, request);
+  }
+
+  // One event without the batch envelope, as POST /track/single
+  async ingestOne(request: IngestionRequest): Promise<IngestionResponse> {
+    const parsed = IncomingEventSchema.safeParse(request.body);
+    if (!parsed.success) return invalid(parsed.error);
+
+    const response = await this.sink({ events: [parsed.data] }, request);
+    return response.status < 300 ? { status: 204 } : response;
+  }
+
+  // The client's id, timestamp, session and user are kept, what the server
+  // read from the request (serverContext) wins over the event's context.
+  // Types outside the taxonomy, from older clients, become custom events.
+  normalize(
+    incoming: IncomingEvent,
+    sentAt?: string,
+    serverContext: Partial<EventContext> = {},
+  ): TrackingEvent {
+    let event = TrackingEvent.create(
+      toEventType(incoming.type),
+      incoming.name,
+      incoming.properties,
+      { ...normalizeContext(incoming.context), ...serverContext },
+    ).withSession(incoming.sessionId);
+
+    // Without its own timestamp an event dates from when the batch was sent
+    const clientTime = incoming.timestamp ?? sentAt;
+    if (clientTime) event = event.withTimestamp(new Date(clientTime));
+    if (incoming.id) event = event.withId(incoming.id);
+    if (incoming.userId) event = event.withUser(incoming.userId as UserId);
+    return event;
+  }
+
+  private async sink(batch: IncomingBatch, request: IngestionRequest): Promise<IngestionResponse> {
+    const { tracker, queue, ledger } = this.config;
+    const receivedAt = request.receivedAt ?? new Date();
+    const userAgent = readHeader(request.headers, 'user-agent');
+    const privacySignals = readPrivacySignals(request.headers);
+    const privacySignalPolicy = this.config.privacySignalPolicy ?? DEFAULT_PRIVACY_SIGNAL_POLICY;
+
+    // Sec-GPC / DNT narrow whatever the client declared
+    const consent = narrowDeclaredConsent(batch.consent, privacySignals, privacySignalPolicy);
+    // The address itself goes no further than the location and the consent evidence
+    const ipAddress = clientIpFromHeaders(request.headers, {
+      trustedProxies: this.config.trustedProxies,
+      remoteAddress: request.ip,
+    });
+    const location = locateClient(ipAddress, request.headers, this.config.geoIp);
+    const clientHints = readClientHints(request.headers);
+
+    // The headers win over the context, the location is the server's to say
+    const serverContext: Partial<EventContext> = {
+      ...(userAgent && { userAgent }),
+      ...(clientHints && { clientHints }),
+      country: location?.country,
+      region: location?.region,
+      ipSubnet: undefined,
+      privacySignal: undefined,
+    };
+    const events = batch.events.map(incoming =>
+      this.normalize(incoming, batch.sentAt, serverContext),
+    );
+    const evidence: ConsentEvidence = {
+      ipAddress,
+      userAgent,
+      privacySignals,
+      privacySignalPolicy,
+    };
+
+    try {
+      if (queue) {
+        const queued = await queue.enqueue({
+          events: events.map(event => event.toJSON()),
+          consent,
+          sentAt: batch.sentAt,
+          receivedAt: receivedAt.toISOString(),
+          evidence,
+        });
+
+        // Full queue: the SDK backs off on 503 and sends the batch again later
+        if (!queued) {
+          return {
+            status: 503,
+            body: { error: 'Ingestion queue is full' },
+            headers: { 'Retry-After': String(this.config.retryAfterSeconds ?? 5) },
+          };
+        }
+
+        // Accepted for storage, the per-event outcome isn't known yet
+        return { status: 202, body: { queued: events.length } };
+      }
+
+      const summary = await tracker.trackBatch(events, consent, {
+        sentAt: parseClientTime(batch.sentAt),
+        receivedAt,
+      });
+
+      // Consent changes made in the browser become part of the consent history
+      await ledger
+        ?.recordConsentEvents(events, evidence)
+        .catch(error =>
+          console.error('[IngestionPipeline] Failed to record consent history:', error),
+        );
+
+      return { status: 200, body: summary };
+    } catch (error) {
+      console.error('[IngestionPipeline] Ingestion failed:', error);
+      return { status: 500, body: { error: 'Internal server error' } };
+    }
+  }
+}
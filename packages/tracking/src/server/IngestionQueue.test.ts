@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IngestionJob, IngestionQueue, MemoryIngestionQueue } from './IngestionQueue';
+import { MemoryRedisStreams } from './MemoryRedisStreams';
+import { RedisStreamIngestionQueue } from './RedisStreamQueue';
+
+const LEASE_MS = 10_000;
+
+const job = (id: string): IngestionJob => ({
+  events: [{ id } as IngestionJob['events'][number]],
+  receivedAt: '2026-10-19T12:00:00.000Z',
+});
+
+const eventIds = (jobs: Array<{ job: IngestionJob }>) => jobs.map(({ job }) => job.events[0]?.id);
+
+describe.each([
+  ['MemoryIngestionQueue', () => new MemoryIngestionQueue({ leaseMs: LEASE_MS })],
+  [
+    'RedisStreamIngestionQueue',
+    () => new RedisStreamIngestionQueue(new MemoryRedisStreams(), { leaseMs: LEASE_MS }),
+  ],
+])('%s', (_, createQueue: () => IngestionQueue) => {
+  let queue: IngestionQueue;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+    queue = createQueue();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('delivers jobs in order until they are acknowledged', async () => {
+    await queue.enqueue(job('a'));
+    await queue.enqueue(job('b'));
+    await queue.enqueue(job('c'));
+
+    const received = await queue.receive(2);
+    expect(eventIds(received)).toEqual(['a', 'b']);
+    expect(received.map(queued => queued.attempts)).toEqual([1, 1]);
+
+    await queue.ack(received.map(queued => queued.id));
+    expect(await queue.size()).toBe(1);
+    expect(eventIds(await queue.receive(10))).toEqual(['c']);
+    expect(await queue.receive(10)).toEqual([]);
+  });
+
+  it('redelivers a released job as its next attempt', async () => {
+    await queue.enqueue(job('a'));
+    const [queued] = await queue.receive(1);
+    await queue.release([{ id: queued?.id ?? '', attempts: 1 }]);
+
+    const [again] = await queue.receive(1);
+    expect(again?.id).toBe(queued?.id);
+    expect(again?.attempts).toBe(2);
+  });
+
+  it('holds a released job back for its delay', async () => {
+    await queue.enqueue(job('a'));
+    const [queued] = await queue.receive(1);
+    await queue.release([{ id: queued?.id ?? '', attempts: 1, delayMs: 2_000 }]);
+
+    vi.advanceTimersByTime(1_999);
+    expect(await queue.receive(1)).toEqual([]);
+
+    vi.advanceTimersByTime(1);
+    const [again] = await queue.receive(1);
+    expect(eventIds([again as { job: IngestionJob }])).toEqual(['a']);
+    expect(again?.attempts).toBe(2);
+    expect(await queue.size()).toBe(1);
+  });
+
+  it("doesn't count an attempt when told not to", async () => {
+    await queue.enqueue(job('a'));
+    for (let i = 0; i < 3; i++) {
+      const [queued] = await queue.receive(1);
+      expect(queued?.attempts).toBe(1);
+      await queue.release([{ id: queued?.id ?? '', attempts: 1, countAttempt: false }]);
+    }
+  });
+
+  it('hands out an unacknowledged job again once its lease runs out', async () => {
+    await queue.enqueue(job('a'));
+    await queue.receive(1);
+    expect(await queue.receive(1)).toEqual([]);
+
+    vi.advanceTimersByTime(LEASE_MS);
+    const [again] = await queue.receive(1);
+    expect(again?.attempts).toBe(2);
+  });
+
+  it('ignores acknowledgements and releases of unknown jobs', async () => {
+    await queue.ack([]);
+    await queue.release([]);
+    await queue.enqueue(job('a'));
+    await queue.ack(['9999999999999-0']);
+    await queue.release([{ id: '9999999999999-0', attempts: 1 }]);
+    expect(eventIds(await queue.receive(10))).toEqual(['a']);
+  });
+});
+
+describe('MemoryIngestionQueue', () => {
+  it('turns jobs away when full, in flight jobs included', async () => {
+    const queue = new MemoryIngestionQueue({ capacity: 2 });
+    expect(await queue.enqueue(job('a'))).toBe(true);
+    await queue.receive(1);
+    expect(await queue.enqueue(job('b'))).toBe(true);
+    expect(await queue.enqueue(job('c'))).toBe(false);
+  });
+
+  it('wraps around the ring buffer', async () => {
+    const queue = new MemoryIngestionQueue({ capacity: 2 });
+    for (const id of ['a', 'b', 'c', 'd', 'e']) {
+      await queue.enqueue(job(id));
+      const received = await queue.receive(1);
+      expect(eventIds(received)).toEqual([id]);
+      await queue.ack(received.map(queued => queued.id));
+    }
+  });
+
+  it('wakes a waiting receive when a job is enqueued', async () => {
+    const queue = new MemoryIngestionQueue();
+    const receiving = queue.receive(1, 60_000);
+    await queue.enqueue(job('a'));
+    expect(eventIds(await receiving)).toEqual(['a']);
+  });
+});
+
+describe('RedisStreamIngestionQueue', () => {
+  it('turns jobs away at the maximum length', async () => {
+    const queue = new RedisStreamIngestionQueue(new MemoryRedisStreams(), { maxLength: 1 });
+    expect(await queue.enqueue(job('a'))).toBe(true);
+    expect(await queue.enqueue(job('b'))).toBe(false);
+  });
+
+  it('drops entries that hold no readable job', async () => {
+    const redis = new MemoryRedisStreams();
+    const queue = new RedisStreamIngestionQueue(redis, { stream: 'jobs' });
+    await queue.enqueue(job('a'));
+    await redis.call('XADD', 'jobs', '*', 'job', '{not json');
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(eventIds(await queue.receive(10))).toEqual(['a']);
+    expect(await queue.size()).toBe(1);
+  });
+
+  it('shares jobs between consumers of the same group', async () => {
+    const redis = new MemoryRedisStreams();
+    const first = new RedisStreamIngestionQueue(redis, { consumer: 'first' });
+    const second = new RedisStreamIngestionQueue(redis, { consumer: 'second' });
+    await first.enqueue(job('a'));
+    await first.enqueue(job('b'));
+
+    expect(eventIds(await first.receive(1))).toEqual(['a']);
+    expect(eventIds(await second.receive(1))).toEqual(['b']);
+  });
+});
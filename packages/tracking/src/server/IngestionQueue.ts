@@ -0,0 +1,176 @@
+import { GrantedConsent, TrackingEventJSON } from '@data-snack/core';
+import { ConsentEvidence } from './ConsentLedger';
+
+// One request's batch, as the endpoint accepted it
+export interface IngestionJob {
+  events: TrackingEventJSON[];
+  consent?: GrantedConsent;
+  // Client send time and server receipt, for clock skew correction
+  sentAt?: string;
+  receivedAt: string;
+  // Request details recorded with consent_change events
+  evidence?: ConsentEvidence;
+}
+
+export interface QueuedJob {
+  id: string;
+  job: IngestionJob;
+  // Deliveries so far, including this one
+  attempts: number;
+}
+
+// A received job handed back for another attempt
+export interface JobRelease {
+  id: string;
+  // Deliveries so far, as received
+  attempts: number;
+  // Not delivered again before this many ms have passed (default 0)
+  delayMs?: number;
+  // False when the job wasn't at fault, e.g. storage was down: the delivery
+  // doesn't count towards its attempts (default true)
+  countAttempt?: boolean;
+}
+
+// Sits between the endpoints and storage. Delivery is at least once: a
+// received job comes back until it is acknowledged, so processing must be
+// idempotent (event ids are deduplicated on storage).
+export interface IngestionQueue {
+  // Resolves to false when the queue is full, the endpoint should shed load
+  enqueue(job: IngestionJob): Promise<boolean>;
+  // Up to max jobs, waiting at most waitMs for the first one
+  receive(max: number, waitMs?: number): Promise<QueuedJob[]>;
+  ack(ids: string[]): Promise<void>;
+  // Hands received jobs back for another attempt
+  release(jobs: JobRelease[]): Promise<void>;
+  // Jobs waiting or in flight
+  size(): Promise<number>;
+  close(): Promise<void>;
+}
+
+export interface MemoryQueueConfig {
+  // Jobs held at most, waiting and in flight together (default 10 000)
+  capacity?: number;
+  // How long a received job may stay unacknowledged before it is handed out
+  // again (default 60s)
+  leaseMs?: number;
+}
+
+interface Lease {
+  queued: QueuedJob;
+  expiresAt: number;
+}
+
+// In-process ring buffer, the default queue. Jobs don't survive a restart,
+// so drain it on shutdown.
+export class MemoryIngestionQueue implements IngestionQueue {
+  private readonly slots: Array<QueuedJob | undefined>;
+  private readonly leaseMs: number;
+  private readonly leases = new Map<string, Lease>();
+  private waiters: Array<() => void> = [];
+  private head = 0;
+  private count = 0;
+  private sequence = 0;
+
+  constructor({ capacity = 10_000, leaseMs = 60_000 }: MemoryQueueConfig = {}) {
+    this.slots = new Array(Math.max(capacity, 1));
+    this.leaseMs = leaseMs;
+  }
+
+  async enqueue(job: IngestionJob): Promise<boolean> {
+    if (this.count + this.leases.size >= this.slots.length) return false;
+
+    this.push({ id: String(++this.sequence), job, attempts: 0 });
+    this.wake();
+    return true;
+  }
+
+  async receive(max: number, waitMs = 0): Promise<QueuedJob[]> {
+    this.reclaimExpired();
+    if (this.count === 0 && waitMs > 0) {
+      // A delayed job falling due ends the wait early
+      const due = Math.min(...[...this.leases.values()].map(lease => lease.expiresAt));
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, Math.max(0, Math.min(waitMs, due - Date.now())));
+        this.waiters.push(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+      this.reclaimExpired();
+    }
+
+    const received: QueuedJob[] = [];
+    const expiresAt = Date.now() + this.leaseMs;
+    while (received.length < max && this.count > 0) {
+      const queued = this.shift();
+      const delivered = { ...queued, attempts: queued.attempts + 1 };
+      this.leases.set(delivered.id, { queued: delivered, expiresAt });
+      received.push(delivered);
+    }
+    return received;
+  }
+
+  async ack(ids: string[]): Promise<void> {
+    ids.forEach(id => this.leases.delete(id));
+  }
+
+  // Delayed jobs keep their lease until it runs out at the delay
+  async release(jobs: JobRelease[]): Promise<void> {
+    const now = Date.now();
+    let ready = false;
+    jobs.forEach(({ id, delayMs = 0, countAttempt = true }) => {
+      const lease = this.leases.get(id);
+      if (!lease) return;
+
+      const queued = countAttempt
+        ? lease.queued
+        : { ...lease.queued, attempts: lease.queued.attempts - 1 };
+      if (delayMs > 0) {
+        this.leases.set(id, { queued, expiresAt: now + delayMs });
+        return;
+      }
+      this.leases.delete(id);
+      this.push(queued);
+      ready = true;
+    });
+    if (ready) this.wake();
+  }
+
+  async size(): Promise<number> {
+    return this.count + this.leases.size;
+  }
+
+  // Wakes pending receives, jobs still held are lost
+  async close(): Promise<void> {
+    this.wake();
+  }
+
+  private push(queued: QueuedJob): void {
+    this.slots[(this.head + this.count) % this.slots.length] = queued;
+    this.count++;
+  }
+
+  private shift(): QueuedJob {
+    const queued = this.slots[this.head] as QueuedJob;
+    this.slots[this.head] = undefined;
+    this.head = (this.head + 1) % this.slots.length;
+    this.count--;
+    return queued;
+  }
+
+  // Jobs whose worker never acknowledged them, e.g. after a crash mid-batch,
+  // and released jobs whose delay is over
+  private reclaimExpired(now = Date.now()): void {
+    for (const [id, lease] of this.leases) {
+      if (lease.expiresAt > now) continue;
+      this.leases.delete(id);
+      this.push(lease.queued);
+    }
+  }
+
+  private wake(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(wake => wake());
+  }
+}
@@ -0,0 +1,124 @@
+import { DatabaseUnavailableError } from '@data-snack/database';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryIngestionQueue } from './IngestionQueue';
+import { IngestionWorker } from './IngestionWorker';
+import { ServerTracker } from './ServerTracker';
+
+const job = {
+  events: [],
+  receivedAt: '2026-10-19T12:00:00.000Z',
+};
+
+describe('IngestionWorker', () => {
+  let queue: MemoryIngestionQueue;
+  let trackBatch: ReturnType<typeof vi.fn>;
+  let worker: IngestionWorker;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    queue = new MemoryIngestionQueue();
+    trackBatch = vi.fn();
+    worker = new IngestionWorker(queue, { trackBatch } as unknown as ServerTracker, {
+      maxAttempts: 3,
+      retryDelayMs: 1_000,
+      maxRetryDelayMs: 3_000,
+    });
+    await queue.enqueue(job);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('acknowledges processed jobs', async () => {
+    expect(await worker.poll(0)).toBe(1);
+    expect(trackBatch).toHaveBeenCalledOnce();
+    expect(await queue.size()).toBe(0);
+  });
+
+  it('logs processed jobs only in debug mode', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    trackBatch.mockResolvedValue({ accepted: 0 });
+    await worker.poll(0);
+    expect(log).not.toHaveBeenCalled();
+
+    const debugWorker = new IngestionWorker(queue, { trackBatch } as unknown as ServerTracker, {
+      debug: true,
+    });
+    await queue.enqueue(job);
+    await debugWorker.poll(0);
+    expect(log).toHaveBeenCalledWith('[IngestionWorker] Job processed:', { accepted: 0 });
+  });
+
+  it('backs off exponentially and drops a job after its last attempt', async () => {
+    trackBatch.mockRejectedValue(new Error('invalid batch'));
+
+    await worker.poll(0);
+    vi.advanceTimersByTime(999);
+    expect(await worker.poll(0)).toBe(0);
+    vi.advanceTimersByTime(1);
+    expect(await worker.poll(0)).toBe(1);
+
+    // Second retry waits twice as long
+    vi.advanceTimersByTime(1_999);
+    expect(await worker.poll(0)).toBe(0);
+    vi.advanceTimersByTime(1);
+    expect(await worker.poll(0)).toBe(1);
+
+    expect(trackBatch).toHaveBeenCalledTimes(3);
+    expect(await queue.size()).toBe(0);
+  });
+
+  it('keeps jobs without using up attempts while storage is unavailable', async () => {
+    trackBatch.mockRejectedValue(new DatabaseUnavailableError('connect ECONNREFUSED'));
+
+    for (const delay of [1_000, 2_000, 3_000, 3_000, 3_000]) {
+      expect(await worker.poll(0)).toBe(1);
+      vi.advanceTimersByTime(delay - 1);
+      expect(await worker.poll(0)).toBe(0);
+      vi.advanceTimersByTime(1);
+    }
+    expect(await queue.size()).toBe(1);
+
+    trackBatch.mockResolvedValue({});
+    expect(await worker.poll(0)).toBe(1);
+    expect(await queue.size()).toBe(0);
+  });
+
+  describe('drain', () => {
+    it('waits for jobs delayed for a retry that fall due in time', async () => {
+      trackBatch.mockRejectedValueOnce(new Error('deadlock detected')).mockResolvedValue({});
+
+      const drained = worker.drain(5_000);
+      await vi.advanceTimersByTimeAsync(1_000);
+      await drained;
+
+      expect(trackBatch).toHaveBeenCalledTimes(2);
+      expect(await queue.size()).toBe(0);
+    });
+
+    it('leaves jobs delayed beyond the timeout in the queue', async () => {
+      trackBatch.mockRejectedValue(new Error('deadlock detected'));
+
+      const drained = worker.drain(2_500);
+      await vi.advanceTimersByTimeAsync(2_500);
+      await drained;
+
+      // The second retry would be due at 3s
+      expect(trackBatch).toHaveBeenCalledTimes(2);
+      expect(await queue.size()).toBe(1);
+    });
+
+    it("doesn't wait without a timeout", async () => {
+      trackBatch.mockRejectedValue(new Error('deadlock detected'));
+
+      await worker.drain();
+      expect(trackBatch).toHaveBeenCalledOnce();
+      expect(await queue.size()).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { TrackingEvent } from '@data-snack/core';
+import { RepositoryError } from '@data-snack/database';
+import { ConsentLedger } from './ConsentLedger';
+import { parseClientTime } from './EventClock';
+import { IngestionJob, IngestionQueue, JobRelease } from './IngestionQueue';
+import { ServerTracker } from './ServerTracker';
+import { forEachLimited } from './forEachLimited';
+
+export interface IngestionWorkerConfig {
+  // Jobs received per poll (default 32)
+  batchSize?: number;
+  // Jobs stored at once (default 4)
+  concurrency?: number;
+  // How long a poll waits for jobs (default 1s)
+  pollMs?: number;
+  // Deliveries before a job is dropped (default 5)
+  maxAttempts?: number;
+  // Wait before a failed job is delivered again, doubled for every further
+  // attempt (default 1s)
+  retryDelayMs?: number;
+  // Longest wait between attempts (default 60s)
+  maxRetryDelayMs?: number;
+  // Records consent_change events in the consent history
+  ledger?: ConsentLedger;
+  debug?: boolean;
+}
+
+// Drains the ingestion queue into the ServerTracker. It only receives as
+// many jobs as it works on, so a slow database leaves jobs in the queue
+// until the queue fills and the endpoints start turning batches away.
+// Failed jobs come back after a growing delay. While storage is unreachable
+// they don't use up attempts, they wait in the queue until it's back.
+export class IngestionWorker {
+  private readonly batchSize: number;
+  private readonly concurrency: number;
+  private readonly pollMs: number;
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+  private readonly maxRetryDelayMs: number;
+  private running: Promise<void> | null = null;
+  private stopping = false;
+  // Polls in a row that found storage unavailable
+  private outages = 0;
+
+  constructor(
+    private readonly queue: IngestionQueue,
+    private readonly tracker: ServerTracker,
+    private readonly config: IngestionWorkerConfig = {},
+  ) {
+    this.batchSize = config.batchSize ?? 32;
+    this.concurrency = config.concurrency ?? 4;
+    this.pollMs = config.pollMs ?? 1_000;
+    this.maxAttempts = config.maxAttempts ?? 5;
+    this.retryDelayMs = config.retryDelayMs ?? 1_000;
+    this.maxRetryDelayMs = config.maxRetryDelayMs ?? 60_000;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.stopping = false;
+    this.running = this.loop();
+  }
+
+  // Resolves once the current poll is done, jobs left in the queue stay there
+  async stop(): Promise<void> {
+    this.stopping = true;
+    await this.running;
+    this.running = null;
+  }
+
+  // Processes jobs until the queue has none ready, e.g. before shutdown.
+  // Jobs delayed for a retry are waited for until timeoutMs has passed.
+  // Those still delayed then stay in the queue, the in-memory queue loses them.
+  async drain(timeoutMs = 0): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      if ((await this.poll(0)) > 0) continue;
+
+      const waitMs = deadline - Date.now();
+      if (waitMs <= 0 || (await this.queue.size()) === 0) return;
+      await this.poll(waitMs);
+    }
+  }
+
+  // Receives one batch of jobs and settles each, returns how many there were
+  async poll(waitMs = this.pollMs): Promise<number> {
+    const received = await this.queue.receive(this.batchSize, waitMs);
+    const done: string[] = [];
+    const retry: JobRelease[] = [];
+    const waiting: JobRelease[] = [];
+
+    await forEachLimited(received, this.concurrency, async queued => {
+      const { id, attempts } = queued;
+      try {
+        await this.process(queued.job);
+        done.push(id);
+      } catch (error) {
+        if (isStorageUnavailable(error)) {
+          waiting.push({ id, attempts, countAttempt: false });
+        } else if (attempts < this.maxAttempts) {
+          retry.push({ id, attempts, delayMs: this.retryDelay(attempts) });
+        } else {
+          console.error(`[IngestionWorker] Dropping job ${id} after ${attempts} attempts:`, error);
+          done.push(id);
+        }
+      }
+    });
+
+    if (waiting.length > 0) {
+      this.outages++;
+      const delayMs = this.retryDelay(this.outages);
+      console.error(
+        `[IngestionWorker] Storage unavailable, ${waiting.length} jobs wait ${delayMs}ms`,
+      );
+      waiting.forEach(job => retry.push({ ...job, delayMs }));
+    } else if (done.length > 0) {
+      this.outages = 0;
+    }
+
+    await this.queue.ack(done);
+    await this.queue.release(retry);
+    return received.length;
+  }
+
+  private async loop(): Promise<void> {
+    while (!this.stopping) {
+      try {
+        await this.poll();
+      } catch (error) {
+        // The queue itself failed, e.g. Redis is unreachable
+        console.error('[IngestionWorker] Poll failed:', error);
+        await new Promise(resolve => setTimeout(resolve, this.pollMs));
+      }
+    }
+  }
+
+  private retryDelay(attempts: number): number {
+    return Math.min(this.retryDelayMs * 2 ** (attempts - 1), this.maxRetryDelayMs);
+  }
+
+  // A redelivered job is stored again, the tracker reports its events as duplicates
+  private async process(job: IngestionJob): Promise<void> {
+    const events = job.events.map(event => TrackingEvent.fromJSON(event));
+    const summary = await this.tracker.trackBatch(events, job.consent, {
+      sentAt: parseClientTime(job.sentAt),
+      receivedAt: parseClientTime(job.receivedAt) ?? new Date(),
+    });
+
+    await this.config.ledger
+      ?.recordConsentEvents(events, job.evidence)
+      .catch(error => console.error('[IngestionWorker] Failed to record consent history:', error));
+
+    if (this.config.debug) {
+      console.log('[IngestionWorker] Job processed:', summary);
+    }
+  }
+}
+
+// The database can't be reached, nothing wrong with the job itself
+const isStorageUnavailable = (error: unknown): boolean =>
+  error instanceof RepositoryError && error.code === 'unavailable';
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import {
+  anonymizeIp,
+  clientIpFromHeaders,
+  formatIp,
+  ipInRange,
+  parseIp,
+  trustedProxiesFromEnv,
+} from './IpAddress';
+
+const roundTrip = (ip: string) => {
+  const bytes = parseIp(ip);
+  return bytes && formatIp(bytes);
+};
+
+describe('parseIp and formatIp', () => {
+  it.each([
+    ['203.0.113.7', '203.0.113.7'],
+    ['0.0.0.0', '0.0.0.0'],
+    ['::', '::'],
+    ['::1', '::1'],
+    ['fe80::', 'fe80::'],
+    ['2001:0DB8:0000:0000:0000:0000:0000:0001', '2001:db8::1'],
+    // Only runs of two or more zero groups are compressed, the first of equals
+    ['2001:db8:0:1:1:1:1:1', '2001:db8:0:1:1:1:1:1'],
+    ['2001:db8:0:0:1:0:0:1', '2001:db8::1:0:0:1'],
+    ['2001:0:0:1:0:0:0:1', '2001:0:0:1::1'],
+    ['1:2:3:4:5:6:7::', '1:2:3:4:5:6:7:0'],
+    ['64:ff9b::192.0.2.33', '64:ff9b::c000:221'],
+  ])('formats %s as %s', (ip, expected) => {
+    expect(roundTrip(ip)).toBe(expected);
+  });
+
+  it('ignores brackets, ports and zone ids', () => {
+    expect(roundTrip('[2001:db8::1]:443')).toBe('2001:db8::1');
+    expect(roundTrip('[2001:db8::1]')).toBe('2001:db8::1');
+    expect(roundTrip('203.0.113.7:5678')).toBe('203.0.113.7');
+    expect(roundTrip('fe80::1%eth0')).toBe('fe80::1');
+    expect(roundTrip(' 203.0.113.7 ')).toBe('203.0.113.7');
+  });
+
+  it('reads IPv4-mapped IPv6 as IPv4', () => {
+    expect(parseIp('::ffff:203.0.113.7')).toEqual(Uint8Array.from([203, 0, 113, 7]));
+    expect(parseIp('::ffff:cb00:7107')).toEqual(Uint8Array.from([203, 0, 113, 7]));
+    expect(parseIp('[::ffff:203.0.113.7]:80')).toHaveLength(4);
+  });
+
+  it.each([
+    null,
+    undefined,
+    '',
+    'unknown',
+    '256.1.1.1',
+    '1.2.3',
+    '1.2.3.4.5',
+    '01234.1.1.1',
+    '1:2:3:4:5:6:7:8:9',
+    '1:2:3:4:5:6:7',
+    '1:2:3:4:5:6:7::8',
+    '1::2::3',
+    '12345::1',
+    'gggg::1',
+    '::ffff:300.0.0.1',
+  ])('rejects %s', ip => {
+    expect(parseIp(ip)).toBeNull();
+  });
+});
+
+describe('anonymizeIp', () => {
+  it('keeps the /24 of IPv4 and the /48 of IPv6', () => {
+    expect(anonymizeIp('203.0.113.7')).toBe('203.0.113.0');
+    expect(anonymizeIp('::ffff:203.0.113.7')).toBe('203.0.113.0');
+    expect(anonymizeIp('2001:db8:abcd:12::1')).toBe('2001:db8:abcd::');
+    expect(anonymizeIp('not an address')).toBeNull();
+  });
+});
+
+describe('ipInRange', () => {
+  const ip = (value: string) => parseIp(value) as Uint8Array;
+
+  it('matches CIDRs on any prefix length', () => {
+    expect(ipInRange(ip('172.31.255.255'), '172.16.0.0/12')).toBe(true);
+    expect(ipInRange(ip('172.32.0.0'), '172.16.0.0/12')).toBe(false);
+    expect(ipInRange(ip('febf::1'), 'fe80::/10')).toBe(true);
+    expect(ipInRange(ip('fec0::1'), 'fe80::/10')).toBe(false);
+    expect(ipInRange(ip('198.51.100.23'), '0.0.0.0/0')).toBe(true);
+  });
+
+  it('matches single addresses exactly', () => {
+    expect(ipInRange(ip('::1'), '::1')).toBe(true);
+    expect(ipInRange(ip('::2'), '::1')).toBe(false);
+  });
+
+  it("doesn't mix address families or accept broken ranges", () => {
+    expect(ipInRange(ip('10.0.0.1'), '::/0')).toBe(false);
+    expect(ipInRange(ip('10.0.0.1'), 'private')).toBe(false);
+  });
+});
+
+describe('clientIpFromHeaders', () => {
+  const headers = { 'x-forwarded-for': '198.51.100.23, 203.0.113.7, 10.0.0.3' };
+
+  it('believes the remote address, then the first hop without trusted proxies', () => {
+    expect(clientIpFromHeaders(headers, { remoteAddress: '10.0.0.2' })).toBe('10.0.0.2');
+    expect(clientIpFromHeaders(headers)).toBe('198.51.100.23');
+    expect(clientIpFromHeaders({ 'x-real-ip': ' 203.0.113.7 ' })).toBe('203.0.113.7');
+    expect(clientIpFromHeaders({})).toBeNull();
+  });
+
+  it('walks the chain from the right past the trusted proxies', () => {
+    expect(
+      clientIpFromHeaders(headers, { trustedProxies: ['private'], remoteAddress: '10.0.0.2' }),
+    ).toBe('203.0.113.7');
+    expect(
+      clientIpFromHeaders(new Headers(headers), {
+        trustedProxies: ['10.0.0.0/8', '203.0.113.7'],
+        remoteAddress: '10.0.0.2',
+      }),
+    ).toBe('198.51.100.23');
+  });
+
+  it('returns an untrusted peer as the client', () => {
+    expect(
+      clientIpFromHeaders(headers, { trustedProxies: ['private'], remoteAddress: '192.0.2.50' }),
+    ).toBe('192.0.2.50');
+  });
+
+  it('falls back to X-Real-IP and to the farthest proxy', () => {
+    expect(
+      clientIpFromHeaders(
+        { 'x-real-ip': '203.0.113.7' },
+        { trustedProxies: ['loopback'], remoteAddress: '127.0.0.1' },
+      ),
+    ).toBe('203.0.113.7');
+    expect(
+      clientIpFromHeaders(
+        { 'x-forwarded-for': '10.0.0.5, 10.0.0.3' },
+        { trustedProxies: ['private'], remoteAddress: '10.0.0.2' },
+      ),
+    ).toBe('10.0.0.5');
+    expect(
+      clientIpFromHeaders({}, { trustedProxies: ['private'], remoteAddress: '10.0.0.2' }),
+    ).toBe('10.0.0.2');
+  });
+});
+
+describe('trustedProxiesFromEnv', () => {
+  it('reads a comma separated list', () => {
+    expect(trustedProxiesFromEnv({ TRUSTED_PROXIES: ' loopback, 10.0.0.0/8 ,' })).toEqual([
+      'loopback',
+      '10.0.0.0/8',
+    ]);
+    expect(trustedProxiesFromEnv({ TRUSTED_PROXIES: ' , ' })).toBeUndefined();
+    expect(trustedProxiesFromEnv({})).toBeUndefined();
+  });
+});
@@ -0,0 +1,168 @@
+import { HeaderSource, readHeader } from './PrivacySignals';
+
+// Prefix lengths kept by anonymizeIp
+const IPV4_PREFIX = 24;
+const IPV6_PREFIX = 48;
+
+// Named ranges for TRUSTED_PROXIES, next to plain addresses and CIDRs
+const PROXY_PRESETS: Record<string, string[]> = {
+  loopback: ['127.0.0.0/8', '::1/128'],
+  private: ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', 'fc00::/7', 'fe80::/10'],
+};
+
+export interface ClientIpOptions {
+  // Addresses, CIDRs, 'loopback' or 'private'. X-Forwarded-For is read from
+  // the right and the first hop that isn't one of them is the client. Without
+  // any, the remote address wins and then the first hop as sent.
+  trustedProxies?: string[];
+  // The peer that connected, or the address the framework resolved. The
+  // client itself unless it's a trusted proxy.
+  remoteAddress?: string | null;
+}
+
+// Address bytes, 4 for IPv4 and 16 for IPv6, null when it doesn't parse.
+// Ports, brackets and zone ids are ignored, IPv4-mapped IPv6 is IPv4.
+export function parseIp(ip: string | null | undefined): Uint8Array | null {
+  let value = ip?.trim();
+  if (!value) return null;
+
+  // [2001:db8::1]:443 and 203.0.113.7:5678
+  const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(value);
+  if (bracketed) value = bracketed[1] as string;
+  else if (/^[\d.]+:\d+$/.test(value)) value = value.slice(0, value.lastIndexOf(':'));
+  value = value.replace(/%.*$/, '');
+
+  const v4 = parseIpv4(value);
+  if (v4) return v4;
+
+  const v6 = parseIpv6(value);
+  if (!v6) return null;
+  const mapped = v6.slice(0, 10).every(byte => byte === 0) && v6[10] === 0xff && v6[11] === 0xff;
+  return mapped ? v6.slice(12) : v6;
+}
+
+function parseIpv4(value: string): Uint8Array | null {
+  const parts = value.split('.');
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+    return null;
+  }
+  return Uint8Array.from(parts.map(Number));
+}
+
+function parseIpv6(value: string): Uint8Array | null {
+  if (!/^[\da-f:.]+$/i.test(value) || value.split('::').length > 2) return null;
+
+  // A trailing dotted quad stands for the last two groups
+  let groups = value;
+  const quad = /(\d+\.\d+\.\d+\.\d+)$/.exec(value);
+  if (quad) {
+    const v4 = parseIpv4(quad[1] as string);
+    if (!v4) return null;
+    const [a = 0, b = 0, c = 0, d = 0] = v4;
+    groups = `${value.slice(0, quad.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head = '', tail] = groups.split('::');
+  const split = (part: string) => (part ? part.split(':') : []);
+  const left = split(head);
+  const right = tail === undefined ? [] : split(tail);
+  const missing = 8 - left.length - right.length;
+  if (tail === undefined ? missing !== 0 : missing < 1) return null;
+
+  const words = [...left, ...Array<string>(missing).fill('0'), ...right];
+  if (!words.every(word => /^[\da-f]{1,4}$/i.test(word))) return null;
+
+  const bytes = new Uint8Array(16);
+  words.forEach((word, i) => {
+    const n = parseInt(word, 16);
+    bytes[i * 2] = n >> 8;
+    bytes[i * 2 + 1] = n & 0xff;
+  });
+  return bytes;
+}
+
+// Dotted quad, or RFC 5952 IPv6 with the longest run of zero groups compressed
+export function formatIp(bytes: Uint8Array): string {
+  if (bytes.length === 4) return bytes.join('.');
+
+  const words = Array.from(
+    { length: 8 },
+    (_, i) => ((bytes[i * 2] ?? 0) << 8) | (bytes[i * 2 + 1] ?? 0),
+  );
+  let best = { start: -1, length: 1 };
+  for (let i = 0; i < 8; i++) {
+    let length = 0;
+    while (i + length < 8 && words[i + length] === 0) length++;
+    if (length > best.length) best = { start: i, length };
+  }
+
+  const hex = (part: number[]) => part.map(word => word.toString(16)).join(':');
+  if (best.start < 0) return hex(words);
+  return `${hex(words.slice(0, best.start))}::${hex(words.slice(best.start + best.length))}`;
+}
+
+// Truncate an IPv4 address to its /24 subnet and an IPv6 address to its /48,
+// anything else is dropped
+export function anonymizeIp(ip: string | null | undefined): string | null {
+  const bytes = parseIp(ip);
+  if (!bytes) return null;
+
+  const keep = (bytes.length === 4 ? IPV4_PREFIX : IPV6_PREFIX) / 8;
+  return formatIp(bytes.map((byte, i) => (i < keep ? byte : 0)));
+}
+
+// Whether the address lies in the range, a CIDR or a single address
+export function ipInRange(ip: Uint8Array, range: string): boolean {
+  const [address, prefix] = range.split('/');
+  const network = parseIp(address);
+  if (!network || network.length !== ip.length) return false;
+
+  const bits = prefix === undefined ? network.length * 8 : Number(prefix);
+  for (let i = 0; i < network.length; i++) {
+    const mask = bits >= (i + 1) * 8 ? 0xff : bits <= i * 8 ? 0 : (0xff << (8 - (bits % 8))) & 0xff;
+    if (((ip[i] ?? 0) & mask) !== ((network[i] ?? 0) & mask)) return false;
+  }
+  return true;
+}
+
+// The client's address from X-Forwarded-For or X-Real-IP, behind the given
+// trusted proxies
+export function clientIpFromHeaders(
+  headers: HeaderSource,
+  { trustedProxies, remoteAddress }: ClientIpOptions = {},
+): string | null {
+  const hops = (readHeader(headers, 'x-forwarded-for') ?? '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  const realIp = readHeader(headers, 'x-real-ip')?.trim() || null;
+
+  if (!trustedProxies) return remoteAddress || hops[0] || realIp || null;
+
+  const ranges = trustedProxies.flatMap(proxy => PROXY_PRESETS[proxy] ?? [proxy]);
+  const trusted = (hop: string) => {
+    const bytes = parseIp(hop);
+    return !!bytes && ranges.some(range => ipInRange(bytes, range));
+  };
+
+  // A peer we don't trust could have written the headers itself
+  if (remoteAddress && !trusted(remoteAddress)) return remoteAddress;
+
+  const chain = hops.length > 0 ? hops : realIp ? [realIp] : [];
+  for (let i = chain.length - 1; i >= 0; i--) {
+    if (!trusted(chain[i] as string)) return chain[i] as string;
+  }
+  // Proxies all the way, the farthest one is as close to the client as we get
+  return chain[0] || remoteAddress || null;
+}
+
+// TRUSTED_PROXIES, comma separated. Unset, the first X-Forwarded-For hop is
+// believed.
+export function trustedProxiesFromEnv(
+  env: Record<string, string | undefined> = process.env,
+): string[] | undefined {
+  const proxies = env.TRUSTED_PROXIES?.split(',')
+    .map(proxy => proxy.trim())
+    .filter(Boolean);
+  return proxies?.length ? proxies : undefined;
+}
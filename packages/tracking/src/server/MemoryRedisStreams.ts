@@ -0,0 +1,197 @@
+import { RedisCommandClient } from './RedisStreamQueue';
+
+interface PendingEntry {
+  consumer: string;
+  deliveredAt: number;
+  deliveries: number;
+}
+
+interface ConsumerGroup {
+  lastDelivered: string;
+  pending: Map<string, PendingEntry>;
+}
+
+interface Stream {
+  entries: Map<string, string[]>;
+  groups: Map<string, ConsumerGroup>;
+  lastId: string;
+}
+
+const compareIds = (a: string, b: string): number => {
+  const [aMs = 0, aSeq = 0] = a.split('-').map(Number);
+  const [bMs = 0, bSeq = 0] = b.split('-').map(Number);
+  return aMs - bMs || aSeq - bSeq;
+};
+
+// Local stand-in for the Redis Streams commands RedisStreamIngestionQueue
+// uses, replying in the same shapes. Only for tests, it isn't exported.
+export class MemoryRedisStreams implements RedisCommandClient {
+  private readonly streams = new Map<string, Stream>();
+  private waiters: Array<() => void> = [];
+
+  async call(command: string, ...args: Array<string | number>): Promise<unknown> {
+    const [key = '', ...rest] = args.map(String);
+
+    switch (command.toUpperCase()) {
+      case 'XGROUP':
+        return this.createGroup(rest[0] ?? '', rest[1] ?? '', rest[3] === 'MKSTREAM', key);
+      case 'XADD':
+        return this.add(key, rest.slice(1));
+      case 'XLEN':
+        return this.streams.get(key)?.entries.size ?? 0;
+      case 'XREADGROUP':
+        return this.readGroup(args.map(String));
+      case 'XAUTOCLAIM':
+        return this.autoClaim(key, rest);
+      case 'XPENDING':
+        return this.pendingRange(key, rest);
+      case 'XCLAIM':
+        return this.claim(key, rest);
+      case 'XACK':
+        return rest.slice(1).filter(id => this.group(key, rest[0] ?? '').pending.delete(id)).length;
+      case 'XDEL':
+        return rest.filter(id => this.stream(key).entries.delete(id)).length;
+      default:
+        throw new Error(`ERR unknown command '${command}'`);
+    }
+  }
+
+  private createGroup(stream: string, group: string, create: boolean, subcommand: string) {
+    if (subcommand.toUpperCase() !== 'CREATE') throw new Error('ERR unsupported XGROUP');
+    if (!this.streams.has(stream)) {
+      if (!create) throw new Error('ERR The XGROUP subcommand requires the key to exist');
+      this.streams.set(stream, { entries: new Map(), groups: new Map(), lastId: '0-0' });
+    }
+
+    const groups = this.stream(stream).groups;
+    if (groups.has(group)) throw new Error('BUSYGROUP Consumer Group name already exists');
+    groups.set(group, { lastDelivered: '0-0', pending: new Map() });
+    return 'OK';
+  }
+
+  private add(key: string, fields: string[]): string {
+    if (!this.streams.has(key)) {
+      this.streams.set(key, { entries: new Map(), groups: new Map(), lastId: '0-0' });
+    }
+    const stream = this.stream(key);
+
+    const [lastMs = 0, lastSeq = 0] = stream.lastId.split('-').map(Number);
+    const now = Date.now();
+    const id = now > lastMs ? `${now}-0` : `${lastMs}-${lastSeq + 1}`;
+    stream.entries.set(id, fields);
+    stream.lastId = id;
+
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(wake => wake());
+    return id;
+  }
+
+  // XREADGROUP GROUP group consumer [COUNT n] [BLOCK ms] STREAMS key >
+  private async readGroup(args: string[]): Promise<unknown> {
+    const option = (name: string) => {
+      const index = args.indexOf(name);
+      return index >= 0 ? Number(args[index + 1]) : undefined;
+    };
+    const [, group = '', consumer = ''] = args;
+    const key = args[args.indexOf('STREAMS') + 1] ?? '';
+    const count = option('COUNT') ?? Infinity;
+    const block = option('BLOCK');
+
+    let entries = this.undelivered(key, group, count);
+    if (entries.length === 0 && block !== undefined) {
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, block || 2 ** 31 - 1);
+        this.waiters.push(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+      entries = this.undelivered(key, group, count);
+    }
+    if (entries.length === 0) return null;
+
+    const consumerGroup = this.group(key, group);
+    entries.forEach(([id]) => {
+      consumerGroup.pending.set(id, { consumer, deliveredAt: Date.now(), deliveries: 1 });
+      consumerGroup.lastDelivered = id;
+    });
+    return [[key, entries]];
+  }
+
+  // XAUTOCLAIM key group consumer min-idle start [COUNT n]
+  private autoClaim(
+    key: string,
+    [group = '', consumer = '', minIdle, start = '0-0', , count]: string[],
+  ) {
+    const now = Date.now();
+    const claimed: Array<[string, string[]] | null> = [];
+
+    for (const [id, entry] of this.group(key, group).pending) {
+      if (claimed.length >= Number(count ?? 100)) break;
+      if (compareIds(id, start) < 0 || now - entry.deliveredAt < Number(minIdle)) continue;
+
+      Object.assign(entry, { consumer, deliveredAt: now, deliveries: entry.deliveries + 1 });
+      const fields = this.stream(key).entries.get(id);
+      claimed.push(fields ? [id, fields] : null);
+    }
+    return ['0-0', claimed, []];
+  }
+
+  // XPENDING key group start end count [consumer]
+  private pendingRange(
+    key: string,
+    [group = '', start = '-', end = '+', count, consumer]: string[],
+  ) {
+    const now = Date.now();
+    return [...this.group(key, group).pending]
+      .filter(
+        ([id, entry]) =>
+          (start === '-' || compareIds(id, start) >= 0) &&
+          (end === '+' || compareIds(id, end) <= 0) &&
+          (!consumer || entry.consumer === consumer),
+      )
+      .slice(0, Number(count))
+      .map(([id, entry]) => [id, entry.consumer, now - entry.deliveredAt, entry.deliveries]);
+  }
+
+  // XCLAIM key group consumer min-idle id... [IDLE ms] [RETRYCOUNT n] [JUSTID]
+  private claim(key: string, [group = '', consumer = '', , ...rest]: string[]) {
+    const option = (name: string) => {
+      const index = rest.indexOf(name);
+      return index >= 0 ? Number(rest[index + 1]) : undefined;
+    };
+    const idle = option('IDLE') ?? 0;
+    const retryCount = option('RETRYCOUNT');
+    const firstOption = rest.findIndex(value => !/^\d+-\d+$/.test(value));
+    const ids = firstOption < 0 ? rest : rest.slice(0, firstOption);
+
+    const pending = this.group(key, group).pending;
+    return ids.filter(id => {
+      const entry = pending.get(id);
+      if (!entry) return false;
+      Object.assign(entry, { consumer, deliveredAt: Date.now() - idle });
+      if (retryCount !== undefined) entry.deliveries = retryCount;
+      return true;
+    });
+  }
+
+  private undelivered(key: string, group: string, count: number): Array<[string, string[]]> {
+    const { lastDelivered } = this.group(key, group);
+    return [...this.stream(key).entries]
+      .filter(([id]) => compareIds(id, lastDelivered) > 0)
+      .slice(0, count);
+  }
+
+  private stream(key: string): Stream {
+    const stream = this.streams.get(key);
+    if (!stream) throw new Error(`ERR no such key '${key}'`);
+    return stream;
+  }
+
+  private group(key: string, group: string): ConsumerGroup {
+    const consumerGroup = this.stream(key).groups.get(group);
+    if (!consumerGroup) throw new Error(`NOGROUP No such consumer group '${group}'`);
+    return consumerGroup;
+  }
+}
@@ -0,0 +1,64 @@
+import { TrackingEvent } from '@data-snack/core';
+import { createMemoryRepositories } from '@data-snack/database';
+import { gzipSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { IngestionPipeline } from './IngestionPipeline';
+import { RouteHandlerOptions, createRouteHandler } from './NextAdapter';
+import { ServerTracker } from './ServerTracker';
+
+const createHandler = (options?: RouteHandlerOptions) => {
+  const repositories = createMemoryRepositories();
+  const tracker = new ServerTracker({ enableGTMServer: false, repositories });
+  return { handler: createRouteHandler(new IngestionPipeline({ tracker }), options), repositories };
+};
+
+const batch = () =>
+  JSON.stringify({
+    events: [TrackingEvent.create('click', 'click').withSession('session-1').toJSON()],
+    sentAt: new Date().toISOString(),
+  });
+
+const post = (body: BodyInit, headers: Record<string, string> = {}) =>
+  new Request('https://example.com/api/track', {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/plain', ...headers },
+    body,
+  });
+
+describe('createRouteHandler', () => {
+  it('stores gzip compressed batches', async () => {
+    const { handler, repositories } = createHandler();
+    const response = await handler(post(gzipSync(batch()), { 'Content-Encoding': 'gzip' }));
+
+    expect(response.status).toBe(200);
+    expect(await repositories.events.findBySession('session-1')).toHaveLength(1);
+  });
+
+  it('rejects a body that inflates beyond the limit with 413', async () => {
+    const { handler } = createHandler({ maxBodyBytes: 64 * 1024 });
+    // About 10 KB on the wire, 10 MB inflated
+    const bomb = gzipSync(Buffer.alloc(10 * 1024 * 1024, ' '));
+    expect(bomb.byteLength).toBeLessThan(64 * 1024);
+
+    const response = await handler(post(bomb, { 'Content-Encoding': 'gzip' }));
+    expect(response.status).toBe(413);
+    expect(await response.json()).toEqual({ error: 'Request body exceeds 65536 bytes' });
+  });
+
+  it('rejects an unsupported Content-Encoding with 415', async () => {
+    const { handler } = createHandler();
+    const response = await handler(post(batch(), { 'Content-Encoding': 'br' }));
+
+    expect(response.status).toBe(415);
+    expect(await response.json()).toEqual({ error: 'Unsupported Content-Encoding: br' });
+  });
+
+  it('rejects a corrupt gzip body with 400', async () => {
+    const { handler } = createHandler();
+    const corrupt = gzipSync(batch()).subarray(0, 20);
+
+    const response = await handler(post(corrupt, { 'Content-Encoding': 'gzip' }));
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Malformed gzip request body' });
+  });
+});
@@ -0,0 +1,54 @@
+import { IngestionPipeline, IngestionResponse } from './IngestionPipeline';
+import { DEFAULT_MAX_BODY_BYTES, RequestBodyError, decodeRequestBody } from './RequestBody';
+
+export interface RouteHandlerOptions {
+  // Upper bound for the decompressed body
+  maxBodyBytes?: number;
+  // Added to every response, e.g. CORS headers
+  headers?: Record<string, string>;
+  // Accept one event without the batch envelope
+  single?: boolean;
+}
+
+// Next.js route handler (App Router) for the pipeline, also usable with any
+// Fetch API server. sendBeacon posts the batch as text/plain, the SDK may
+// gzip/deflate larger batches.
+export function createRouteHandler(
+  pipeline: IngestionPipeline,
+  { maxBodyBytes = DEFAULT_MAX_BODY_BYTES, headers = {}, single = false }: RouteHandlerOptions = {},
+): (request: Request) => Promise<Response> {
+  const respond = (response: IngestionResponse): Response => {
+    const init = {
+      status: response.status,
+      headers: {
+        ...headers,
+        ...response.headers,
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      },
+    };
+    return response.body === undefined
+      ? new Response(null, init)
+      : Response.json(response.body, init);
+  };
+
+  return async request => {
+    const receivedAt = new Date();
+
+    let body: unknown;
+    try {
+      const encoding = request.headers.get('content-encoding');
+      body = JSON.parse(await decodeRequestBody(request.body, encoding, maxBodyBytes));
+    } catch (error) {
+      if (error instanceof RequestBodyError) {
+        return respond({ status: error.status, body: { error: error.message } });
+      }
+      if (error instanceof SyntaxError) {
+        return respond({ status: 400, body: { error: 'Invalid JSON body' } });
+      }
+      throw error;
+    }
+
+    const ingestion = { body, headers: request.headers, receivedAt };
+    return respond(await (single ? pipeline.ingestOne(ingestion) : pipeline.ingest(ingestion)));
+  };
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { piiScrubbingFromEnv } from './PiiScrubbing';
+
+describe('piiScrubbingFromEnv', () => {
+  it('redacts by default and can be turned off', () => {
+    expect(piiScrubbingFromEnv({})).toMatchObject({ mode: 'redact' });
+    expect(piiScrubbingFromEnv({ PII_SCRUBBING: 'off' })).toBe(false);
+  });
+
+  it('refuses hash mode without a salt', () => {
+    expect(() => piiScrubbingFromEnv({ PII_SCRUBBING: 'hash' })).toThrow('PII_HASH_SALT');
+    expect(() => piiScrubbingFromEnv({ PII_SCRUBBING: 'hash', PII_HASH_SALT: '' })).toThrow();
+    expect(piiScrubbingFromEnv({ PII_SCRUBBING: 'hash', PII_HASH_SALT: 'secret' })).toMatchObject({
+      mode: 'hash',
+      salt: 'secret',
+    });
+  });
+
+  it('reads the field lists', () => {
+    expect(
+      piiScrubbingFromEnv({ PII_ALLOW_FIELDS: 'order_id, ticket_id', PII_DENY_FIELDS: 'email,' }),
+    ).toMatchObject({ allowFields: ['order_id', 'ticket_id'], denyFields: ['email'] });
+  });
+});
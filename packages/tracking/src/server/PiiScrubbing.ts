@@ -0,0 +1,26 @@
+import type { PiiScrubberConfig } from '@data-snack/core';
+
+// PII_SCRUBBING ('redact', 'hash' or 'off'), redact when unset. Hashes are
+// salted with PII_HASH_SALT, which hash mode won't run without.
+// PII_ALLOW_FIELDS and PII_DENY_FIELDS are comma separated property names,
+// the deny list replacing the default one.
+export function piiScrubbingFromEnv(
+  env: Record<string, string | undefined> = process.env,
+): PiiScrubberConfig | false {
+  if (env.PII_SCRUBBING === 'off') return false;
+  if (env.PII_SCRUBBING === 'hash' && !env.PII_HASH_SALT) {
+    throw new Error('PII_SCRUBBING=hash needs PII_HASH_SALT, unsalted hashes are reversible');
+  }
+
+  const list = (value?: string) =>
+    value
+      ?.split(',')
+      .map(field => field.trim())
+      .filter(Boolean);
+  return {
+    mode: env.PII_SCRUBBING === 'hash' ? 'hash' : 'redact',
+    salt: env.PII_HASH_SALT,
+    allowFields: list(env.PII_ALLOW_FIELDS),
+    denyFields: list(env.PII_DENY_FIELDS),
+  };
+}
@@ -0,0 +1,67 @@
+import {
+  ConsentCategory,
+  DEFAULT_PRIVACY_SIGNAL_POLICY,
+  GrantedConsent,
+  PrivacySignalPolicy,
+  PrivacySignals,
+  applyPrivacySignals,
+  honoredPrivacySignal,
+} from '@data-snack/core';
+
+// A Fetch `Headers` object or Node's incoming headers
+export type HeaderSource =
+  | { get(name: string): string | null }
+  | Record<string, string | string[] | undefined>;
+
+// name is lower case, as Node keys incoming headers
+export function readHeader(headers: HeaderSource, name: string): string | undefined {
+  if (typeof headers.get === 'function') {
+    return (headers as { get(name: string): string | null }).get(name) ?? undefined;
+  }
+  const value = (headers as Record<string, string | string[] | undefined>)[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// Sec-GPC (Global Privacy Control) and DNT request headers
+export function readPrivacySignals(headers: HeaderSource): PrivacySignals {
+  return {
+    gpc: readHeader(headers, 'sec-gpc')?.trim() === '1',
+    dnt: readHeader(headers, 'dnt')?.trim() === '1',
+  };
+}
+
+// PRIVACY_SIGNALS_DENY=marketing,personalization, HONOR_GPC=false, HONOR_DNT=true
+export function privacySignalPolicyFromEnv(
+  env: Record<string, string | undefined> = process.env,
+): PrivacySignalPolicy {
+  const deny = env.PRIVACY_SIGNALS_DENY?.split(',')
+    .map(category => category.trim())
+    .filter(
+      (category): category is PrivacySignalPolicy['deny'][number] =>
+        ConsentCategory.safeParse(category).success && category !== 'necessary',
+    );
+
+  return {
+    honorGpc: env.HONOR_GPC ? env.HONOR_GPC === 'true' : DEFAULT_PRIVACY_SIGNAL_POLICY.honorGpc,
+    honorDnt: env.HONOR_DNT ? env.HONOR_DNT === 'true' : DEFAULT_PRIVACY_SIGNAL_POLICY.honorDnt,
+    deny: deny?.length ? deny : DEFAULT_PRIVACY_SIGNAL_POLICY.deny,
+  };
+}
+
+// Consent declared with a request, narrowed by the request's privacy signal.
+// Without a declaration only the signal's denials apply.
+export function narrowDeclaredConsent(
+  declared: GrantedConsent | undefined,
+  signals: PrivacySignals,
+  policy: PrivacySignalPolicy = DEFAULT_PRIVACY_SIGNAL_POLICY,
+): GrantedConsent | undefined {
+  if (!honoredPrivacySignal(signals, policy)) return declared;
+
+  const base = declared ?? {
+    necessary: true,
+    analytics: true,
+    marketing: true,
+    personalization: true,
+  };
+  return applyPrivacySignals(base, signals, policy).consent;
+}
@@ -0,0 +1,189 @@
+import { IngestionJob, IngestionQueue, JobRelease, QueuedJob } from './IngestionQueue';
+
+// The one method the queue needs from a Redis client. ioredis' call() has
+// this shape, node-redis' sendCommand can be wrapped to it.
+export interface RedisCommandClient {
+  call(command: string, ...args: Array<string | number>): Promise<unknown>;
+}
+
+export interface RedisStreamQueueConfig {
+  stream?: string;
+  group?: string;
+  // Unique per worker process (default a random name)
+  consumer?: string;
+  // Entries held at most, waiting and in flight together (default 100 000)
+  maxLength?: number;
+  // How long a received job may stay unacknowledged before another worker
+  // takes it over (default 60s). Release delays longer than this are cut to it.
+  leaseMs?: number;
+}
+
+type RawEntry = [string, string[]] | null;
+
+// Redis Streams with a consumer group, so several workers can share the
+// queue. Jobs a worker received but never acknowledged are claimed by the
+// next worker to poll once their lease runs out. Needs Redis 6.2 or later.
+export class RedisStreamIngestionQueue implements IngestionQueue {
+  private readonly stream: string;
+  private readonly group: string;
+  private readonly consumer: string;
+  private readonly maxLength: number;
+  private readonly leaseMs: number;
+  private groupReady: Promise<void> | null = null;
+
+  constructor(
+    private readonly client: RedisCommandClient,
+    {
+      stream = 'data-snack:ingestion',
+      group = 'ingestion-workers',
+      consumer = `worker-${crypto.randomUUID()}`,
+      maxLength = 100_000,
+      leaseMs = 60_000,
+    }: RedisStreamQueueConfig = {},
+  ) {
+    this.stream = stream;
+    this.group = group;
+    this.consumer = consumer;
+    this.maxLength = maxLength;
+    this.leaseMs = leaseMs;
+  }
+
+  async enqueue(job: IngestionJob): Promise<boolean> {
+    await this.ensureGroup();
+    if ((await this.size()) >= this.maxLength) return false;
+
+    await this.client.call('XADD', this.stream, '*', 'job', JSON.stringify(job));
+    return true;
+  }
+
+  async receive(max: number, waitMs = 0): Promise<QueuedJob[]> {
+    await this.ensureGroup();
+
+    const [, claimedEntries] = (await this.client.call(
+      'XAUTOCLAIM',
+      this.stream,
+      this.group,
+      this.consumer,
+      this.leaseMs,
+      '0-0',
+      'COUNT',
+      max,
+    )) as [string, RawEntry[]];
+    const claimed = await this.toJobs(claimedEntries, await this.deliveries(claimedEntries));
+    if (claimed.length >= max) return claimed;
+
+    const reply = (await this.client.call(
+      'XREADGROUP',
+      'GROUP',
+      this.group,
+      this.consumer,
+      'COUNT',
+      max - claimed.length,
+      ...(waitMs > 0 && claimed.length === 0 ? ['BLOCK', waitMs] : []),
+      'STREAMS',
+      this.stream,
+      '>',
+    )) as Array<[string, RawEntry[]]> | null;
+    const fresh = await this.toJobs(reply?.[0]?.[1] ?? [], new Map());
+
+    return [...claimed, ...fresh];
+  }
+
+  // Acknowledged entries are deleted, so the stream only holds open jobs
+  async ack(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.client.call('XACK', this.stream, this.group, ...ids);
+    await this.client.call('XDEL', this.stream, ...ids);
+  }
+
+  // Backdates the jobs' idle time, so a poll claims them once the delay is
+  // over. Uncounted attempts set the delivery count back by one.
+  async release(jobs: JobRelease[]): Promise<void> {
+    const claims = new Map<string, string[]>();
+    jobs.forEach(({ id, attempts, delayMs = 0, countAttempt = true }) => {
+      const idle = Math.max(0, this.leaseMs - delayMs);
+      const key = `${idle}:${countAttempt ? attempts : Math.max(0, attempts - 1)}`;
+      claims.set(key, [...(claims.get(key) ?? []), id]);
+    });
+
+    for (const [key, ids] of claims) {
+      const [idle = 0, retryCount = 0] = key.split(':').map(Number);
+      await this.client.call(
+        'XCLAIM',
+        this.stream,
+        this.group,
+        this.consumer,
+        0,
+        ...ids,
+        'IDLE',
+        idle,
+        'RETRYCOUNT',
+        retryCount,
+        'JUSTID',
+      );
+    }
+  }
+
+  async size(): Promise<number> {
+    return Number(await this.client.call('XLEN', this.stream));
+  }
+
+  // The client belongs to the caller, who closes it
+  async close(): Promise<void> {}
+
+  private ensureGroup(): Promise<void> {
+    this.groupReady ??= this.client
+      .call('XGROUP', 'CREATE', this.stream, this.group, '0', 'MKSTREAM')
+      .then(
+        () => undefined,
+        error => {
+          if (!String((error as Error).message).includes('BUSYGROUP')) {
+            this.groupReady = null;
+            throw error;
+          }
+        },
+      );
+    return this.groupReady;
+  }
+
+  // Delivery counts of claimed entries, they were handed out before
+  private async deliveries(entries: RawEntry[]): Promise<Map<string, number>> {
+    const ids = entries.flatMap(entry => (entry ? [entry[0]] : []));
+    if (ids.length === 0) return new Map();
+
+    const pending = (await this.client.call(
+      'XPENDING',
+      this.stream,
+      this.group,
+      ids[0] as string,
+      ids[ids.length - 1] as string,
+      ids.length,
+      this.consumer,
+    )) as Array<[string, string, number, number]>;
+    return new Map(pending.map(([id, , , count]) => [id, Number(count)]));
+  }
+
+  // Entries deleted meanwhile, or not holding a job, are acknowledged away
+  private async toJobs(entries: RawEntry[], deliveries: Map<string, number>): Promise<QueuedJob[]> {
+    const jobs: QueuedJob[] = [];
+    const unreadable: string[] = [];
+
+    entries.forEach(entry => {
+      if (!entry) return;
+      const [id, fields] = entry;
+      const field = fields.indexOf('job');
+      const payload = field >= 0 ? fields[field + 1] : undefined;
+
+      try {
+        if (!payload) throw new Error('no job field');
+        jobs.push({ id, job: JSON.parse(payload), attempts: deliveries.get(id) ?? 1 });
+      } catch (error) {
+        console.error(`[RedisStreamQueue] Dropping unreadable entry ${id}:`, error);
+        unreadable.push(id);
+      }
+    });
+
+    await this.ack(unreadable);
+    return jobs;
+  }
+}
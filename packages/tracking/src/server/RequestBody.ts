@@ -0,0 +1,79 @@
+export const DEFAULT_MAX_BODY_BYTES = 1024 * 1024; // 1 MB
+
+const SUPPORTED_ENCODINGS = ['identity', 'gzip', 'deflate'] as const;
+type ContentEncoding = (typeof SUPPORTED_ENCODINGS)[number];
+
+export class RequestBodyError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+    this.name = 'RequestBodyError';
+  }
+}
+
+type EncodedBody = ReadableStream<Uint8Array> | Uint8Array | string | null | undefined;
+
+// Decode a (possibly gzip/deflate compressed) request body to text.
+// The decompressed size is checked while streaming so a zip bomb is
+// rejected before it is inflated in memory.
+export async function decodeRequestBody(
+  body: EncodedBody,
+  contentEncoding: string | string[] | null | undefined,
+  maxBytes: number = DEFAULT_MAX_BODY_BYTES,
+): Promise<string> {
+  const encoding = parseContentEncoding(contentEncoding);
+  if (!body) return '';
+
+  let stream: ReadableStream<Uint8Array> =
+    typeof body === 'string' || body instanceof Uint8Array
+      ? new Blob([typeof body === 'string' ? body : Uint8Array.from(body)]).stream()
+      : body;
+  if (encoding !== 'identity') {
+    stream = stream.pipeThrough(
+      new DecompressionStream(encoding) as ReadableWritablePair<Uint8Array, Uint8Array>,
+    );
+  }
+
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      total += value.byteLength;
+      if (total > maxBytes) {
+        await reader.cancel();
+        throw new RequestBodyError(`Request body exceeds ${maxBytes} bytes`, 413);
+      }
+      chunks.push(value);
+    }
+  } catch (error) {
+    if (error instanceof RequestBodyError) throw error;
+    throw new RequestBodyError(`Malformed ${encoding} request body`, 400);
+  }
+
+  const decoded = new Uint8Array(total);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    decoded.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+
+  return new TextDecoder().decode(decoded);
+}
+
+function parseContentEncoding(header: string | string[] | null | undefined): ContentEncoding {
+  const value = (Array.isArray(header) ? header.join(',') : header || 'identity').trim().toLowerCase();
+  const encoding = value === 'x-gzip' ? 'gzip' : value || 'identity';
+
+  if (!SUPPORTED_ENCODINGS.includes(encoding as ContentEncoding)) {
+    throw new RequestBodyError(`Unsupported Content-Encoding: ${value}`, 415);
+  }
+
+  return encoding as ContentEncoding;
+}
@@ -0,0 +1,92 @@
+import { EventSchemaRegistry, eventSchemas } from '@data-snack/core';
+import type { InsertQuarantinedEvent } from '@data-snack/database';
+import { ConsentDecision } from './ConsentEnforcer';
+
+// 'strict' quarantines events whose properties don't match their schema,
+// 'warn' stores them all the same. Both count them in the invalid metric.
+export type SchemaValidationMode = 'strict' | 'warn';
+
+export interface SchemaValidationConfig {
+  // Default 'warn'
+  mode?: SchemaValidationMode;
+  // Default the shared registry of built-in event schemas
+  registry?: EventSchemaRegistry;
+  // Logs each mismatch, default false
+  debug?: boolean;
+}
+
+export interface SchemaCheck {
+  decisions: ConsentDecision[];
+  // Events held back in strict mode, to be stored in quarantined_events
+  quarantined: InsertQuarantinedEvent[];
+  invalid: number;
+}
+
+// SCHEMA_VALIDATION ('strict', 'warn' or 'off'), warn when unset
+export function schemaValidationFromEnv(
+  env: Record<string, string | undefined> = process.env,
+): SchemaValidationConfig | false {
+  if (env.SCHEMA_VALIDATION === 'off') return false;
+  return { mode: env.SCHEMA_VALIDATION === 'strict' ? 'strict' : 'warn' };
+}
+
+// Checks the properties of the events that passed the consent check against
+// the version of their schema they were written for
+export class SchemaEnforcer {
+  private readonly mode: SchemaValidationMode;
+  private readonly registry: EventSchemaRegistry;
+  private readonly debug: boolean;
+
+  constructor({
+    mode = 'warn',
+    registry = eventSchemas,
+    debug = false,
+  }: SchemaValidationConfig = {}) {
+    this.mode = mode;
+    this.registry = registry;
+    this.debug = debug;
+  }
+
+  check(decisions: ConsentDecision[]): SchemaCheck {
+    const quarantined: InsertQuarantinedEvent[] = [];
+    let invalid = 0;
+
+    const checked = decisions.map((decision): ConsentDecision => {
+      if (decision.status === 'rejected') return decision;
+
+      const validation = this.registry.validate(decision.event);
+      // Stored events name the schema version they matched
+      const event =
+        validation.version && !decision.event.context.schemaVersion
+          ? decision.event.withContext({ schemaVersion: validation.version })
+          : decision.event;
+      if (validation.valid) return { ...decision, event };
+
+      invalid++;
+      if (this.debug) {
+        const issues = validation.issues.map(
+          issue => `${issue.path || '(root)'}: ${issue.message}`,
+        );
+        console.warn(
+          `[SchemaEnforcer] ${event.type} event ${event.id} doesn't match schema v${validation.version}: ${issues.join('; ')}`,
+        );
+      }
+      if (this.mode === 'warn') return { ...decision, event };
+
+      // Identifiers the consent doesn't allow stay out of the quarantine too
+      const held = decision.status === 'anonymized' ? event.anonymize() : event;
+      quarantined.push({
+        id: held.id,
+        session_id: held.sessionId,
+        event_type: held.type,
+        event_name: held.name,
+        schema_version: validation.version,
+        payload: { ...held.toJSON() },
+        issues: validation.issues.map(issue => ({ ...issue })),
+      });
+      return { ...decision, event, status: 'rejected', reason: 'invalid_properties' };
+    });
+
+    return { decisions: checked, quarantined, invalid };
+  }
+}
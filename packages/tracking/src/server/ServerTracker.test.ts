@@ -0,0 +1,71 @@
+import { DEFAULT_PRIVACY_SIGNAL_POLICY, TrackingEvent } from '@data-snack/core';
+import { createMemoryRepositories } from '@data-snack/database';
+import { describe, expect, it } from 'vitest';
+import { ServerTracker } from './ServerTracker';
+
+describe('ServerTracker.createAnonymousEvent', () => {
+  const request = new Request('https://data-snack.com/', {
+    headers: { 'x-forwarded-for': '198.51.100.23, 203.0.113.7' },
+  });
+
+  it('takes the client address from behind the trusted proxies', () => {
+    const event = ServerTracker.createAnonymousEvent(
+      'page_view',
+      'server_page_view',
+      {},
+      request,
+      DEFAULT_PRIVACY_SIGNAL_POLICY,
+      { trustedProxies: ['private'], remoteAddress: '10.0.0.2' },
+    );
+    expect(event.context.ipSubnet).toBe('203.0.113.0');
+  });
+
+  it("doesn't believe forwarded addresses from a peer that isn't a trusted proxy", () => {
+    const event = ServerTracker.createAnonymousEvent(
+      'page_view',
+      'server_page_view',
+      {},
+      request,
+      DEFAULT_PRIVACY_SIGNAL_POLICY,
+      { trustedProxies: ['private'], remoteAddress: '192.0.2.50' },
+    );
+    expect(event.context.ipSubnet).toBe('192.0.2.0');
+  });
+
+  it('stores the privacy signal the event was anonymized for', async () => {
+    const repositories = createMemoryRepositories();
+    const tracker = new ServerTracker({ enableGTMServer: false, repositories });
+    const event = ServerTracker.createAnonymousEvent(
+      'page_view',
+      'server_page_view',
+      {},
+      new Request('https://data-snack.com/', {
+        headers: { 'sec-gpc': '1', 'x-forwarded-for': '203.0.113.7' },
+      }),
+    );
+    await tracker.track(event);
+
+    const [stored] = await repositories.events.findBySession(event.sessionId);
+    expect(stored?.context.privacySignal).toBe('gpc');
+    expect(stored?.context.ipSubnet).toBeUndefined();
+  });
+});
+
+describe('ServerTracker.trackBatch', () => {
+  const batch = () =>
+    ['click', 'page_view'].map(type => TrackingEvent.create(type, type).withSession('session-1'));
+
+  it.each([
+    ['to the same instance', {}],
+    // As after the window expired, or to another instance
+    ['with only the database to catch it', false as const],
+  ])('stores a batch replayed %s once', async (_, deduplication) => {
+    const repositories = createMemoryRepositories();
+    const tracker = new ServerTracker({ enableGTMServer: false, repositories, deduplication });
+    const events = batch();
+
+    expect(await tracker.trackBatch(events)).toMatchObject({ accepted: 2, duplicate: 0 });
+    expect(await tracker.trackBatch(events)).toMatchObject({ accepted: 0, duplicate: 2 });
+    expect(await repositories.events.findBySession('session-1')).toHaveLength(2);
+  });
+});
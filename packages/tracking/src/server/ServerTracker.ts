@@ -1,5 +1,42 @@
-import { TrackingEvent } from '@data-snack/core';
-import { createServerDatabaseClient } from '@data-snack/database';
+import {
+  DEFAULT_PRIVACY_SIGNAL_POLICY,
+  EventContext,
+  EventEnricher,
+  GrantedConsent,
+  PiiScrubber,
+  PiiScrubberConfig,
+  PrivacySignalPolicy,
+  TrackingEvent,
+  eventRegistry,
+  honoredPrivacySignal,
+  parseUserAgent,
+} from '@data-snack/core';
+import {
+  BulkInsertResult,
+  ConflictError,
+  NotFoundError,
+  Repositories,
+  createRepositories,
+} from '@data-snack/database';
+import {
+  ConsentDecision,
+  ConsentEnforcementMode,
+  ConsentEnforcer,
+  ConsentSource,
+  IngestionOutcome,
+  IngestionSummary,
+  summarizeDecisions,
+} from './ConsentEnforcer';
+import { ConsentLedger } from './ConsentLedger';
+import { DeduplicationConfig, EventDeduplicator } from './EventDeduplicator';
+import { BatchTiming, EventClock, EventClockConfig } from './EventClock';
+import { IngestionPipeline } from './IngestionPipeline';
+import { forEachLimited } from './forEachLimited';
+import { geoFromHeaders } from './GeoIp';
+import { ClientIpOptions, anonymizeIp, clientIpFromHeaders } from './IpAddress';
+import { createRouteHandler } from './NextAdapter';
+import { readPrivacySignals } from './PrivacySignals';
+import { SchemaEnforcer, SchemaValidationConfig } from './SchemaEnforcer';
 
 type EventType = TrackingEvent['type'];
 
@@ -8,11 +45,76 @@ export interface ServerTrackingConfig {
   enableDatabase?: boolean;
   enableAnalytics?: boolean;
   debug?: boolean;
+  // Check batches against the consent stored server-side
+  consentEnforcement?: ConsentEnforcementMode | false;
+  consentSource?: ConsentSource;
+  // Storage, defaults to createRepositories() (Supabase, or memory without it)
+  repositories?: Repositories;
+  // Concurrent GTM Server requests per batch (default 4)
+  gtmConcurrency?: number;
+  // In-memory window of recently stored event ids, false to rely on storage alone
+  deduplication?: DeduplicationConfig | false;
+  // Clock skew correction and the accepted event time window, false to store
+  // timestamps as sent
+  clock?: EventClockConfig | false;
+  // Run in order on every event that passed the consent check, before
+  // anonymization
+  enrichers?: EventEnricher[];
+  // Property schema checks, warn-only by default, false to skip them
+  schemaValidation?: SchemaValidationConfig | false;
+  // Personal data in properties and URLs, redacted by default, false to
+  // store events as sent
+  scrubbing?: PiiScrubberConfig | false;
+  // Proxies in front of the server (TRUSTED_PROXIES), for the client address
+  // of anonymous server-side events
+  trustedProxies?: string[];
+}
+
+// Totals since the tracker was created
+export interface IngestionMetrics {
+  batches: number;
+  events: number;
+  accepted: number;
+  anonymized: number;
+  rejected: number;
+  duplicate: number;
+  failed: number;
+  // Batches whose timestamps were corrected for clock skew
+  skewedBatches: number;
+  // Events outside the time window, rejected or flagged
+  outOfWindow: number;
+  // Events whose properties didn't match their schema, and those of them
+  // held in quarantine (strict mode)
+  invalid: number;
+  quarantined: number;
+  // Events that had personal data scrubbed before storage
+  scrubbed: number;
+  // Ids currently held by the deduplication window
+  recentIds: number;
 }
 
 export class ServerTracker {
   private config: ServerTrackingConfig;
-  protected db: any;
+  protected repositories: Repositories | null = null;
+  private consentEnforcer: ConsentEnforcer | null = null;
+  private deduplicator: EventDeduplicator | null = null;
+  private clock: EventClock | null = null;
+  private schemaEnforcer: SchemaEnforcer | null = null;
+  private scrubber: PiiScrubber | null = null;
+  private metrics: Omit<IngestionMetrics, 'recentIds'> = {
+    batches: 0,
+    events: 0,
+    accepted: 0,
+    anonymized: 0,
+    rejected: 0,
+    duplicate: 0,
+    failed: 0,
+    skewedBatches: 0,
+    outOfWindow: 0,
+    invalid: 0,
+    quarantined: 0,
+    scrubbed: 0,
+  };
 
   constructor(config: ServerTrackingConfig = {}) {
     this.config = {
@@ -20,32 +122,90 @@ export class ServerTracker {
       enableDatabase: true,
       enableAnalytics: true,
       debug: false,
+      consentEnforcement: false,
       ...config,
     };
 
     if (this.config.enableDatabase) {
-      this.db = createServerDatabaseClient();
+      this.repositories = this.config.repositories || createRepositories();
+    }
+
+    if (this.config.deduplication !== false) {
+      this.deduplicator = new EventDeduplicator(this.config.deduplication);
+    }
+
+    if (this.config.clock !== false) {
+      this.clock = new EventClock(this.config.clock);
+    }
+
+    if (this.config.scrubbing !== false) {
+      this.scrubber = new PiiScrubber(this.config.scrubbing);
+    }
+
+    if (this.config.schemaValidation !== false) {
+      this.schemaEnforcer = new SchemaEnforcer({
+        debug: this.config.debug,
+        ...this.config.schemaValidation,
+      });
     }
+
+    if (this.config.consentEnforcement) {
+      this.consentEnforcer = new ConsentEnforcer(
+        this.config.consentSource || new ConsentLedger(this.repositories),
+        this.config.consentEnforcement,
+      );
+    }
+  }
+
+  // Consent, when known, is checked against the shared event registry
+  async track(
+    tracked: TrackingEvent,
+    consent?: GrantedConsent,
+    timing: BatchTiming = { receivedAt: new Date() },
+  ): Promise<void> {
+    if (consent && !eventRegistry.isAllowed(tracked.type, consent)) {
+      if (this.config.debug) {
+        console.warn(`[ServerTracker] Event blocked by consent: ${tracked.type}`);
+      }
+      this.metrics.events++;
+      this.metrics.rejected++;
+      return;
+    }
+
+    const [checked] = await this.validate(
+      this.scrub(this.applyClock([{ event: tracked, status: 'accepted' }], timing)),
+    );
+    const { event: timed, status } = checked as ConsentDecision;
+    if (status === 'rejected') {
+      this.metrics.events++;
+      this.metrics.rejected++;
+      return;
+    }
+    const event = await this.enrich(timed, consent);
+
+    // A retried event is dropped quietly, like in a batch
+    const stored = !this.deduplicator?.has(event.id) && (await this.process(event, consent));
+    this.metrics.events++;
+    this.metrics[stored ? 'accepted' : 'duplicate']++;
+    this.deduplicator?.remember([event.id]);
   }
 
-  async track(event: TrackingEvent): Promise<void> {
+  // Resolves to false when the event was stored before
+  private async process(event: TrackingEvent, consent?: GrantedConsent): Promise<boolean> {
     try {
       // Add server timestamp
       const serverEvent = event.withServerTimestamp();
 
-      // Store in database
-      if (this.config.enableDatabase && this.db) {
-        await this.db.from('events').insert({
-          time: serverEvent.timestamp.toISOString(),
-          user_id: serverEvent.userId,
-          session_id: serverEvent.sessionId,
-          event_type: serverEvent.type,
-          event_name: serverEvent.name,
-          properties: serverEvent.properties,
-          context: serverEvent.context,
-          server_timestamp: new Date().toISOString(),
-          is_anonymous: !serverEvent.userId,
-        });
+      // Store in database, a repeated id is a ConflictError
+      if (this.config.enableDatabase && this.repositories) {
+        const created = await this.repositories.events.create(serverEvent, consent ?? null).then(
+          () => true,
+          error => {
+            if (error instanceof ConflictError) return false;
+            throw error;
+          },
+        );
+        if (!created) return false;
       }
 
       // Forward to GTM Server-Side
@@ -56,15 +216,205 @@ export class ServerTracker {
       if (this.config.debug) {
         console.log('[ServerTracker] Event processed:', serverEvent);
       }
+      return true;
     } catch (error) {
       console.error('[ServerTracker] Failed to process event:', error);
       throw error;
     }
   }
 
-  async trackBatch(events: TrackingEvent[]): Promise<void> {
-    const promises = events.map(event => this.track(event));
-    await Promise.all(promises);
+  // Returns what happened to each event. With consent enforcement the
+  // declared consent can only narrow what the server has on record. Event
+  // timestamps are read on the client's clock, sent with the batch timing.
+  async trackBatch(
+    events: TrackingEvent[],
+    consent?: GrantedConsent,
+    timing: BatchTiming = { receivedAt: new Date() },
+  ): Promise<IngestionSummary> {
+    const decisions: ConsentDecision[] = this.consentEnforcer
+      ? await this.consentEnforcer.enforce(events, consent, this.clock?.skew(timing))
+      : events.map(
+          (event): ConsentDecision =>
+            !consent || eventRegistry.isAllowed(event.type, consent)
+              ? { event, status: 'accepted', consent }
+              : { event, status: 'rejected', reason: 'missing_consent', consent },
+        );
+
+    if (this.config.debug) {
+      decisions
+        .filter(decision => decision.status === 'rejected')
+        .forEach(decision =>
+          console.warn(`[ServerTracker] Event blocked by consent: ${decision.event.type}`),
+        );
+    }
+
+    const validated = await this.validate(this.scrub(this.applyClock(decisions, timing)));
+    const enriched = await this.enrichDecisions(validated);
+    const stamped = enriched.map(decision =>
+      decision.status === 'rejected'
+        ? decision
+        : { ...decision, event: decision.event.withServerTimestamp() },
+    );
+    const deduplicated = this.deduplicate(stamped);
+    const outcomes = withStorageOutcome(deduplicated, await this.store(deduplicated));
+
+    this.deduplicator?.remember(
+      outcomes
+        .filter(outcome => isStored(outcome) || outcome.status === 'duplicate')
+        .map(outcome => outcome.event.id),
+    );
+
+    // Retries and refused rows were forwarded before or never stored, so skip them
+    if (this.config.enableGTMServer) {
+      await forEachLimited(outcomes.filter(isStored), this.config.gtmConcurrency ?? 4, outcome =>
+        this.forwardToGTMServer(outcome.event),
+      );
+    }
+
+    const summary = summarizeDecisions(outcomes);
+    this.recordMetrics(summary);
+    if (this.config.debug) {
+      console.log('[ServerTracker] Batch processed:', summary);
+    }
+    return summary;
+  }
+
+  get trustedProxies(): string[] | undefined {
+    return this.config.trustedProxies;
+  }
+
+  // Totals since the tracker was created
+  getMetrics(): IngestionMetrics {
+    return { ...this.metrics, recentIds: this.deduplicator?.size ?? 0 };
+  }
+
+  // Corrects timestamps for the batch's clock skew, events outside the time
+  // window are rejected or flagged
+  private applyClock(decisions: ConsentDecision[], timing: BatchTiming): ConsentDecision[] {
+    const clock = this.clock;
+    if (!clock) return decisions;
+
+    const skewMs = clock.skew(timing);
+    if (skewMs) this.metrics.skewedBatches++;
+
+    return decisions.map((decision): ConsentDecision => {
+      if (decision.status === 'rejected') return decision;
+
+      const { event, flag, rejected } = clock.check(decision.event, skewMs, timing.receivedAt);
+      if (flag) this.metrics.outOfWindow++;
+      if (flag && this.config.debug) {
+        console.warn(`[ServerTracker] Event ${event.id} outside the time window: ${flag}`);
+      }
+      return rejected
+        ? { ...decision, event, status: 'rejected', reason: flag ?? undefined }
+        : { ...decision, event };
+    });
+  }
+
+  // Scrubs personal data before validation, so quarantined payloads don't
+  // hold it either
+  private scrub(decisions: ConsentDecision[]): ConsentDecision[] {
+    const scrubber = this.scrubber;
+    if (!scrubber) return decisions;
+
+    return decisions.map((decision): ConsentDecision => {
+      if (decision.status === 'rejected') return decision;
+
+      const { event, report } = scrubber.scrub(decision.event);
+      if (report.length === 0) return decision;
+
+      this.metrics.scrubbed++;
+      if (this.config.debug) {
+        const scrubbed = report.map(
+          finding => `${finding.path} (${finding.kind}, ${finding.action})`,
+        );
+        console.warn(`[ServerTracker] Scrubbed event ${event.id}: ${scrubbed.join(', ')}`);
+      }
+      return { ...decision, event };
+    });
+  }
+
+  // Checks properties against the event schemas, events quarantined in
+  // strict mode come back rejected
+  private async validate(decisions: ConsentDecision[]): Promise<ConsentDecision[]> {
+    if (!this.schemaEnforcer) return decisions;
+
+    const { decisions: checked, quarantined, invalid } = this.schemaEnforcer.check(decisions);
+    this.metrics.invalid += invalid;
+    if (quarantined.length === 0 || !this.config.enableDatabase || !this.repositories) {
+      return checked;
+    }
+
+    // Losing the quarantine copy must not fail the batch, the events are rejected either way
+    await this.repositories.quarantine.createMany(quarantined).then(
+      () => {
+        this.metrics.quarantined += quarantined.length;
+      },
+      error => console.error('[ServerTracker] Failed to quarantine events:', error),
+    );
+    return checked;
+  }
+
+  // Enriches the events headed for storage, then strips identifiers from
+  // those only allowed anonymously
+  private async enrichDecisions(decisions: ConsentDecision[]): Promise<ConsentDecision[]> {
+    return Promise.all(
+      decisions.map(async (decision): Promise<ConsentDecision> => {
+        if (decision.status === 'rejected') return decision;
+
+        const event = await this.enrich(decision.event, decision.consent);
+        return { ...decision, event: decision.status === 'anonymized' ? event.anonymize() : event };
+      }),
+    );
+  }
+
+  private async enrich(event: TrackingEvent, consent?: GrantedConsent): Promise<TrackingEvent> {
+    let enriched = event;
+    for (const enricher of this.config.enrichers ?? []) {
+      enriched = await enricher.enrich(enriched, consent);
+    }
+    return enriched;
+  }
+
+  // Ids stored recently, or repeated within the batch, never reach storage
+  private deduplicate(decisions: ConsentDecision[]): IngestionOutcome[] {
+    const batchIds = new Set<string>();
+
+    return decisions.map((decision): IngestionOutcome => {
+      if (decision.status === 'rejected') return decision;
+
+      const { id } = decision.event;
+      const duplicate = batchIds.has(id) || Boolean(this.deduplicator?.has(id));
+      batchIds.add(id);
+      return duplicate ? { ...decision, status: 'duplicate' } : decision;
+    });
+  }
+
+  // One idempotent bulk insert per batch, null without a database
+  private async store(outcomes: IngestionOutcome[]): Promise<BulkInsertResult | null> {
+    if (!this.config.enableDatabase || !this.repositories) return null;
+
+    const storable = outcomes.filter(isStored);
+    if (storable.length === 0) return null;
+
+    try {
+      return await this.repositories.events.createMany(
+        storable.map(({ event, consent }) => ({ event, consentState: consent ?? null })),
+      );
+    } catch (error) {
+      console.error('[ServerTracker] Failed to store events:', error);
+      throw error;
+    }
+  }
+
+  private recordMetrics(summary: IngestionSummary): void {
+    this.metrics.batches++;
+    this.metrics.events += summary.results.length;
+    this.metrics.accepted += summary.accepted;
+    this.metrics.anonymized += summary.anonymized;
+    this.metrics.rejected += summary.rejected;
+    this.metrics.duplicate += summary.duplicate;
+    this.metrics.failed += summary.failed;
   }
 
   private async forwardToGTMServer(event: TrackingEvent): Promise<void> {
@@ -88,37 +438,13 @@ export class ServerTracker {
     }
   }
 
-  // Utility methods for Next.js API routes
+  // Utility methods for Next.js API routes, the pipeline's route handler
+  // without a queue or consent history
   static async handleTrackingRequest(
     request: Request,
     tracker: ServerTracker
   ): Promise<Response> {
-    try {
-      const { events } = await request.json();
-      
-      if (!Array.isArray(events)) {
-        return new Response('Invalid request: events must be an array', { 
-          status: 400 
-        });
-      }
-
-      // Convert plain objects to TrackingEvent instances
-      const trackingEvents = events.map(eventData => {
-        return TrackingEvent.create(
-          eventData.type,
-          eventData.name,
-          eventData.properties,
-          eventData.context
-        ).withSession(eventData.sessionId);
-      });
-
-      await tracker.trackBatch(trackingEvents);
-
-      return new Response('OK', { status: 204 });
-    } catch (error) {
-      console.error('[ServerTracker] Request handling failed:', error);
-      return new Response('Internal Server Error', { status: 500 });
-    }
+    return createRouteHandler(new IngestionPipeline({ tracker }))(request);
   }
 
   // Privacy-compliant anonymous tracking
@@ -126,35 +452,40 @@ export class ServerTracker {
     type: EventType,
     name: string,
     properties: Record<string, any> = {},
-    request?: Request
+    request?: Request,
+    privacySignalPolicy: PrivacySignalPolicy = DEFAULT_PRIVACY_SIGNAL_POLICY,
+    // The tracker's trusted proxies and the peer address, without them the
+    // first X-Forwarded-For hop is believed
+    clientIp: ClientIpOptions = {}
   ): TrackingEvent {
-    const context: Record<string, any> = {};
+    const context: Partial<EventContext> = {};
+
+    // With GPC/DNT honoured, keep only the browser family and the signal itself
+    const signal = request
+      ? honoredPrivacySignal(readPrivacySignals(request.headers), privacySignalPolicy)
+      : null;
+    if (signal) {
+      context.privacySignal = signal;
+    }
 
     if (request) {
       // Extract safe, anonymous context
       const userAgent = request.headers.get('user-agent');
       if (userAgent) {
         // Only store browser family, not full UA string
-        context.browserFamily = userAgent.split(' ')[0];
+        context.browser = parseUserAgent(userAgent).browser;
       }
 
-      // Anonymize IP address to /24 subnet
-      const forwarded = request.headers.get('x-forwarded-for');
-      const realIp = request.headers.get('x-real-ip');
-      const ip = forwarded?.split(',')[0] || realIp || 'unknown';
-      
-      if (ip !== 'unknown' && ip.includes('.')) {
-        const parts = ip.split('.');
-        if (parts.length === 4) {
-          context.ipSubnet = `${parts[0]}.${parts[1]}.${parts[2]}.0`;
-        }
+      // Anonymize IP address to its /24 (IPv4) or /48 (IPv6) subnet
+      const ipSubnet = anonymizeIp(clientIpFromHeaders(request.headers, clientIp));
+      if (ipSubnet && !signal) {
+        context.ipSubnet = ipSubnet;
       }
 
       // Geographic region (if available from CDN headers)
-      const country = request.headers.get('cf-ipcountry') || 
-                     request.headers.get('x-vercel-ip-country');
-      if (country && country !== 'unknown') {
-        context.country = country;
+      const location = geoFromHeaders(request.headers);
+      if (location && !signal) {
+        Object.assign(context, location);
       }
     }
 
@@ -162,10 +493,44 @@ export class ServerTracker {
   }
 }
 
-// Middleware for automatic server-side tracking
+// Accepted or anonymized, i.e. still headed for storage and GTM
+const isStored = (outcome: IngestionOutcome) =>
+  outcome.status === 'accepted' || outcome.status === 'anonymized';
+
+// Marks stored events that turned out to be retries, or that the database
+// refused, going through the ids in batch order
+function withStorageOutcome(
+  outcomes: IngestionOutcome[],
+  stored: BulkInsertResult | null,
+): IngestionOutcome[] {
+  if (!stored) return outcomes;
+
+  const inserted = new Set(stored.inserted);
+  const failed = new Map(stored.failed.map(failure => [failure.id, failure.error.code]));
+
+  return outcomes.map((decision): IngestionOutcome => {
+    if (!isStored(decision) || inserted.delete(decision.event.id)) return decision;
+
+    const code = failed.get(decision.event.id);
+    return code
+      ? { ...decision, status: 'failed', reason: code }
+      : { ...decision, status: 'duplicate' };
+  });
+}
+
+// Middleware for automatic server-side tracking. Frameworks that know the
+// peer address put it on request.ip.
 export function createTrackingMiddleware(tracker: ServerTracker) {
-  return async (request: Request, _response: Response, next: () => void) => {
+  return async (
+    request: Request & { ip?: string | null },
+    _response: Response,
+    next: () => void,
+  ) => {
     const startTime = Date.now();
+    const clientIp: ClientIpOptions = {
+      trustedProxies: tracker.trustedProxies,
+      remoteAddress: request.ip,
+    };
 
     // Track page view for GET requests
     if (request.method === 'GET') {
@@ -176,7 +541,9 @@ export function createTrackingMiddleware(tracker: ServerTracker) {
           path: new URL(request.url).pathname,
           method: request.method,
         },
-        request
+        request,
+        DEFAULT_PRIVACY_SIGNAL_POLICY,
+        clientIp
       );
 
       await tracker.track(anonymousEvent);
@@ -196,7 +563,9 @@ export function createTrackingMiddleware(tracker: ServerTracker) {
         duration,
         // status: response.status, // If response is available
       },
-      request
+      request,
+      DEFAULT_PRIVACY_SIGNAL_POLICY,
+      clientIp
     );
 
     await tracker.track(performanceEvent);
@@ -212,7 +581,7 @@ export async function trackAPIUsage(
   tracker: ServerTracker
 ): Promise<void> {
   const event = TrackingEvent.create(
-    'api_call' as EventType,
+    'api_call',
     'api_usage',
     {
       endpoint,
@@ -229,31 +598,32 @@ export async function trackAPIUsage(
 // GDPR compliance utilities
 export class GDPRTracker extends ServerTracker {
   async requestDataExport(userId: string): Promise<any> {
-    if (!this.db) throw new Error('Database not configured');
+    if (!this.repositories) throw new Error('Database not configured');
 
     // Collect all user data
     const [user, events, sessions] = await Promise.all([
-      this.db.from('users').select('*').eq('id', userId).single(),
-      this.db.from('events').select('*').eq('user_id', userId),
-      this.db.from('snack_sessions').select('*').eq('user_id', userId),
+      this.repositories.users.findById(userId),
+      this.repositories.events.findByUser(userId),
+      this.repositories.snackSessions.findByUser(userId),
     ]);
 
+    if (!user) throw new NotFoundError('User', userId);
+
     return {
-      user: user.data,
-      events: events.data,
-      sessions: sessions.data,
+      user,
+      events,
+      sessions,
       exportedAt: new Date().toISOString(),
     };
   }
 
   async requestDataDeletion(userId: string): Promise<void> {
-    if (!this.db) throw new Error('Database not configured');
+    if (!this.repositories) throw new Error('Database not configured');
 
     // Mark user for deletion
-    await this.db
-      .from('users')
-      .update({ deletion_requested_at: new Date().toISOString() })
-      .eq('id', userId);
+    const user = await this.repositories.users.findById(userId);
+    if (!user) throw new NotFoundError('User', userId);
+    await this.repositories.users.update(user.requestDeletion());
 
     // Schedule anonymization (would be handled by background job)
     await this.scheduleAnonymization(userId);
@@ -272,10 +642,10 @@ export class GDPRTracker extends ServerTracker {
   }
 
   private async anonymizeUserData(userId: string): Promise<void> {
-    if (!this.db) throw new Error('Database not configured');
+    if (!this.repositories) throw new Error('Database not configured');
 
     // Use the database function to anonymize user data
-    await this.db.rpc('anonymize_user_data', { user_uuid: userId });
+    await this.repositories.users.anonymize(userId);
 
     console.log(`[GDPRTracker] Anonymized data for user ${userId}`);
   }
@@ -1,9 +1,36 @@
-import fastify from 'fastify';
+import fastify, { FastifyRequest } from 'fastify';
 import cors from '@fastify/cors';
 import helmet from '@fastify/helmet';
 import rateLimit from '@fastify/rate-limit';
-import { TrackingEvent } from '@data-snack/core';
-import { ServerTracker } from '@data-snack/tracking';
+import {
+  TC_STRING_MAX_LENGTH,
+  TrackingEvent,
+  UserAgentEnricher,
+  applyPrivacySignals,
+  toEventType,
+} from '@data-snack/core';
+import { createRepositories, resolveStorageDriver } from '@data-snack/database';
+import {
+  ConsentDeclarationSchema,
+  ConsentLedger,
+  DEFAULT_MAX_BODY_BYTES,
+  IngestionPipeline,
+  IngestionWorker,
+  MemoryIngestionQueue,
+  RequestBodyError,
+  ServerTracker,
+  createFastifyHandler,
+  decodeRequestBody,
+  clientIpFromHeaders,
+  eventClockConfigFromEnv,
+  geoIpFromEnv,
+  locateClient,
+  piiScrubbingFromEnv,
+  privacySignalPolicyFromEnv,
+  readPrivacySignals,
+  schemaValidationFromEnv,
+  trustedProxiesFromEnv,
+} from '@data-snack/tracking';
 import { z } from 'zod';
 
 // Environment configuration
@@ -14,22 +41,44 @@ const config = {
   gtmContainerId: process.env.GTM_CONTAINER_ID,
   corsOrigin: process.env.CORS_ORIGIN || 'https://data-snack.com',
   debug: process.env.DEBUG === 'true',
+  maxBodyBytes: parseInt(process.env.MAX_BODY_BYTES || String(DEFAULT_MAX_BODY_BYTES), 10),
+  // 'reject' drops events beyond the stored consent, 'anonymize' keeps them without identifiers
+  consentEnforcement: (process.env.CONSENT_ENFORCEMENT === 'anonymize' ? 'anonymize' : 'reject') as
+    | 'reject'
+    | 'anonymize',
+  // GPC / DNT handling (PRIVACY_SIGNALS_DENY, HONOR_GPC, HONOR_DNT)
+  privacySignalPolicy: privacySignalPolicyFromEnv(),
+  // Event time window and clock skew handling (EVENT_MAX_PAST_MS, EVENT_OUT_OF_WINDOW, ...)
+  clock: eventClockConfigFromEnv(),
+  // Event property schemas, SCHEMA_VALIDATION=strict quarantines mismatches
+  schemaValidation: schemaValidationFromEnv(),
+  // Personal data in properties and URLs, PII_SCRUBBING=hash keeps it joinable
+  scrubbing: piiScrubbingFromEnv(),
+  // Proxies whose X-Forwarded-For hops are believed (TRUSTED_PROXIES)
+  trustedProxies: trustedProxiesFromEnv(),
+  // Offline country/region lookups, a MaxMind DB file (GEOIP_DATABASE)
+  geoIp: geoIpFromEnv(),
+  // Batches are stored in the background unless INGESTION_QUEUE=none
+  ingestionQueue: process.env.INGESTION_QUEUE !== 'none',
+  ingestionQueueCapacity: parseInt(process.env.INGESTION_QUEUE_CAPACITY || '10000', 10),
+  // How long shutdown waits for batches delayed for a retry
+  drainTimeoutMs: parseInt(process.env.DRAIN_TIMEOUT_MS || '10000', 10),
 };
 
 // Validation schemas
-const TrackingEventSchema = z.object({
-  type: z.string(),
-  name: z.string(),
-  properties: z.record(z.unknown()).default({}),
-  context: z.record(z.unknown()).default({}),
-  sessionId: z.string(),
+const ConsentRequestSchema = z.object({
   userId: z.string().optional(),
-  timestamp: z.string().datetime().optional(),
+  sessionId: z.string(),
+  consent: ConsentDeclarationSchema,
+  tcString: z.string().max(TC_STRING_MAX_LENGTH).optional(),
 });
 
-const BatchTrackingSchema = z.object({
-  events: z.array(TrackingEventSchema),
-});
+// Postgres (DATABASE_URL), Supabase, or local memory/file storage (DATA_SNACK_STORAGE)
+const storageDriver = resolveStorageDriver();
+const repositories = createRepositories({ driver: storageDriver });
+
+// Consent history, also the source for consent enforcement
+const ledger = new ConsentLedger(repositories);
 
 // Initialize tracking
 const tracker = new ServerTracker({
@@ -37,8 +86,40 @@ const tracker = new ServerTracker({
   enableDatabase: true,
   enableAnalytics: true,
   debug: config.debug,
+  consentEnforcement: config.consentEnforcement,
+  consentSource: ledger,
+  repositories,
+  clock: config.clock,
+  schemaValidation: config.schemaValidation,
+  scrubbing: config.scrubbing,
+  // Browser, OS and device from the user agent, which needs analytics consent to be kept
+  enrichers: [new UserAgentEnricher()],
+  trustedProxies: config.trustedProxies,
 });
 
+// Between /track and storage, so slow storage doesn't hold up responses
+const queue = config.ingestionQueue
+  ? new MemoryIngestionQueue({ capacity: config.ingestionQueueCapacity })
+  : null;
+const worker = queue ? new IngestionWorker(queue, tracker, { ledger, debug: config.debug }) : null;
+
+// Validation and normalization shared with the web app's /api/track
+const pipeline = new IngestionPipeline({
+  tracker,
+  queue,
+  ledger,
+  privacySignalPolicy: config.privacySignalPolicy,
+  trustedProxies: config.trustedProxies,
+  geoIp: config.geoIp,
+});
+
+// The client's address, only ever stored truncated or as its location
+const clientIp = (request: FastifyRequest) =>
+  clientIpFromHeaders(request.headers, {
+    trustedProxies: config.trustedProxies,
+    remoteAddress: request.ip,
+  });
+
 // Create Fastify instance
 const app = fastify({ 
   logger: {
@@ -73,6 +154,23 @@ app.register(rateLimit, {
   timeWindow: '1 minute',
 });
 
+// JSON bodies may be gzip/deflate compressed by the SDK, and navigator.sendBeacon
+// posts the batch as text/plain to avoid a CORS preflight
+app.addContentTypeParser(
+  ['application/json', 'text/plain'],
+  { parseAs: 'buffer' },
+  async (request: FastifyRequest, body: Buffer) => {
+    try {
+      const encoding = request.headers['content-encoding'];
+      const text = await decodeRequestBody(body, encoding, config.maxBodyBytes);
+      return JSON.parse(text);
+    } catch (error) {
+      const statusCode = error instanceof RequestBodyError ? error.status : 400;
+      throw Object.assign(error as Error, { statusCode });
+    }
+  },
+);
+
 // Health check endpoint
 app.get('/health', async () => {
   return { 
@@ -80,6 +178,16 @@ app.get('/health', async () => {
     timestamp: new Date().toISOString(),
     version: process.env.npm_package_version || '0.0.0',
     environment: config.environment,
+    storage: storageDriver,
+  };
+});
+
+// Ingestion totals, including duplicates dropped as retries
+app.get('/metrics', async () => {
+  return {
+    ingestion: tracker.getMetrics(),
+    queued: queue ? await queue.size() : 0,
+    timestamp: new Date().toISOString(),
   };
 });
 
@@ -88,14 +196,15 @@ app.post('/gtm/collect', async (request, reply) => {
   try {
     const eventData = request.body as any;
     
-    // Convert GTM format to our format
+    // Convert GTM format to our format, GA4 event names outside ours become custom events
+    const eventName = String(eventData.event_name || eventData.en || 'unknown');
     const trackingEvent = TrackingEvent.create(
-      eventData.event_name || eventData.en || 'unknown',
-      eventData.event_name || eventData.en || 'unknown',
+      toEventType(eventName),
+      eventName,
       eventData,
       {
         userAgent: request.headers['user-agent'],
-        ip: request.ip,
+        ...locateClient(clientIp(request), request.headers, config.geoIp),
         url: eventData.page_location || eventData.dl,
         referrer: eventData.page_referrer || eventData.dr,
       }
@@ -113,84 +222,11 @@ app.post('/gtm/collect', async (request, reply) => {
   }
 });
 
-// Main tracking endpoint
-app.post<{
-  Body: z.infer<typeof BatchTrackingSchema>
-}>('/track', {
-  schema: {
-    body: BatchTrackingSchema,
-  },
-}, async (request, reply) => {
-  try {
-    const { events } = request.body;
-    
-    // Convert and enhance events
-    const trackingEvents = events.map(eventData => {
-      const event = TrackingEvent.create(
-        eventData.type as any,
-        eventData.name,
-        eventData.properties,
-        {
-          ...eventData.context,
-          userAgent: request.headers['user-agent'],
-          ip: request.ip,
-        }
-      ).withSession(eventData.sessionId);
-
-      if (eventData.userId) {
-        return event.withUser(eventData.userId as any);
-      }
-      
-      return event;
-    });
-
-    await tracker.trackBatch(trackingEvents);
-
-    reply.code(204);
-    return;
-  } catch (error) {
-    app.log.error('Track endpoint error:', error);
-    reply.code(400);
-    return { error: 'Invalid request' };
-  }
-});
+// Main tracking endpoint, per-event outcome so the client can tell accepted from rejected events
+app.post('/track', createFastifyHandler(pipeline));
 
 // Single event tracking endpoint
-app.post<{
-  Body: z.infer<typeof TrackingEventSchema>
-}>('/track/single', {
-  schema: {
-    body: TrackingEventSchema,
-  },
-}, async (request, reply) => {
-  try {
-    const eventData = request.body;
-    
-    let event = TrackingEvent.create(
-      eventData.type as any,
-      eventData.name,
-      eventData.properties,
-      {
-        ...eventData.context,
-        userAgent: request.headers['user-agent'],
-        ip: request.ip,
-      }
-    ).withSession(eventData.sessionId);
-
-    if (eventData.userId) {
-      event = event.withUser(eventData.userId as any);
-    }
-
-    await tracker.track(event);
-
-    reply.code(204);
-    return;
-  } catch (error) {
-    app.log.error('Single track endpoint error:', error);
-    reply.code(400);
-    return { error: 'Invalid request' };
-  }
-});
+app.post('/track/single', createFastifyHandler(pipeline, { single: true }));
 
 // Debug endpoint (development only)
 if (config.environment === 'development') {
@@ -206,9 +242,27 @@ if (config.environment === 'development') {
 
 // Consent management endpoint
 app.post('/consent', async (request, reply) => {
-  const { consent, userId, sessionId } = request.body as any;
-  
   try {
+    const body = ConsentRequestSchema.parse(request.body);
+    const { userId, sessionId } = body;
+
+    // A privacy signal overrides the request and is recorded as the source
+    const { consent, signal, overridden } = applyPrivacySignals(
+      body.consent,
+      readPrivacySignals(request.headers),
+      config.privacySignalPolicy,
+    );
+
+    await ledger.record({
+      userId,
+      sessionId,
+      categories: consent,
+      source: signal && overridden.length > 0 ? signal : 'api',
+      tcString: overridden.length === 0 ? body.tcString : undefined,
+      ipAddress: clientIp(request),
+      userAgent: request.headers['user-agent'],
+    });
+
     let consentEvent = TrackingEvent.create(
       'consent_change',
       'consent_update',
@@ -218,7 +272,7 @@ app.post('/consent', async (request, reply) => {
       },
       {
         userAgent: request.headers['user-agent'],
-        ip: request.ip,
+        ...locateClient(clientIp(request), request.headers, config.geoIp),
       }
     ).withSession(sessionId);
 
@@ -240,9 +294,12 @@ app.post('/consent', async (request, reply) => {
 // Error handler
 app.setErrorHandler((error, request, reply) => {
   app.log.error('Unhandled error:', error);
-  
-  reply.code(500).send({
-    error: 'Internal Server Error',
+
+  // Keep client errors (e.g. unparsable bodies) as 4xx so the SDK doesn't retry them
+  const statusCode = error.statusCode && error.statusCode < 500 ? error.statusCode : 500;
+
+  reply.code(statusCode).send({
+    error: statusCode === 500 ? 'Internal Server Error' : 'Invalid request',
     timestamp: new Date().toISOString(),
     ...(config.debug && { details: error.message }),
   });
@@ -254,6 +311,10 @@ const gracefulShutdown = async (signal: string) => {
   
   try {
     await app.close();
+    // Store what was accepted before the storage connections go away
+    await worker?.stop();
+    await worker?.drain(config.drainTimeoutMs);
+    await repositories.close?.();
     process.exit(0);
   } catch (error) {
     app.log.error('Error during shutdown:', error);
@@ -275,6 +336,9 @@ const start = async () => {
     app.log.info(`🚀 Tracking server running on ${config.host}:${config.port}`);
     app.log.info(`📊 Environment: ${config.environment}`);
     app.log.info(`🔍 Debug mode: ${config.debug ? 'enabled' : 'disabled'}`);
+    app.log.info(`🗄️ Storage: ${storageDriver}`);
+
+    worker?.start();
     
     if (config.gtmContainerId) {
       app.log.info(`📈 GTM Container ID: ${config.gtmContainerId}`);